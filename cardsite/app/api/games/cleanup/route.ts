@@ -3,7 +3,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { gameRooms, gameParticipants } from '@/lib/db/schema';
-import { eq, lt, and } from 'drizzle-orm';
+import { announceRooms } from '@/lib/game/lobby';
+import { eq, lt, and, ne } from 'drizzle-orm';
 
 // POST /api/games/cleanup - Clean up old empty or abandoned games
 export async function POST(request: Request) {
@@ -16,13 +17,14 @@ export async function POST(request: Request) {
     // Delete games older than 1 hour with 0 or 1 players (abandoned)
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
     
-    // Find abandoned games
+    // Find abandoned games (finished ones are kept for their replays)
     const abandonedGames = await db
       .select({ id: gameRooms.id })
       .from(gameRooms)
       .where(and(
         lt(gameRooms.createdAt, oneHourAgo),
-        eq(gameRooms.currentPlayers, 1)
+        eq(gameRooms.currentPlayers, 1),
+        ne(gameRooms.status, 'finished')
       ));
 
     let cleanedCount = 0;
@@ -50,6 +52,8 @@ export async function POST(request: Request) {
 
     cleanedCount += emptyGames.length;
 
+    await announceRooms([...abandonedGames, ...emptyGames].map(game => game.id));
+
     return NextResponse.json({
       success: true,
       message: `Cleaned up ${cleanedCount} abandoned game rooms`,
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { gameRooms, gameParticipants, gameInvites, friendships, users } from '@/lib/db/schema';
+import { eq, and, or } from 'drizzle-orm';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createInviteToken, inviteUser } from '@/lib/game/invites';
+import { announceInvite, announceRooms } from '@/lib/game/lobby';
+
+interface InviteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Only the room's players (the host included) can invite people into it
+async function findSeat(gameId: string, userId: string) {
+  const [seat] = await db
+    .select({ id: gameParticipants.id, roomName: gameRooms.name, status: gameRooms.status })
+    .from(gameParticipants)
+    .innerJoin(gameRooms, eq(gameParticipants.gameId, gameRooms.id))
+    .where(and(eq(gameParticipants.gameId, gameId), eq(gameParticipants.userId, userId)))
+    .limit(1);
+  return seat;
+}
+
+// GET /api/games/rooms/[id]/invites - A fresh invite link, and the user's friends with whether each is invited yet
+export async function GET(request: NextRequest, { params }: InviteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: gameId } = await params;
+    if (!(await findSeat(gameId, session.user.id))) {
+      return NextResponse.json({ error: 'Not a participant in this game' }, { status: 403 });
+    }
+
+    const userId = session.user.id;
+    const [friends, invites, seats] = await Promise.all([
+      db
+        .select({ id: users.id, username: users.username, name: users.name, image: users.image })
+        .from(friendships)
+        .innerJoin(users, or(
+          and(eq(friendships.user1Id, userId), eq(users.id, friendships.user2Id)),
+          and(eq(friendships.user2Id, userId), eq(users.id, friendships.user1Id))
+        ))
+        .where(or(eq(friendships.user1Id, userId), eq(friendships.user2Id, userId))),
+      db
+        .select({ userId: gameInvites.userId })
+        .from(gameInvites)
+        .where(eq(gameInvites.gameId, gameId)),
+      db
+        .select({ userId: gameParticipants.userId })
+        .from(gameParticipants)
+        .where(eq(gameParticipants.gameId, gameId)),
+    ]);
+
+    const invited = new Set(invites.map(invite => invite.userId));
+    const playing = new Set(seats.map(seat => seat.userId));
+    const { token, expiresAt } = createInviteToken(gameId, userId);
+    const link = new URL('/play', request.nextUrl.origin);
+    link.searchParams.set('game', gameId);
+    link.searchParams.set('invite', token);
+
+    return NextResponse.json({
+      invite: { url: link.toString(), expiresAt: new Date(expiresAt) },
+      friends: friends.map(friend => ({
+        id: friend.id,
+        username: friend.username || friend.name || 'Player',
+        image: friend.image,
+        invited: invited.has(friend.id),
+        playing: playing.has(friend.id),
+      })),
+    });
+  } catch (error) {
+    console.error('Error loading game invites:', error);
+    return NextResponse.json({ error: 'Failed to load invites' }, { status: 500 });
+  }
+}
+
+// POST /api/games/rooms/[id]/invites - Invite a friend, who can then see the room and join without its password
+export async function POST(request: NextRequest, { params }: InviteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: gameId } = await params;
+    const { friendId } = await request.json();
+    if (typeof friendId !== 'string' || !friendId) {
+      return NextResponse.json({ error: 'Friend ID is required' }, { status: 400 });
+    }
+
+    const seat = await findSeat(gameId, session.user.id);
+    if (!seat) {
+      return NextResponse.json({ error: 'Not a participant in this game' }, { status: 403 });
+    }
+    if (seat.status === 'finished') {
+      return NextResponse.json({ error: 'This game is over' }, { status: 400 });
+    }
+
+    const userId = session.user.id;
+    const [friendship] = await db
+      .select({ id: friendships.id })
+      .from(friendships)
+      .where(or(
+        and(eq(friendships.user1Id, userId), eq(friendships.user2Id, friendId)),
+        and(eq(friendships.user1Id, friendId), eq(friendships.user2Id, userId))
+      ))
+      .limit(1);
+
+    if (!friendship) {
+      return NextResponse.json({ error: 'You can only invite your friends' }, { status: 403 });
+    }
+
+    await inviteUser(gameId, friendId, userId);
+    await announceRooms([gameId]);
+    await announceInvite(gameId, seat.roomName, userId, friendId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error inviting friend:', error);
+    return NextResponse.json({ error: 'Failed to invite friend' }, { status: 500 });
+  }
+}
@@ -2,11 +2,14 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { db } from '@/lib/db';
-import { gameRooms, gameParticipants, decks } from '@/lib/db/schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { gameRooms, gameParticipants, gameSpectators, decks } from '@/lib/db/schema';
+import { announceRooms, syncPlayerCount } from '@/lib/game/lobby';
+import { checkRoomAccess } from '@/lib/game/invites';
+import { eq, and, isNull, lt, sql } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 
-// POST /api/games/rooms/[id]/join - Join a game room
+// POST /api/games/rooms/[id]/join - Join a game room (as a spectator with { spectate: true }),
+// with { password } or { invite } for private and password-protected rooms
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -20,16 +23,7 @@ export async function POST(
     const resolvedParams = await params;
     const gameId = resolvedParams.id;
     const body = await request.json();
-    const { deckId } = body;
-
-    // 🐛 DEBUG: Log the deck selection
-    console.log('🃏 JOIN GAME API - Received request:', {
-      gameId,
-      userId: session.user.id,
-      deckId,
-      hasDeckId: !!deckId,
-      bodyContent: body
-    });
+    const { deckId, spectate, password, invite } = body;
 
     // Validate deck ownership if provided
     if (deckId) {
@@ -58,6 +52,7 @@ export async function POST(
         maxPlayers: gameRooms.maxPlayers,
         currentPlayers: gameRooms.currentPlayers,
         hostId: gameRooms.hostId,
+        settings: gameRooms.settings,
       })
       .from(gameRooms)
       .where(eq(gameRooms.id, gameId))
@@ -70,6 +65,77 @@ export async function POST(
       );
     }
 
+    // Anyone the host removed stays out, whatever invite or password they bring
+    const [spectator] = await db
+      .select({ kickedAt: gameSpectators.kickedAt })
+      .from(gameSpectators)
+      .where(and(
+        eq(gameSpectators.gameId, gameId),
+        eq(gameSpectators.userId, session.user.id)
+      ))
+      .limit(1);
+
+    if (spectator?.kickedAt) {
+      return NextResponse.json(
+        { error: 'The host has removed you from this game' },
+        { status: 403 }
+      );
+    }
+
+    // Private and password-protected rooms check who is coming in, whether to play or to watch
+    const access = await checkRoomAccess(room, session.user.id, { password, invite });
+    if (!access.success) {
+      return NextResponse.json(
+        { error: access.error.message, code: access.error.code },
+        { status: 403 }
+      );
+    }
+
+    // Spectators don't take a seat, so they can watch full rooms and games in progress
+    if (spectate) {
+      if (room.settings?.allowSpectators === false) {
+        return NextResponse.json(
+          { error: 'This game room does not allow spectators' },
+          { status: 403 }
+        );
+      }
+
+      const [participant] = await db
+        .select({ id: gameParticipants.id })
+        .from(gameParticipants)
+        .where(and(
+          eq(gameParticipants.gameId, gameId),
+          eq(gameParticipants.userId, session.user.id)
+        ))
+        .limit(1);
+
+      if (participant) {
+        return NextResponse.json(
+          { error: 'You are already a player in this game' },
+          { status: 400 }
+        );
+      }
+
+      if (!spectator) {
+        await db
+          .insert(gameSpectators)
+          .values({
+            id: nanoid(12),
+            gameId: gameId,
+            userId: session.user.id,
+          })
+          .onConflictDoNothing();
+        await announceRooms([gameId]);
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Now spectating game room',
+        gameId: gameId,
+        spectating: true,
+      });
+    }
+
     if (room.status !== 'waiting') {
       return NextResponse.json(
         { error: 'Game room is not accepting new players' },
@@ -152,18 +218,34 @@ export async function POST(
           .where(eq(gameRooms.id, participation.gameId));
         console.log(`🗑️ Deleted empty game room: ${participation.gameName}`);
       } else {
-        // Otherwise, just decrease player count
-        await db
-          .update(gameRooms)
-          .set({
-            currentPlayers: sql`${gameRooms.currentPlayers} - 1`,
-            updatedAt: new Date(),
-          })
-          .where(eq(gameRooms.id, participation.gameId));
+        // Otherwise, just recount the players
+        await syncPlayerCount(participation.gameId);
         console.log(`📉 Decreased player count for game: ${participation.gameName}`);
       }
     }
 
+    // Claim the seat before taking it, so two players racing for the last one can't both get it
+    const [claimed] = await db
+      .update(gameRooms)
+      .set({
+        currentPlayers: sql`${gameRooms.currentPlayers} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(gameRooms.id, gameId),
+        eq(gameRooms.status, 'waiting'),
+        lt(gameRooms.currentPlayers, gameRooms.maxPlayers)
+      ))
+      .returning({ id: gameRooms.id });
+
+    if (!claimed) {
+      await announceRooms(otherGameParticipations.map(p => p.gameId));
+      return NextResponse.json(
+        { error: 'Game room is full' },
+        { status: 400 }
+      );
+    }
+
     // Find the next available seat position
     const existingSeats = await db
       .select({ seatPosition: gameParticipants.seatPosition })
@@ -176,6 +258,15 @@ export async function POST(
       nextSeat++;
     }
 
+    // Taking a seat ends any spectating of this room
+    await db
+      .delete(gameSpectators)
+      .where(and(
+        eq(gameSpectators.gameId, gameId),
+        eq(gameSpectators.userId, session.user.id),
+        isNull(gameSpectators.kickedAt)
+      ));
+
     // Add user as participant
     await db
       .insert(gameParticipants)
@@ -188,23 +279,9 @@ export async function POST(
         status: 'joined',
       });
 
-    // 🐛 DEBUG: Log what was actually stored
-    console.log('✅ PARTICIPANT CREATED:', {
-      gameId,
-      userId: session.user.id,
-      deckId: deckId || null,
-      seatPosition: nextSeat,
-      storedDeckId: deckId || 'NULL'
-      });
-
-    // Update room player count
-    await db
-      .update(gameRooms)
-      .set({
-        currentPlayers: sql`${gameRooms.currentPlayers} + 1`,
-        updatedAt: new Date(),
-      })
-      .where(eq(gameRooms.id, gameId));
+    // Settle the player count on the seats actually taken
+    await syncPlayerCount(gameId);
+    await announceRooms([...otherGameParticipations.map(p => p.gameId), gameId]);
 
     return NextResponse.json({
       success: true,
@@ -222,7 +299,7 @@ export async function POST(
   }
 }
 
-// DELETE /api/games/rooms/[id]/join - Leave a game room
+// DELETE /api/games/rooms/[id]/join - Leave a game room (or stop spectating it)
 export async function DELETE(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -250,6 +327,24 @@ export async function DELETE(
       .limit(1);
 
     if (!participant) {
+      // Kicked spectators keep their row so they can't come back
+      const [spectator] = await db
+        .delete(gameSpectators)
+        .where(and(
+          eq(gameSpectators.gameId, gameId),
+          eq(gameSpectators.userId, session.user.id),
+          isNull(gameSpectators.kickedAt)
+        ))
+        .returning({ id: gameSpectators.id });
+
+      if (spectator) {
+        await announceRooms([gameId]);
+        return NextResponse.json({
+          success: true,
+          message: 'Stopped spectating game room',
+        });
+      }
+
       return NextResponse.json(
         { error: 'Not a participant in this game' },
         { status: 400 }
@@ -281,15 +376,10 @@ export async function DELETE(
         .delete(gameRooms)
         .where(eq(gameRooms.id, gameId));
     } else {
-      // Otherwise, just decrease player count
-      await db
-        .update(gameRooms)
-        .set({
-          currentPlayers: sql`${gameRooms.currentPlayers} - 1`,
-          updatedAt: new Date(),
-        })
-        .where(eq(gameRooms.id, gameId));
+      // Otherwise, just recount the players
+      await syncPlayerCount(gameId);
     }
+    await announceRooms([gameId]);
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { gameRooms } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { gameStore } from '@/lib/game/store';
+import { checkRoomAccess } from '@/lib/game/invites';
+
+interface ReplayParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/games/rooms/[id]/replay - Every recorded event of a finished game. Replays of public rooms can be
+// shared with anyone; private and password-protected rooms only show theirs to their insiders and to holders of
+// an invite link (?invite=)
+export async function GET(request: NextRequest, { params }: ReplayParams) {
+  try {
+    const { id: gameId } = await params;
+
+    const [room] = await db
+      .select({
+        id: gameRooms.id,
+        name: gameRooms.name,
+        format: gameRooms.format,
+        status: gameRooms.status,
+        hostId: gameRooms.hostId,
+        settings: gameRooms.settings
+      })
+      .from(gameRooms)
+      .where(eq(gameRooms.id, gameId))
+      .limit(1);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Game room not found' }, { status: 404 });
+    }
+
+    // The log holds every hand and library, so it stays private until the game is over
+    if (room.status !== 'finished') {
+      return NextResponse.json({ error: 'Replays are available once the game has finished' }, { status: 403 });
+    }
+
+    if (room.settings?.isPrivate || room.settings?.passwordHash) {
+      const session = await getServerSession(authOptions);
+      if (!session?.user?.id) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      const invite = request.nextUrl.searchParams.get('invite') ?? undefined;
+      const access = await checkRoomAccess(room, session.user.id, { invite });
+      if (!access.success) {
+        return NextResponse.json(
+          { error: access.error.message, code: access.error.code },
+          { status: 403 }
+        );
+      }
+    }
+
+    const recorded = await gameStore.loadRecordedGame(gameId);
+    if (!recorded) {
+      return NextResponse.json({ error: 'No events recorded for this game' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      room: { id: gameId, name: room.name, format: room.format },
+      replay: recorded
+    });
+
+  } catch (error) {
+    console.error('❌ Error fetching replay:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch replay' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { gameRooms, gameParticipants, users, decks } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { canViewRoom } from '@/lib/game/invites';
 
 // GET /api/games/rooms/[id] - Get a specific game room (public for watching)
 export async function GET(
@@ -37,7 +38,8 @@ export async function GET(
       .where(eq(gameRooms.id, gameId))
       .limit(1);
 
-    if (room.length === 0) {
+    // Private rooms look like they don't exist to anyone they weren't opened to
+    if (room.length === 0 || !(await canViewRoom(room[0], session?.user?.id))) {
       return NextResponse.json({ error: 'Game room not found' }, { status: 404 });
     }
 
@@ -61,8 +63,10 @@ export async function GET(
       .orderBy(gameParticipants.seatPosition);
 
     // Format the response
+    const { passwordHash, ...settings } = room[0].settings ?? {};
     const gameRoom = {
       ...room[0],
+      settings: { ...settings, hasPassword: !!passwordHash },
       participants: participants.map(p => ({
         id: p.id,
         userId: p.userId,
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { gameRooms, gameParticipants } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { gameStore } from '@/lib/game/store';
+import { verifyShuffles } from '@/lib/game/shuffle';
+
+interface ShuffleProofParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/games/rooms/[id]/shuffles - Shuffle commitment, plus the seed and every shuffle once the game is over
+export async function GET(request: NextRequest, { params }: ShuffleProofParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: gameId } = await params;
+
+    const participant = await db
+      .select()
+      .from(gameParticipants)
+      .where(
+        and(
+          eq(gameParticipants.gameId, gameId),
+          eq(gameParticipants.userId, session.user.id)
+        )
+      )
+      .limit(1);
+
+    if (participant.length === 0) {
+      return NextResponse.json({ error: 'Not a participant in this game' }, { status: 403 });
+    }
+
+    const [room] = await db
+      .select({ status: gameRooms.status })
+      .from(gameRooms)
+      .where(eq(gameRooms.id, gameId))
+      .limit(1);
+
+    const shuffleSeed = await gameStore.loadShuffleSeed(gameId);
+    if (!room || !shuffleSeed) {
+      return NextResponse.json({ error: 'No shuffles recorded for this game' }, { status: 404 });
+    }
+
+    // Revealing the seed mid-game would let anyone work out every library, so it waits for the end
+    if (room.status !== 'finished') {
+      return NextResponse.json({
+        gameId,
+        commitment: shuffleSeed.commitment,
+        revealed: false
+      });
+    }
+
+    const shuffles = await gameStore.loadShuffles(gameId);
+    const verification = verifyShuffles(shuffleSeed.seed, shuffleSeed.commitment, shuffles);
+
+    return NextResponse.json({
+      gameId,
+      commitment: shuffleSeed.commitment,
+      revealed: true,
+      seed: shuffleSeed.seed,
+      shuffles,
+      verified: verification.success
+    });
+
+  } catch (error) {
+    console.error('❌ Error fetching shuffle proof:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch shuffle proof' },
+      { status: 500 }
+    );
+  }
+}
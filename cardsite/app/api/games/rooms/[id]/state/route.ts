@@ -4,6 +4,8 @@ import { gameRooms, gameParticipants, users } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { gameStore } from '@/lib/game/store';
+import { toPlayerSnapshot } from '@/lib/game/authority';
 
 interface GameStateParams {
   params: Promise<{ id: string }>;
@@ -40,17 +42,21 @@ export async function GET(request: NextRequest, { params }: GameStateParams) {
       return NextResponse.json({ error: 'Not a participant in this game' }, { status: 403 });
     }
 
-    // Get player game state from global function (set by custom server)
-    const getPlayerGameState = (global as any).getPlayerGameState;
-    const playerState = getPlayerGameState ? getPlayerGameState(gameId, playerId) : {
-      battlefieldCards: [],
-      handCards: [],
-      handCount: 0,
-      libraryCards: [],
-      libraryCount: 60,
-      lastUpdated: Date.now()
-    };
-    
+    // Rebuild the game from its persisted event log, so this works even after a server restart
+    const storedGame = await gameStore.loadGame(gameId);
+    if (!storedGame.success) {
+      console.error('❌ Error restoring game state:', storedGame.error);
+      return NextResponse.json({ error: 'Failed to restore game state' }, { status: 500 });
+    }
+
+    // Other players' hands and libraries are hidden information: only counts and revealed cards come back
+    const playerState = toPlayerSnapshot(
+      storedGame.data?.state,
+      playerId,
+      session.user.id,
+      storedGame.data?.updatedAt.getTime() ?? Date.now()
+    );
+
     const gameState = {
       playerId,
       battlefieldCards: playerState.battlefieldCards,
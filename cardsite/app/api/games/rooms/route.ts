@@ -2,8 +2,11 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { db } from '@/lib/db';
-import { gameRooms, gameParticipants, users } from '@/lib/db/schema';
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { gameRooms, gameParticipants } from '@/lib/db/schema';
+import { announceRooms, loadLobbyRooms, syncPlayerCount } from '@/lib/game/lobby';
+import { hashRoomPassword } from '@/lib/game/invites';
+import { isValidTurnTimeLimit, MAX_TURN_TIME_LIMIT, MIN_TURN_TIME_LIMIT } from '@/lib/game/presence';
+import { eq } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 
 // GET /api/games/rooms - List available game rooms (public for viewing)
@@ -11,50 +14,14 @@ export async function GET(request: Request) {
   try {
     const session = await getServerSession(authOptions);
     
-    // Get all rooms with host information - available to everyone for viewing
-    const rooms = await db
-      .select({
-        id: gameRooms.id,
-        name: gameRooms.name,
-        format: gameRooms.format,
-        status: gameRooms.status,
-        maxPlayers: gameRooms.maxPlayers,
-        currentPlayers: gameRooms.currentPlayers,
-        hostId: gameRooms.hostId,
-        createdAt: gameRooms.createdAt,
-        hostUsername: users.username,
-      })
-      .from(gameRooms)
-      .leftJoin(users, eq(gameRooms.hostId, users.id))
-      .orderBy(desc(gameRooms.createdAt))
-      .limit(20);
-
-    // Get user's participations only if authenticated
-    let userGameIds = new Set<string>();
-    if (session?.user?.id) {
-      const userParticipations = await db
-        .select({
-          gameId: gameParticipants.gameId,
-        })
-        .from(gameParticipants)
-        .where(eq(gameParticipants.userId, session.user.id));
-
-      userGameIds = new Set(userParticipations.map(p => p.gameId));
-    }
+    // Get the newest rooms - available to everyone for viewing, apart from private rooms the user wasn't invited to
+    const rooms = await loadLobbyRooms({ viewerId: session?.user?.id });
 
     return NextResponse.json({
       success: true,
       rooms: rooms.map(room => ({
-        id: room.id,
-        title: room.name,
-        format: room.format,
-        players: `${room.currentPlayers}/${room.maxPlayers} Players`,
-        host: room.hostUsername || 'Unknown Host',
-        tags: [],
-        powerLevel: null,
-        status: room.status === 'waiting' ? 'Join Game' : 'Playing',
-        createdAt: room.createdAt,
-        isParticipant: session?.user?.id ? userGameIds.has(room.id) : false,
+        ...room,
+        isParticipant: session?.user?.id ? room.playerIds.includes(session.user.id) : false,
         isHost: session?.user?.id === room.hostId,
       }))
     });
@@ -87,6 +54,28 @@ export async function POST(request: Request) {
       );
     }
 
+    // Best-of-three matches are played between two players
+    if (settings?.bestOf === 3 && parseInt(maxPlayers) !== 2) {
+      return NextResponse.json(
+        { error: 'Best-of-three matches are for two-player rooms' },
+        { status: 400 }
+      );
+    }
+
+    if (settings?.turnTimeLimit !== undefined && !isValidTurnTimeLimit(settings.turnTimeLimit)) {
+      return NextResponse.json(
+        { error: `The turn timer must be between ${MIN_TURN_TIME_LIMIT} seconds and ${MAX_TURN_TIME_LIMIT / 60} minutes` },
+        { status: 400 }
+      );
+    }
+
+    // The room password is only ever stored hashed
+    const { password, ...roomSettings } = settings || {};
+    delete roomSettings.passwordHash;
+    if (typeof password === 'string' && password.length > 0) {
+      roomSettings.passwordHash = await hashRoomPassword(password);
+    }
+
     // CRITICAL FIX: Auto-leave any other games instead of blocking
     // This prevents the "only one game at a time" error when creating games
     const existingParticipations = await db
@@ -117,14 +106,8 @@ export async function POST(request: Request) {
           .where(eq(gameRooms.id, participation.gameId));
         console.log(`🗑️ Deleted empty game room during create: ${participation.gameName}`);
       } else {
-        // Otherwise, just decrease player count
-        await db
-          .update(gameRooms)
-          .set({
-            currentPlayers: sql`${gameRooms.currentPlayers} - 1`,
-            updatedAt: new Date(),
-          })
-          .where(eq(gameRooms.id, participation.gameId));
+        // Otherwise, just recount the players
+        await syncPlayerCount(participation.gameId);
         console.log(`📉 Decreased player count during create for game: ${participation.gameName}`);
       }
     }
@@ -140,7 +123,7 @@ export async function POST(request: Request) {
         format: format.toLowerCase(),
         maxPlayers: parseInt(maxPlayers) || 4,
         currentPlayers: 1,
-        settings: settings || {},
+        settings: roomSettings,
         status: 'waiting',
       })
       .returning();
@@ -157,6 +140,8 @@ export async function POST(request: Request) {
         status: 'joined',
       });
 
+    await announceRooms([...existingParticipations.map(p => p.gameId), roomId]);
+
     return NextResponse.json({
       success: true,
       room: {
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { gameResults, users } from '@/lib/db/schema';
+import { desc, eq, sql } from 'drizzle-orm';
+
+// How many of the most recent games the history lists
+const RECENT_MATCHES = 20;
+
+interface WinRate {
+  games: number;
+  wins: number;
+  winRate: number; // 0-100, rounded
+}
+
+// GET /api/users/[id]/matches - A player's recent results with their win rate overall, per deck and per format
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: userId } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+    }
+
+    const [user] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const games = sql<number>`count(*)::int`;
+    const wins = sql<number>`count(*) filter (where ${gameResults.placement} = 1)::int`;
+    const withRate = <T extends { games: number; wins: number }>(row: T): T & WinRate => ({
+      ...row,
+      winRate: row.games > 0 ? Math.round((row.wins / row.games) * 100) : 0,
+    });
+
+    const [recent, [overall], byDeck, byFormat] = await Promise.all([
+      db
+        .select({
+          gameId: gameResults.gameId,
+          gameNumber: gameResults.gameNumber,
+          format: gameResults.format,
+          deckId: gameResults.deckId,
+          deckName: gameResults.deckName,
+          placement: gameResults.placement,
+          playerCount: gameResults.playerCount,
+          conceded: gameResults.conceded,
+          turns: gameResults.turns,
+          durationSeconds: gameResults.durationSeconds,
+          endedAt: gameResults.endedAt,
+        })
+        .from(gameResults)
+        .where(eq(gameResults.userId, userId))
+        .orderBy(desc(gameResults.endedAt))
+        .limit(RECENT_MATCHES),
+      db
+        .select({ games, wins })
+        .from(gameResults)
+        .where(eq(gameResults.userId, userId)),
+      // Games played without a saved deck are grouped together under a null deck
+      db
+        .select({ deckId: gameResults.deckId, deckName: sql<string | null>`max(${gameResults.deckName})`, games, wins })
+        .from(gameResults)
+        .where(eq(gameResults.userId, userId))
+        .groupBy(gameResults.deckId)
+        .orderBy(desc(games)),
+      db
+        .select({ format: gameResults.format, games, wins })
+        .from(gameResults)
+        .where(eq(gameResults.userId, userId))
+        .groupBy(gameResults.format)
+        .orderBy(desc(games)),
+    ]);
+
+    return NextResponse.json({
+      matches: recent,
+      overall: withRate(overall ?? { games: 0, wins: 0 }),
+      byDeck: byDeck.map(withRate),
+      byFormat: byFormat.map(withRate),
+    });
+  } catch (error) {
+    console.error('Error fetching match history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch match history' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { notFound, useRouter } from 'next/navigation';
 import { useSession } from 'next-auth/react';
 import { secureApiRequest } from '@/lib/csrf';
@@ -39,13 +39,17 @@ interface GameRoom {
 }
 
 export default function GamePage({ params }: GamePageProps) {
-  const { data: session } = useSession();
+  const { data: session, status: sessionStatus } = useSession();
   const router = useRouter();
   const [gameRoom, setGameRoom] = useState<GameRoom | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [gameId, setGameId] = useState<string | null>(null);
   const [spectatorUserId, setSpectatorUserId] = useState<string | null>(null);
+  const [isSpectatorJoined, setIsSpectatorJoined] = useState(false);
+  // Bumped whenever the host changes the room, to load it again
+  const [roomVersion, setRoomVersion] = useState(0);
+  const reloadRoom = useCallback(() => setRoomVersion(version => version + 1), []);
 
   // Unwrap params properly for Next.js
   React.useEffect(() => {
@@ -87,9 +91,53 @@ export default function GamePage({ params }: GamePageProps) {
     }
 
     loadGameRoom();
-  }, [gameId]); // Removed session dependency to allow unauthenticated access
+  }, [gameId, roomVersion]); // Removed session dependency to allow unauthenticated access
 
-  // Allow non-authenticated users to watch games
+  // Anyone without a seat watches as a spectator, which the room has to allow
+  useEffect(() => {
+    async function joinAsSpectator() {
+      if (!gameRoom || sessionStatus === 'loading') return;
+      if (session?.user?.id && gameRoom.participants.some(p => p.userId === session.user.id)) return;
+
+      if (!session?.user?.id) {
+        setError('Sign in to watch this game');
+        return;
+      }
+
+      try {
+        // Password-protected rooms ask for the password before letting anyone watch
+        let password: string | undefined;
+        for (;;) {
+          const response = await secureApiRequest(`/api/games/rooms/${gameRoom.id}/join`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ spectate: true, password }),
+          });
+          if (response.ok) break;
+
+          const data = await response.json();
+          if (data.code === 'PASSWORD_REQUIRED' || data.code === 'WRONG_PASSWORD') {
+            const entered = prompt(data.code === 'WRONG_PASSWORD' ? 'Wrong password. Try again:' : 'This game room needs a password:');
+            if (entered) {
+              password = entered;
+              continue;
+            }
+          }
+          setError(data.error || 'Failed to spectate this game');
+          return;
+        }
+
+        setIsSpectatorJoined(true);
+      } catch (err) {
+        console.error('Error joining as spectator:', err);
+        setError('Failed to spectate this game');
+      }
+    }
+
+    joinAsSpectator();
+  }, [gameRoom, session?.user?.id, sessionStatus]);
 
   // Don't call notFound() until we've tried to load the gameId
   if (!loading && (!gameId || gameId.length === 0)) {
@@ -148,6 +196,17 @@ export default function GamePage({ params }: GamePageProps) {
   const currentUser = session?.user?.id ? gameRoom.participants.find(p => p.userId === session.user.id) : null;
   const isSpectator = !currentUser;
 
+  if (isSpectator && !isSpectatorJoined) {
+    return (
+      <div className="h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-white text-xl mb-4">Joining as a spectator...</div>
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto"></div>
+        </div>
+      </div>
+    );
+  }
+
   // Create a mock participant for spectators
   const spectatorUser: typeof currentUser = isSpectator ? {
     id: 'spectator',
@@ -157,7 +216,7 @@ export default function GamePage({ params }: GamePageProps) {
     status: 'watching',
     user: {
       id: 'spectator',
-      username: 'Spectator'
+      username: session?.user?.name || 'Spectator'
     }
   } : currentUser!;
 
@@ -174,6 +233,8 @@ export default function GamePage({ params }: GamePageProps) {
         sessionUserId={session?.user?.id || 'spectator'}
         spectatorUserId={spectatorUserId || (gameRoom.participants[0]?.userId)}
         onPlayerSwitch={setSpectatorUserId}
+        onRemovedFromGame={setError}
+        onRoomChanged={reloadRoom}
       />
     </div>
   );
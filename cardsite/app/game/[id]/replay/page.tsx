@@ -0,0 +1,257 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Play, Pause, SkipBack, SkipForward, Share2 } from 'lucide-react';
+import { secureApiRequest } from '@/lib/csrf';
+import { buildReplay, describeEvent, findTurnStarts, type RecordedGame, type ReplayFrame } from '@/lib/game/replay';
+import { ReplayBoard } from '@/components/mtg/replay-board';
+
+interface ReplayPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+interface ReplayRoom {
+  id: string;
+  name: string;
+  format: string;
+}
+
+const PLAYBACK_SPEEDS = [
+  { label: '0.5x', interval: 2000 },
+  { label: '1x', interval: 1000 },
+  { label: '2x', interval: 500 },
+  { label: '4x', interval: 250 },
+];
+
+export default function ReplayPage({ params }: ReplayPageProps) {
+  const router = useRouter();
+  const [gameId, setGameId] = useState<string | null>(null);
+  const [room, setRoom] = useState<ReplayRoom | null>(null);
+  const [frames, setFrames] = useState<ReplayFrame[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [copied, setCopied] = useState(false);
+
+  // Unwrap params properly for Next.js
+  useEffect(() => {
+    async function unwrapParams() {
+      const resolvedParams = await params;
+      setGameId(resolvedParams.id);
+    }
+    unwrapParams();
+  }, [params]);
+
+  // Load the recorded events and fold them into one frame per event
+  useEffect(() => {
+    async function loadReplay() {
+      if (!gameId) return;
+
+      try {
+        // Private rooms' replays can be shared with the room's invite link
+        const invite = new URLSearchParams(window.location.search).get('invite');
+        const query = invite ? `?invite=${encodeURIComponent(invite)}` : '';
+        const response = await secureApiRequest(`/api/games/rooms/${gameId}/replay${query}`);
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || 'Failed to load replay');
+          return;
+        }
+
+        const replay = buildReplay(data.replay as RecordedGame);
+        if (!replay.success) {
+          setError(replay.error.message);
+          return;
+        }
+
+        setRoom(data.room);
+        setFrames(replay.data);
+      } catch (err) {
+        console.error('Error loading replay:', err);
+        setError('Failed to load replay');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadReplay();
+  }, [gameId]);
+
+  // Playback advances one event per tick and stops at the end
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const timer = setInterval(() => {
+      setFrameIndex(prev => Math.min(prev + 1, frames.length - 1));
+    }, PLAYBACK_SPEEDS[speed].interval);
+
+    return () => clearInterval(timer);
+  }, [isPlaying, speed, frames.length]);
+
+  useEffect(() => {
+    if (isPlaying && frameIndex >= frames.length - 1) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, frameIndex, frames.length]);
+
+  const turnStarts = useMemo(() => findTurnStarts(frames), [frames]);
+
+  const handleShare = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (loading) {
+    return (
+      <div className="h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-white text-xl mb-4">Loading replay...</div>
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || frames.length === 0) {
+    return (
+      <div className="h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <h1 className="text-4xl font-bold text-red-400 mb-4">Error</h1>
+          <p className="text-xl text-gray-400 mb-8">{error || 'Replay not found'}</p>
+          <button
+            onClick={() => router.push('/play')}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            ← Back to Lobby
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const frame = frames[frameIndex];
+  const currentTurn = [...turnStarts].reverse().find(marker => marker.frame <= frameIndex);
+  const recentFrames = frames.slice(Math.max(1, frameIndex - 9), frameIndex + 1).reverse();
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h1 className="text-2xl font-bold">{room?.name} - Replay</h1>
+          <div className="text-sm text-gray-400 capitalize">
+            {room?.format} · {frames.length - 1} events
+            {frame.state.status === 'active' && ` · Turn ${frame.state.turn}, ${frame.state.phase}`}
+          </div>
+        </div>
+        <button
+          onClick={handleShare}
+          className="flex items-center gap-2 bg-black/80 hover:bg-black/90 px-3 py-2 rounded-lg border border-gray-700 text-sm"
+        >
+          <Share2 className="w-4 h-4" />
+          {copied ? 'Link copied' : 'Share replay'}
+        </button>
+      </div>
+
+      {/* Playback controls */}
+      <div className="bg-black/80 border border-gray-700 rounded-lg p-3 mb-4 flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => setFrameIndex(prev => Math.max(0, prev - 1))}
+          disabled={frameIndex === 0}
+          className="p-2 rounded hover:bg-white/10 disabled:opacity-50"
+          aria-label="Step back"
+        >
+          <SkipBack className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setIsPlaying(prev => !prev)}
+          disabled={frameIndex >= frames.length - 1 && !isPlaying}
+          className="p-2 rounded bg-green-600 hover:bg-green-700 disabled:opacity-50"
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button
+          onClick={() => setFrameIndex(prev => Math.min(frames.length - 1, prev + 1))}
+          disabled={frameIndex >= frames.length - 1}
+          className="p-2 rounded hover:bg-white/10 disabled:opacity-50"
+          aria-label="Step forward"
+        >
+          <SkipForward className="w-4 h-4" />
+        </button>
+
+        <input
+          type="range"
+          min={0}
+          max={frames.length - 1}
+          value={frameIndex}
+          onChange={(e) => setFrameIndex(parseInt(e.target.value))}
+          className="flex-1 min-w-[200px]"
+        />
+        <span className="text-sm text-gray-400 w-24 text-right">
+          {frameIndex} / {frames.length - 1}
+        </span>
+
+        <select
+          value={currentTurn?.frame ?? ''}
+          onChange={(e) => setFrameIndex(parseInt(e.target.value))}
+          disabled={turnStarts.length === 0}
+          className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+        >
+          <option value="" disabled>Jump to turn</option>
+          {turnStarts.map(marker => (
+            <option key={marker.frame} value={marker.frame}>
+              Turn {marker.turn} - {frame.state.players.get(marker.playerId)?.username ?? 'Unknown player'}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(parseInt(e.target.value))}
+          className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+        >
+          {PLAYBACK_SPEEDS.map((option, index) => (
+            <option key={option.label} value={index}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-[1fr_320px] gap-4">
+        <ReplayBoard state={frame.state} />
+
+        {/* Event log, newest first, worded from the state before each event */}
+        <div className="bg-black/60 border border-gray-700 rounded-lg p-3 text-sm h-fit">
+          <div className="font-medium mb-2">Events</div>
+          {recentFrames.length === 0 ? (
+            <div className="text-gray-500">Start of the game</div>
+          ) : (
+            <ul className="space-y-1">
+              {recentFrames.map((recent) => {
+                const index = frames.indexOf(recent);
+                return (
+                  <li key={recent.event!.seq}>
+                    <button
+                      onClick={() => setFrameIndex(index)}
+                      className={`w-full text-left px-2 py-1 rounded hover:bg-white/10 ${
+                        index === frameIndex ? 'bg-blue-600/40 text-white' : 'text-gray-300'
+                      }`}
+                    >
+                      <span className="text-gray-500 mr-2">#{recent.event!.seq}</span>
+                      {describeEvent(recent.event!, frames[index - 1].state)}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,25 +8,21 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { DeckSelectionModal, type UserDeck } from '@/components/ui/deck-selection-modal';
-import { Search, Calendar, Filter, ArrowUpDown, Settings, X, Plus, Loader2 } from 'lucide-react';
+import { MatchmakingPanel } from '@/components/mtg/matchmaking-panel';
+import { useLobby, type LobbyRoom, type RoomInvite } from '@/hooks/use-lobby';
+import { Search, Calendar, Filter, ArrowUpDown, Settings, X, Plus, Loader2, Lock, Mail } from 'lucide-react';
 import { secureApiRequest } from '@/lib/csrf';
 
 // UserDeck interface moved to deck-selection-modal.tsx
 
-interface GameRoom {
-  id: string;
-  title: string;
-  format: string;
-  players: string;
-  host: string;
-  tags: string[];
-  powerLevel: number | null;
-  status: string;
-  createdAt: string;
+interface GameRoom extends LobbyRoom {
   isParticipant?: boolean;
   isHost?: boolean;
 }
 
+// The lobby lists this many of the newest rooms
+const LOBBY_ROOM_LIMIT = 20;
+
 // Fetch game rooms from API
 async function fetchGameRooms(format?: string): Promise<GameRoom[]> {
   const params = new URLSearchParams();
@@ -93,19 +89,26 @@ async function createAndJoinGameRoom(roomData: {
   return createResponse;
 }
 
-// Join a game room
-async function joinGameRoom(gameId: string, deckId?: string) {
+// Refusals from the join route carry a code, so a missing password can be asked for
+class JoinGameError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+  }
+}
+
+// Join a game room (private and password-protected ones take an invite link or the password)
+async function joinGameRoom(gameId: string, deckId?: string, access: { password?: string; invite?: string } = {}) {
   const response = await secureApiRequest(`/api/games/rooms/${gameId}/join`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ deckId }),
+    body: JSON.stringify({ deckId, ...access }),
   });
   
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.error || 'Failed to join game room');
+    throw new JoinGameError(error.error || 'Failed to join game room', error.code);
   }
   
   return response.json();
@@ -155,10 +158,45 @@ export default function PlayPage() {
     maxPlayers: 4,
     powerLevel: '',
     tags: [] as string[],
+    mulligan: 'london' as 'london' | 'vancouver',
+    freeMulligan: true,
+    allowSpectators: true,
+    bestOf: 1 as 1 | 3,
+    isPrivate: false,
+    password: '',
+    turnTimeLimit: 0, // Seconds per turn, 0 for untimed turns
   });
   const [showDeckSelectionModal, setShowDeckSelectionModal] = useState(false);
   const [showCreateGameDeckModal, setShowCreateGameDeckModal] = useState(false);
   const [selectedGameToJoin, setSelectedGameToJoin] = useState<string | null>(null);
+  // The invite link the page was opened with, used when joining the room it is for
+  const [inviteLink, setInviteLink] = useState<{ gameId: string; token: string } | null>(null);
+  const [roomInvites, setRoomInvites] = useState<RoomInvite[]>([]);
+
+  // Room changes are pushed to the lobby as they happen, straight into the cached room lists
+  const updateRooms = (update: (rooms: GameRoom[]) => GameRoom[]) => {
+    queryClient.setQueriesData<GameRoom[]>({ queryKey: ['game-rooms'] }, (rooms) => rooms && update(rooms));
+  };
+
+  const lobby = useLobby({
+    enabled: !!session?.user?.id,
+    onRoomUpdated: (room) => updateRooms((rooms) => {
+      const userId = session?.user?.id;
+      const updated: GameRoom = {
+        ...room,
+        isParticipant: !!userId && room.playerIds.includes(userId),
+        isHost: !!userId && room.hostId === userId,
+      };
+      return rooms.some(r => r.id === room.id)
+        ? rooms.map(r => (r.id === room.id ? updated : r))
+        : [updated, ...rooms].slice(0, LOBBY_ROOM_LIMIT);
+    }),
+    onRoomClosed: (gameId) => updateRooms((rooms) => rooms.filter(r => r.id !== gameId)),
+    onResync: () => queryClient.invalidateQueries({ queryKey: ['game-rooms'] }),
+    // Matchmaking seats the player in a new room, so go straight there
+    onMatchFound: (gameId) => router.push(`/game/${gameId}`),
+    onInvited: (invite) => setRoomInvites(prev => [invite, ...prev.filter(i => i.gameId !== invite.gameId)]),
+  });
 
   // Fetch game rooms - available to all users for watching
   const { 
@@ -170,7 +208,8 @@ export default function PlayPage() {
     queryKey: ['game-rooms', selectedFormat],
     queryFn: () => fetchGameRooms(selectedFormat || undefined),
     enabled: true, // Always enabled for viewing games
-    refetchInterval: 5000, // Refresh every 5 seconds
+    // Signed-out visitors (and anyone whose lobby connection is down) fall back to polling
+    refetchInterval: lobby.isConnected ? false : 5000,
     retry: (failureCount, error) => {
       // Retry up to 3 times for fetch errors
       if (error.message.includes('Failed to fetch') && failureCount < 3) {
@@ -207,6 +246,20 @@ export default function PlayPage() {
     }
   }, [showFormatDropdown]);
 
+  // Opening an invite link goes straight to picking a deck for the room it is for
+  useEffect(() => {
+    if (!session?.user?.id) return;
+    const params = new URLSearchParams(window.location.search);
+    const gameId = params.get('game');
+    const token = params.get('invite');
+    if (!gameId || !token) return;
+
+    setInviteLink({ gameId, token });
+    setSelectedGameToJoin(gameId);
+    setShowDeckSelectionModal(true);
+    router.replace('/play');
+  }, [session?.user?.id, router]);
+
   // Auto-cleanup on page load
   useEffect(() => {
     if (session?.user?.id) {
@@ -237,14 +290,24 @@ export default function PlayPage() {
 
   // Join game mutation
   const joinGameMutation = useMutation({
-    mutationFn: ({ gameId, deckId }: { gameId: string, deckId?: string }) => 
-      joinGameRoom(gameId, deckId),
+    mutationFn: ({ gameId, deckId, password, invite }: { gameId: string, deckId?: string, password?: string, invite?: string }) => 
+      joinGameRoom(gameId, deckId, { password, invite }),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['game-rooms'] });
+      setInviteLink(null);
+      setRoomInvites(prev => prev.filter(invite => invite.gameId !== data.gameId));
       // Navigate to the game room
       router.push(`/game/${data.gameId}`);
     },
-    onError: (error: Error) => {
+    onError: (error: Error, variables) => {
+      // Ask for the room password and try again with it
+      if (error instanceof JoinGameError && (error.code === 'PASSWORD_REQUIRED' || error.code === 'WRONG_PASSWORD')) {
+        const password = prompt(error.code === 'WRONG_PASSWORD' ? 'Wrong password. Try again:' : 'This game room needs a password:');
+        if (password) {
+          joinGameMutation.mutate({ ...variables, password });
+        }
+        return;
+      }
       if (error.message.includes('only be in one game at a time')) {
         alert(`You can only be in one game at a time. Please leave your current game first.`);
       } else {
@@ -299,6 +362,24 @@ export default function PlayPage() {
     if (newGameData.tags.length > 0) {
       settings.tags = newGameData.tags;
     }
+    settings.mulligan = newGameData.mulligan;
+    // The free first mulligan is a multiplayer Commander rule
+    settings.freeMulligan = newGameData.format === 'commander' && newGameData.freeMulligan;
+    settings.allowSpectators = newGameData.allowSpectators;
+    if (newGameData.isPrivate) {
+      settings.isPrivate = true;
+    }
+    // Sent once to be hashed; the server never keeps the password itself
+    if (newGameData.password) {
+      settings.password = newGameData.password;
+    }
+    if (newGameData.turnTimeLimit > 0) {
+      settings.turnTimeLimit = newGameData.turnTimeLimit;
+    }
+    // Matches are a 1v1 thing, so only two-player rooms can play best of three
+    if (newGameData.maxPlayers === 2 && newGameData.bestOf === 3) {
+      settings.bestOf = 3;
+    }
 
     const roomData = {
       name: newGameData.name.trim(),
@@ -319,9 +400,12 @@ export default function PlayPage() {
     setShowDeckSelectionModal(true);
   };
 
+  // An invite link only gets its holder into the room it was made for
+  const inviteFor = (gameId: string) => (inviteLink?.gameId === gameId ? inviteLink.token : undefined);
+
   const handleJoinWithDeck = (deckId: string) => {
     if (selectedGameToJoin) {
-      joinGameMutation.mutate({ gameId: selectedGameToJoin, deckId });
+      joinGameMutation.mutate({ gameId: selectedGameToJoin, deckId, invite: inviteFor(selectedGameToJoin) });
       setShowDeckSelectionModal(false);
       setSelectedGameToJoin(null);
     }
@@ -329,7 +413,7 @@ export default function PlayPage() {
 
   const handleJoinWithoutDeck = () => {
     if (selectedGameToJoin) {
-      joinGameMutation.mutate({ gameId: selectedGameToJoin });
+      joinGameMutation.mutate({ gameId: selectedGameToJoin, invite: inviteFor(selectedGameToJoin) });
       setShowDeckSelectionModal(false);
       setSelectedGameToJoin(null);
     }
@@ -368,7 +452,55 @@ export default function PlayPage() {
           </div>
         </div>
 
+        {/* Invites from friends */}
+        {roomInvites.length > 0 && (
+          <div className="mb-4 space-y-2">
+            {roomInvites.map(invite => (
+              <div
+                key={invite.gameId}
+                className="flex items-center justify-between gap-4 p-3 bg-gray-900/95 border border-gray-700 rounded-lg text-white text-sm"
+              >
+                <span className="flex items-center gap-2">
+                  <Mail className="w-4 h-4" />
+                  {invite.invitedBy} invited you to <span className="font-medium">{invite.title}</span>
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => handleJoinGame(invite.gameId)}
+                    disabled={hasCurrentGame}
+                    className="text-white border border-gray-600"
+                  >
+                    Join
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    onClick={() => setRoomInvites(prev => prev.filter(i => i.gameId !== invite.gameId))}
+                    className="text-gray-400 hover:text-white hover:bg-transparent"
+                    aria-label="Dismiss invite"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
 
+        {/* Matchmaking */}
+        {session?.user && (
+          <div className="mb-8">
+            <MatchmakingPanel
+              userDecks={userDecks}
+              isConnected={lobby.isConnected}
+              queuedFormat={lobby.queuedFormat}
+              status={lobby.status}
+              error={lobby.error}
+              disabledReason={hasCurrentGame ? 'Leave your current game before looking for a new one' : undefined}
+              onFindGame={lobby.findGame}
+              onCancel={lobby.cancel}
+            />
+          </div>
+        )}
 
         {/* Tabs */}
         <div className="flex items-center justify-between mb-8 border-b border-gray-800">
@@ -573,13 +705,23 @@ export default function PlayPage() {
 
                         {/* Game Details */}
                         <div className="flex-1">
-                          <h3 className="text-white font-semibold text-lg mb-2">
+                          <h3 className="text-white font-semibold text-lg mb-2 flex items-center gap-2">
                             {game.title}
+                            {(game.isPrivate || game.hasPassword) && (
+                              <span title={game.isPrivate ? 'Private room' : 'Needs a password'}>
+                                <Lock className="w-4 h-4 text-gray-400" />
+                              </span>
+                            )}
                           </h3>
                           <div className="flex items-center space-x-4 text-sm">
                             <span className="text-blue-400 font-medium">
                               {game.players}
                             </span>
+                            {game.spectators > 0 && (
+                              <span className="text-gray-400">
+                                {game.spectators} watching
+                              </span>
+                            )}
                             <span className="text-gray-400">
                               Host: <span className="text-white">{game.host}</span>
                             </span>
@@ -604,7 +746,14 @@ export default function PlayPage() {
 
                       {/* Action Buttons */}
                       <div className="flex-shrink-0 flex space-x-2">
-                        {game.isParticipant ? (
+                        {game.status === 'Finished' ? (
+                          <Button 
+                            onClick={() => router.push(`/game/${game.id}/replay`)}
+                            className="text-white"
+                          >
+                            Replay
+                          </Button>
+                        ) : game.isParticipant ? (
                           <>
                             <Button 
                               onClick={() => handleEnterGame(game.id)}
@@ -726,6 +875,90 @@ export default function PlayPage() {
                 <option value={6}>6 Players</option>
                 <option value={8}>8 Players</option>
               </select>
+              <label className="flex items-center gap-2 mt-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={newGameData.allowSpectators}
+                  onChange={(e) => setNewGameData({ ...newGameData, allowSpectators: e.target.checked })}
+                />
+                Allow spectators
+              </label>
+            </div>
+            <div>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={newGameData.isPrivate}
+                  onChange={(e) => setNewGameData({ ...newGameData, isPrivate: e.target.checked })}
+                />
+                Private (only players you invite can see it)
+              </label>
+              <label className="block text-sm font-medium text-gray-300 mt-3 mb-2">
+                Password (Optional)
+              </label>
+              <Input
+                type="password"
+                value={newGameData.password}
+                onChange={(e) => setNewGameData({ ...newGameData, password: e.target.value })}
+                placeholder="Anyone with the password can join"
+                autoComplete="new-password"
+                className="bg-gray-800 border-gray-600 text-white"
+              />
+            </div>
+            {newGameData.maxPlayers === 2 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Match
+                </label>
+                <select
+                  value={newGameData.bestOf}
+                  onChange={(e) => setNewGameData({ ...newGameData, bestOf: parseInt(e.target.value) === 3 ? 3 : 1 })}
+                  className="w-full bg-gray-800 border-gray-600 text-white rounded px-3 py-2"
+                >
+                  <option value={1}>Single game</option>
+                  <option value={3}>Best of three (sideboarding between games)</option>
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Turn Timer
+              </label>
+              <select
+                value={newGameData.turnTimeLimit}
+                onChange={(e) => setNewGameData({ ...newGameData, turnTimeLimit: parseInt(e.target.value) })}
+                className="w-full bg-gray-800 border-gray-600 text-white rounded px-3 py-2"
+              >
+                <option value={0}>No timer</option>
+                <option value={60}>1 minute per turn</option>
+                <option value={120}>2 minutes per turn</option>
+                <option value={180}>3 minutes per turn</option>
+                <option value={300}>5 minutes per turn</option>
+                <option value={600}>10 minutes per turn</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Mulligan Rule
+              </label>
+              <select
+                value={newGameData.mulligan}
+                onChange={(e) => setNewGameData({ ...newGameData, mulligan: e.target.value as 'london' | 'vancouver' })}
+                className="w-full bg-gray-800 border-gray-600 text-white rounded px-3 py-2"
+              >
+                <option value="london">London (draw 7, bottom one per mulligan)</option>
+                <option value="vancouver">Vancouver (draw one fewer, then scry 1)</option>
+              </select>
+              {newGameData.format === 'commander' && (
+                <label className="flex items-center gap-2 mt-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={newGameData.freeMulligan}
+                    onChange={(e) => setNewGameData({ ...newGameData, freeMulligan: e.target.checked })}
+                  />
+                  First mulligan is free
+                </label>
+              )}
             </div>
             {newGameData.format === 'commander' && (
               <div>
@@ -0,0 +1,79 @@
+'use client';
+
+import { Clock, SkipForward, UserX, WifiOff } from 'lucide-react';
+import type { TurnState } from '@/hooks/use-socket';
+import type { PlayerPresence } from '@/lib/game/presence';
+
+interface AwayParticipant {
+  userId: string;
+  user: {
+    username: string;
+  };
+}
+
+interface AwayPlayersProps {
+  presence: PlayerPresence[];
+  turnState: TurnState | null;
+  participants: AwayParticipant[];
+  isHost: boolean;
+  onSkipTurn: (playerId: string) => void;
+  onKick: (playerId: string) => void;
+}
+
+// Lists the players who lost connection or ran out of time. Once one has been gone past the grace period,
+// the host can move the game on without them or remove them
+export function AwayPlayers({ presence, turnState, participants, isHost, onSkipTurn, onKick }: AwayPlayersProps) {
+  const usernameFor = (userId: string) =>
+    participants.find(p => p.userId === userId)?.user.username || 'Unknown player';
+
+  if (presence.length === 0) return null;
+
+  return (
+    <div className="bg-black/80 text-white rounded-lg shadow-lg text-sm border border-yellow-600 px-3 py-2 space-y-1">
+      <div className="text-xs text-yellow-400">Away from the table</div>
+      <ul className="space-y-1">
+        {presence.map(player => {
+          // Skipping only helps when the game is waiting on them
+          const holdingUp = turnState?.status === 'active' &&
+            (turnState.currentPlayer === player.playerId || turnState.priorityPlayer === player.playerId);
+
+          return (
+            <li key={player.playerId} className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-1 truncate">
+                {player.connected ? <Clock className="w-3 h-3 text-yellow-400" /> : <WifiOff className="w-3 h-3 text-red-400" />}
+                {usernameFor(player.playerId)}
+                <span className="text-xs text-gray-400">{player.connected ? 'out of time' : 'disconnected'}</span>
+              </span>
+              {isHost && player.afk && (
+                <span className="flex items-center">
+                  {holdingUp && (
+                    <button
+                      onClick={() => onSkipTurn(player.playerId)}
+                      className="p-1 rounded hover:bg-white/10"
+                      title={`Move the game on without ${usernameFor(player.playerId)}`}
+                      aria-label={`Skip ${usernameFor(player.playerId)}`}
+                    >
+                      <SkipForward className="w-3 h-3" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      if (confirm(`Remove ${usernameFor(player.playerId)} from the game?`)) {
+                        onKick(player.playerId);
+                      }
+                    }}
+                    className="p-1 rounded hover:bg-white/10 text-red-400"
+                    title={`Remove ${usernameFor(player.playerId)}`}
+                    aria-label={`Remove ${usernameFor(player.playerId)}`}
+                  >
+                    <UserX className="w-3 h-3" />
+                  </button>
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Minus, Plus, Link2, Unlink, Skull, Ban } from 'lucide-react';
+
+// Counters most cards ask for; anything else can be typed in
+const PRESET_COUNTERS = ['+1/+1', '-1/-1', 'loyalty', 'charge'];
+
+interface CardContextMenuProps {
+  cardName: string;
+  position: { x: number; y: number };
+  counters?: Record<string, number>;
+  isAttached: boolean;
+  onAddCounter: (counter: string, amount: number) => void;
+  onStartAttach: () => void;
+  onDetach: () => void;
+  onDestroy: () => void;
+  onExile: () => void;
+  onClose: () => void;
+}
+
+export function CardContextMenu({
+  cardName,
+  position,
+  counters = {},
+  isAttached,
+  onAddCounter,
+  onStartAttach,
+  onDetach,
+  onDestroy,
+  onExile,
+  onClose
+}: CardContextMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [customCounter, setCustomCounter] = useState('');
+
+  // Close when clicking anywhere outside the menu or pressing Escape
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    document.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  // Show presets first, then any custom counters already on the card
+  const counterNames = [...PRESET_COUNTERS, ...Object.keys(counters).filter(name => !PRESET_COUNTERS.includes(name))];
+
+  const handleAddCustomCounter = () => {
+    const name = customCounter.trim();
+    if (!name) return;
+    onAddCounter(name, 1);
+    setCustomCounter('');
+  };
+
+  if (typeof window === 'undefined') return null;
+
+  return createPortal(
+    <div
+      ref={menuRef}
+      className="fixed z-[10001] w-56 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl text-white text-sm py-1"
+      style={{
+        left: Math.min(position.x, window.innerWidth - 232),
+        top: Math.min(position.y, window.innerHeight - 320)
+      }}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <div className="px-3 py-1.5 font-medium truncate border-b border-gray-700">{cardName}</div>
+
+      <div className="px-3 py-1 text-xs text-gray-400 uppercase tracking-wide">Counters</div>
+      {counterNames.map((name) => (
+        <div key={name} className="flex items-center justify-between px-3 py-1 hover:bg-white/5">
+          <span>{name}</span>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => onAddCounter(name, -1)}
+              disabled={!counters[name]}
+              className="p-0.5 rounded hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed"
+              aria-label={`Remove ${name} counter`}
+            >
+              <Minus className="w-3 h-3" />
+            </button>
+            <span className="min-w-[2ch] text-center tabular-nums">{counters[name] || 0}</span>
+            <button
+              onClick={() => onAddCounter(name, 1)}
+              className="p-0.5 rounded hover:bg-white/10"
+              aria-label={`Add ${name} counter`}
+            >
+              <Plus className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center gap-1 px-3 py-1">
+        <input
+          value={customCounter}
+          onChange={(e) => setCustomCounter(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAddCustomCounter();
+          }}
+          placeholder="Other counter..."
+          maxLength={24}
+          className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded px-2 py-0.5 text-xs"
+        />
+        <button
+          onClick={handleAddCustomCounter}
+          className="p-1 rounded hover:bg-white/10"
+          aria-label="Add custom counter"
+        >
+          <Plus className="w-3 h-3" />
+        </button>
+      </div>
+
+      <div className="border-t border-gray-700 mt-1 pt-1">
+        {isAttached ? (
+          <button
+            onClick={onDetach}
+            className="w-full flex items-center gap-2 px-3 py-1.5 hover:bg-white/5 text-left"
+          >
+            <Unlink className="w-4 h-4" />
+            Detach
+          </button>
+        ) : (
+          <button
+            onClick={onStartAttach}
+            className="w-full flex items-center gap-2 px-3 py-1.5 hover:bg-white/5 text-left"
+          >
+            <Link2 className="w-4 h-4" />
+            Attach to...
+          </button>
+        )}
+      </div>
+
+      <div className="border-t border-gray-700 mt-1 pt-1">
+        <button
+          onClick={onDestroy}
+          className="w-full flex items-center gap-2 px-3 py-1.5 hover:bg-white/5 text-left"
+        >
+          <Skull className="w-4 h-4" />
+          Destroy
+        </button>
+        <button
+          onClick={onExile}
+          className="w-full flex items-center gap-2 px-3 py-1.5 hover:bg-white/5 text-left"
+        >
+          <Ban className="w-4 h-4" />
+          Exile
+        </button>
+      </div>
+    </div>,
+    document.body
+  );
+}
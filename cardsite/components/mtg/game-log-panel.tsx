@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, MessageSquare, ScrollText, Send } from 'lucide-react';
+import type { GameMessage } from '@/hooks/use-socket';
+
+type LogFilter = 'all' | 'chat' | 'log';
+
+interface GameLogPanelProps {
+  messages: GameMessage[];
+  currentUserId: string;
+  onSend: (message: string) => void;
+}
+
+const FILTERS: { value: LogFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'chat', label: 'Chat' },
+  { value: 'log', label: 'Log' },
+];
+
+const MAX_MESSAGE_LENGTH = 500;
+
+// Room chat and the game log in one collapsible panel, newest at the bottom
+export function GameLogPanel({ messages, currentUserId, onSend }: GameLogPanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const [filter, setFilter] = useState<LogFilter>('all');
+  const [draft, setDraft] = useState('');
+  const [seenCount, setSeenCount] = useState(messages.length);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const visible = filter === 'all' ? messages : messages.filter(message => message.kind === filter);
+  const unread = isOpen ? 0 : messages.length - seenCount;
+
+  // Keep up with new messages while open, and count what arrives while collapsed
+  useEffect(() => {
+    if (!isOpen) return;
+    setSeenCount(messages.length);
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [isOpen, messages.length, filter]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const message = draft.trim();
+    if (!message) return;
+    onSend(message);
+    setDraft('');
+  };
+
+  return (
+    <div className="fixed right-4 bottom-[180px] z-[1000] w-80 bg-black/90 backdrop-blur-sm border border-gray-700 rounded-lg shadow-2xl text-white text-sm">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center justify-between px-3 py-2 hover:bg-white/5 rounded-t-lg"
+      >
+        <span className="flex items-center gap-2 font-medium">
+          <ScrollText className="w-4 h-4" />
+          Game Log
+          {unread > 0 && (
+            <span className="bg-blue-600 text-xs rounded-full px-2">{unread}</span>
+          )}
+        </span>
+        {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-gray-700">
+          <div className="flex gap-1 px-2 pt-2">
+            {FILTERS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setFilter(value)}
+                className={`px-2 py-0.5 rounded text-xs ${
+                  filter === value ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-white/10'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div ref={listRef} className="h-56 overflow-y-auto px-3 py-2 space-y-1">
+            {visible.length === 0 ? (
+              <div className="text-gray-500 text-center mt-4">Nothing here yet</div>
+            ) : (
+              visible.map(message => message.kind === 'chat' ? (
+                <div key={message.id} className="break-words">
+                  <span className={`font-medium ${message.userId === currentUserId ? 'text-blue-400' : 'text-green-400'}`}>
+                    {message.username || 'Unknown player'}:
+                  </span>{' '}
+                  {message.body}
+                </div>
+              ) : (
+                <div key={message.id} className="text-gray-400 text-xs break-words">
+                  {message.body}
+                </div>
+              ))
+            )}
+          </div>
+
+          <form onSubmit={handleSubmit} className="flex items-center gap-2 border-t border-gray-700 p-2">
+            <MessageSquare className="w-4 h-4 text-gray-500 flex-shrink-0" />
+            <input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={MAX_MESSAGE_LENGTH}
+              placeholder="Say something..."
+              className="flex-1 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!draft.trim()}
+              className="p-1 rounded hover:bg-white/10 disabled:opacity-50"
+              aria-label="Send message"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import { Flag, Trophy, X } from 'lucide-react';
+import Link from 'next/link';
+import type { GameEndResult, MatchState } from '@/hooks/use-socket';
+
+interface GameOverPanelProps {
+  results: GameEndResult[];
+  turns: number;
+  match: MatchState | null;
+  matchOver: boolean;
+  currentUserId: string;
+  onClose: () => void;
+}
+
+const ordinal = (placement: number) => {
+  const suffix = placement % 10 === 1 && placement !== 11 ? 'st'
+    : placement % 10 === 2 && placement !== 12 ? 'nd'
+    : placement % 10 === 3 && placement !== 13 ? 'rd'
+    : 'th';
+  return `${placement}${suffix}`;
+};
+
+// Final standings, shown to everyone in the room when the game ends (with the score, during a match)
+export function GameOverPanel({ results, turns, match, matchOver, currentUserId, onClose }: GameOverPanelProps) {
+  const winner = results.find(result => result.placement === 1);
+  const game = match ? ` game ${match.gameNumber}` : '';
+
+  return (
+    <div className="fixed top-1/3 left-1/2 -translate-x-1/2 z-[1100] bg-gray-900/95 border border-gray-700 rounded-lg shadow-2xl p-4 text-white w-80">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 font-medium">
+          <Trophy className="w-5 h-5 text-yellow-400" />
+          {winner ? (winner.playerId === currentUserId ? `You won${game}!` : `${winner.username} won${game}`) : 'Draw'}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:bg-white/10"
+          aria-label="Dismiss results"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-1 text-sm">
+        {results.map(result => (
+          <div
+            key={result.playerId}
+            className={`flex items-center justify-between px-2 py-1 rounded ${result.playerId === currentUserId ? 'bg-blue-600/20' : ''}`}
+          >
+            <span className="flex items-center gap-2">
+              <span className="text-gray-400 w-8">{ordinal(result.placement)}</span>
+              <Link href={`/profile/${result.playerId}`} className="hover:underline">
+                {result.username}
+              </Link>
+            </span>
+            {result.conceded && (
+              <span className="flex items-center gap-1 text-xs text-gray-400">
+                <Flag className="w-3 h-3" />
+                Conceded
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="text-xs text-gray-500 mt-3">
+        {turns} turn{turns === 1 ? '' : 's'} played
+      </div>
+
+      {match && (
+        <div className="border-t border-gray-700 mt-3 pt-3 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-gray-400">{matchOver ? 'Final match score' : 'Match score'}</span>
+            <span className="font-medium">
+              {results.map(result => match.wins[result.playerId] ?? 0).join(' - ')}
+            </span>
+          </div>
+          {!matchOver && (
+            <button
+              onClick={onClose}
+              className="w-full mt-3 px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-700 text-sm"
+            >
+              Sideboard for game {match.gameNumber + 1}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,9 +4,14 @@ import { useState, useRef, useEffect } from 'react';
 import type { MTGCard } from '@/lib/types/mtg';
 import { useDraggable, useDroppable } from '@dnd-kit/core';
 import { CSS } from '@dnd-kit/utilities';
+import { Eye } from 'lucide-react';
+
+// Official Magic card back, shown for cards in another player's hand
+const CARD_BACK_URL = 'https://cards.scryfall.io/large/back/0/0/0aeebaf5-8c7d-4636-9e82-8c27447861f7.jpg?1582037402';
 
 export interface HandCard extends MTGCard {
   instanceId: string;
+  isHidden?: boolean; // Placeholder for an unrevealed card in another player's hand
 }
 
 interface HandZoneProps {
@@ -14,7 +19,9 @@ interface HandZoneProps {
   onCardPlay: (cardId: string) => void;
   onCardMouseEnter?: (card: HandCard, event: React.MouseEvent) => void;
   onCardMouseLeave?: () => void;
-  onReturnToHand?: (cardId: string) => void;
+  onCardReveal?: (cardId: string) => void;
+  hiddenCount?: number; // Cards in an opponent's hand that haven't been revealed
+  revealedCardIds?: string[];
 }
 
 // Create a draggable hand card component
@@ -26,7 +33,9 @@ function HandCardComponent({
   zIndex, 
   onClick, 
   onMouseEnter, 
-  onMouseLeave 
+  onMouseLeave,
+  onContextMenu,
+  isRevealed = false
 }: {
   card: HandCard;
   index: number;
@@ -41,6 +50,8 @@ function HandCardComponent({
   onClick: () => void;
   onMouseEnter: (e: React.MouseEvent) => void;
   onMouseLeave: () => void;
+  onContextMenu?: (e: React.MouseEvent) => void;
+  isRevealed?: boolean;
 }) {
   // Set up draggable
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
@@ -84,9 +95,15 @@ function HandCardComponent({
       onMouseEnter={onMouseEnter}
       onMouseLeave={onMouseLeave}
       onClick={onClick}
+      onContextMenu={onContextMenu}
       {...listeners}
       {...attributes}
     >
+      {isRevealed && (
+        <div className="absolute top-1 right-1 bg-black/70 rounded-full p-1" title="Revealed to all players">
+          <Eye className="w-3 h-3 text-white" />
+        </div>
+      )}
       {(() => {
         // Enhanced image URL logic - handle both snake_case and camelCase field names
         const isDoubleFaced = ((card as any).card_faces && (card as any).card_faces.length >= 2) ||
@@ -118,13 +135,52 @@ function HandCardComponent({
   );
 }
 
+// A face-down card in another player's hand - it can't be dragged or previewed
+function HiddenHandCard({
+  position,
+  zIndex
+}: {
+  position: { x: number; y: number; rotation: number; scale: number };
+  zIndex: number;
+}) {
+  return (
+    <div
+      className="rounded-lg shadow-lg border-2 border-white/30 overflow-hidden origin-bottom"
+      style={{
+        left: `${position.x}px`,
+        top: `${position.y}px`,
+        transform: `translate(-50%, 0) scale(${position.scale}) rotate(${position.rotation}deg)`,
+        zIndex,
+        position: 'absolute',
+        width: `${150 * position.scale}px`,
+        height: `${209 * position.scale}px`
+      }}
+    >
+      <img
+        src={CARD_BACK_URL}
+        alt="Magic: The Gathering card back"
+        className="w-full h-full object-cover"
+        draggable={false}
+      />
+    </div>
+  );
+}
+
 export function HandZone({ 
-  cards, 
+  cards: visibleHandCards, 
   onCardPlay, 
   onCardMouseEnter,
   onCardMouseLeave,
-  onReturnToHand
+  onCardReveal,
+  hiddenCount = 0,
+  revealedCardIds = []
 }: HandZoneProps) {
+  // Unrevealed cards in an opponent's hand only exist as a count, so lay out placeholders for them
+  const cards: HandCard[] = [
+    ...visibleHandCards,
+    ...Array.from({ length: hiddenCount }, (_, index) => ({ instanceId: `hidden-${index}`, isHidden: true } as unknown as HandCard))
+  ];
+
   const [carouselOffset, setCarouselOffset] = useState(0);
   const [hoveredCardId, setHoveredCardId] = useState<string | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -349,6 +405,10 @@ export function HandZone({
         const zIndex = getZIndex(index, isHovered);
         const position = { x, y, rotation, scale };
         
+        if (card.isHidden) {
+          return <HiddenHandCard key={card.instanceId} position={position} zIndex={zIndex} />;
+        }
+        
         return (
           <HandCardComponent
             key={card.instanceId}
@@ -360,6 +420,11 @@ export function HandZone({
             onClick={() => onCardPlay(card.instanceId)}
             onMouseEnter={(e) => handleMouseEnter(e, card)}
             onMouseLeave={handleMouseLeave}
+            onContextMenu={onCardReveal ? (e) => {
+              e.preventDefault();
+              onCardReveal(card.instanceId);
+            } : undefined}
+            isRevealed={revealedCardIds.includes(card.instanceId)}
           />
         );
       })}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Crown, Pause, Play, UserX } from 'lucide-react';
+import type { TurnState } from '@/hooks/use-socket';
+
+interface HostPlayer {
+  userId: string;
+  username: string;
+}
+
+interface HostControlsProps {
+  players: HostPlayer[]; // In seat order
+  currentUserId: string;
+  status: TurnState['status'] | undefined;
+  onKick: (playerId: string) => void;
+  onTransferHost: (playerId: string) => void;
+  onReseat: (order: string[]) => void;
+  onPause: () => void;
+  onResume: () => void;
+}
+
+// The host's powers over the room: pausing the game, rearranging seats before it starts,
+// handing the room over and removing players
+export function HostControls({ players, currentUserId, status, onKick, onTransferHost, onReseat, onPause, onResume }: HostControlsProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const canReseat = (status === 'waiting' || status === 'sideboarding') && players.length > 1;
+
+  const move = (index: number, offset: number) => {
+    const order = players.map(player => player.userId);
+    [order[index], order[index + offset]] = [order[index + offset], order[index]];
+    onReseat(order);
+  };
+
+  return (
+    <div className="bg-black/80 text-white rounded-lg shadow-lg text-sm border border-gray-700">
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        className="w-full px-3 py-2 flex items-center gap-2"
+      >
+        <Crown className="w-4 h-4 text-yellow-400" />
+        Host Controls
+      </button>
+
+      {expanded && (
+        <div className="border-t border-gray-700 px-3 py-2 space-y-2">
+          {status === 'paused' ? (
+            <button
+              onClick={onResume}
+              className="w-full flex items-center gap-2 px-2 py-1 rounded bg-green-600 hover:bg-green-700"
+            >
+              <Play className="w-3 h-3" />
+              Resume Game
+            </button>
+          ) : (status === 'active' || status === 'mulligan') && (
+            <button
+              onClick={onPause}
+              className="w-full flex items-center gap-2 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600"
+            >
+              <Pause className="w-3 h-3" />
+              Pause Game
+            </button>
+          )}
+
+          <ul className="space-y-1">
+            {players.map((player, index) => (
+              <li key={player.userId} className="flex items-center justify-between gap-2">
+                <span className="truncate">
+                  {index + 1}. {player.username}
+                  {player.userId === currentUserId && <span className="text-xs text-gray-400"> (you)</span>}
+                </span>
+                <span className="flex items-center">
+                  {canReseat && (
+                    <>
+                      <button
+                        onClick={() => move(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 rounded hover:bg-white/10 disabled:opacity-30"
+                        title={`Move ${player.username} up a seat`}
+                        aria-label={`Move ${player.username} up a seat`}
+                      >
+                        <ArrowUp className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => move(index, 1)}
+                        disabled={index === players.length - 1}
+                        className="p-1 rounded hover:bg-white/10 disabled:opacity-30"
+                        title={`Move ${player.username} down a seat`}
+                        aria-label={`Move ${player.username} down a seat`}
+                      >
+                        <ArrowDown className="w-3 h-3" />
+                      </button>
+                    </>
+                  )}
+                  {player.userId !== currentUserId && (
+                    <>
+                      <button
+                        onClick={() => {
+                          if (confirm(`Make ${player.username} the host? You will lose the host controls.`)) {
+                            onTransferHost(player.userId);
+                          }
+                        }}
+                        className="p-1 rounded hover:bg-white/10 text-yellow-400"
+                        title={`Make ${player.username} the host`}
+                        aria-label={`Make ${player.username} the host`}
+                      >
+                        <Crown className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (confirm(`Remove ${player.username} from the game?`)) {
+                            onKick(player.userId);
+                          }
+                        }}
+                        className="p-1 rounded hover:bg-white/10 text-red-400"
+                        title={`Remove ${player.username}`}
+                        aria-label={`Remove ${player.username}`}
+                      >
+                        <UserX className="w-3 h-3" />
+                      </button>
+                    </>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
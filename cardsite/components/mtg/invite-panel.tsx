@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Link as LinkIcon, UserPlus } from 'lucide-react';
+import { secureApiRequest } from '@/lib/csrf';
+
+interface InviteFriend {
+  id: string;
+  username: string;
+  invited: boolean;
+  playing: boolean;
+}
+
+interface InvitePanelProps {
+  gameId: string;
+}
+
+// Bring friends into the room: one click each, or an expiring link to send any other way
+export function InvitePanel({ gameId }: InvitePanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [friends, setFriends] = useState<InviteFriend[] | null>(null);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Each opening gets a fresh link and the current invites
+  const load = async () => {
+    setError(null);
+    try {
+      const response = await secureApiRequest(`/api/games/rooms/${gameId}/invites`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to load invites');
+        return;
+      }
+      setFriends(data.friends);
+      setInviteUrl(data.invite.url);
+    } catch (err) {
+      console.error('Error loading invites:', err);
+      setError('Failed to load invites');
+    }
+  };
+
+  const toggle = () => {
+    if (!expanded) load();
+    setExpanded(prev => !prev);
+    setCopied(false);
+  };
+
+  const invite = async (friendId: string) => {
+    setError(null);
+    try {
+      const response = await secureApiRequest(`/api/games/rooms/${gameId}/invites`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ friendId }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to invite friend');
+        return;
+      }
+      setFriends(prev => prev?.map(friend => (friend.id === friendId ? { ...friend, invited: true } : friend)) ?? null);
+    } catch (err) {
+      console.error('Error inviting friend:', err);
+      setError('Failed to invite friend');
+    }
+  };
+
+  const copyLink = async () => {
+    if (!inviteUrl) return;
+    await navigator.clipboard.writeText(inviteUrl);
+    setCopied(true);
+  };
+
+  return (
+    <div className="bg-black/80 text-white rounded-lg shadow-lg text-sm border border-gray-700">
+      <button
+        onClick={toggle}
+        className="w-full px-3 py-2 flex items-center gap-2"
+      >
+        <UserPlus className="w-4 h-4" />
+        Invite Friends
+      </button>
+
+      {expanded && (
+        <div className="border-t border-gray-700 px-3 py-2 space-y-2">
+          <button
+            onClick={copyLink}
+            disabled={!inviteUrl}
+            className="w-full flex items-center gap-2 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+            title="The link works for 24 hours"
+          >
+            {copied ? <Check className="w-3 h-3" /> : <LinkIcon className="w-3 h-3" />}
+            {copied ? 'Link copied' : 'Copy invite link'}
+          </button>
+
+          {friends === null && !error && <div className="text-xs text-gray-400">Loading friends...</div>}
+          {friends?.length === 0 && <div className="text-xs text-gray-400">No friends to invite yet</div>}
+          {friends && friends.length > 0 && (
+            <ul className="max-h-48 overflow-y-auto space-y-1">
+              {friends.map(friend => (
+                <li key={friend.id} className="flex items-center justify-between gap-2">
+                  <span className="truncate">{friend.username}</span>
+                  {friend.playing ? (
+                    <span className="text-xs text-gray-400">Playing</span>
+                  ) : friend.invited ? (
+                    <span className="text-xs text-green-400">Invited</span>
+                  ) : (
+                    <button
+                      onClick={() => invite(friend.id)}
+                      className="px-2 py-0.5 rounded bg-blue-600 hover:bg-blue-700 text-xs"
+                    >
+                      Invite
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {error && <div className="text-xs text-red-400">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowDown, ArrowLeft, ArrowRight, Check, Search, Skull, X } from 'lucide-react';
+import type { MTGCard } from '@/lib/types/mtg';
+
+type LibraryMode = 'look' | 'search';
+type Pile = 'top' | 'bottom' | 'graveyard';
+export type SearchDestination = 'hand' | 'battlefield' | 'graveyard' | 'exile';
+
+interface LibraryPanelProps {
+  libraryCards: MTGCard[];
+  onArrange: (top: string[], bottom: string[], graveyard: string[]) => void;
+  onSearch: (cardId: string | undefined, to: SearchDestination, shuffle: boolean) => void;
+  onClose: () => void;
+}
+
+const DESTINATIONS: { value: SearchDestination; label: string }[] = [
+  { value: 'hand', label: 'Hand' },
+  { value: 'battlefield', label: 'Battlefield' },
+  { value: 'graveyard', label: 'Graveyard' },
+  { value: 'exile', label: 'Exile' },
+];
+
+const MAX_LOOK = 20;
+
+const imageFor = (card: MTGCard) => card.image_uris?.normal || card.card_faces?.[0]?.image_uris?.normal;
+
+function CardImage({ card, size = 'w-[100px] h-[140px]' }: { card: MTGCard; size?: string }) {
+  const imageUrl = imageFor(card);
+  return imageUrl ? (
+    <img src={imageUrl} alt={card.name} className={`${size} rounded-md object-cover`} />
+  ) : (
+    <div className={`${size} rounded-md bg-gray-800 flex items-center justify-center text-xs text-center p-2`}>
+      {card.name}
+    </div>
+  );
+}
+
+// Scry, surveil and "look at the top N" on one tab, tutoring from anywhere in the library on the other.
+// Only the owner ever sees these cards; opponents just get a log line
+export function LibraryPanel({ libraryCards, onArrange, onSearch, onClose }: LibraryPanelProps) {
+  const [mode, setMode] = useState<LibraryMode>('look');
+  const [lookCount, setLookCount] = useState(1);
+  const [looking, setLooking] = useState<string[] | null>(null);
+  const [piles, setPiles] = useState<Record<string, Pile>>({});
+  const [query, setQuery] = useState('');
+  const [destination, setDestination] = useState<SearchDestination>('hand');
+  const [shuffleAfter, setShuffleAfter] = useState(true);
+
+  const cardById = (cardId: string) => libraryCards.find(card => card.id === cardId);
+  const lookedCards = (looking ?? []).filter(cardId => cardById(cardId));
+  const pileOf = (pile: Pile) => lookedCards.filter(cardId => (piles[cardId] ?? 'top') === pile);
+
+  const startLooking = () => {
+    const count = Math.min(Math.max(1, lookCount), libraryCards.length);
+    setLooking(libraryCards.slice(0, count).map(card => card.id));
+    setPiles({});
+  };
+
+  // Cards staying on top can be reordered; the leftmost ends up on top of the library
+  const moveCard = (cardId: string, offset: number) => {
+    setLooking(prev => {
+      if (!prev) return prev;
+      const index = prev.indexOf(cardId);
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleArrange = () => {
+    onArrange(pileOf('top'), pileOf('bottom'), pileOf('graveyard'));
+    setLooking(null);
+    setPiles({});
+  };
+
+  const matches = libraryCards.filter(card => card.name.toLowerCase().includes(query.trim().toLowerCase()));
+
+  return (
+    <div className="fixed top-20 left-1/2 -translate-x-1/2 z-[1000] bg-gray-900/95 border border-gray-700 rounded-lg shadow-2xl p-3 text-white w-[720px] max-w-[90vw]">
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <div className="flex gap-1">
+          <button
+            onClick={() => setMode('look')}
+            className={`px-3 py-1 rounded text-sm ${mode === 'look' ? 'bg-blue-600' : 'text-gray-400 hover:bg-white/10'}`}
+          >
+            Look at top
+          </button>
+          <button
+            onClick={() => setMode('search')}
+            className={`px-3 py-1 rounded text-sm ${mode === 'search' ? 'bg-blue-600' : 'text-gray-400 hover:bg-white/10'}`}
+          >
+            Search library
+          </button>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:bg-white/10"
+          aria-label="Close library"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {mode === 'look' && !looking && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>Look at the top</span>
+          <input
+            type="number"
+            min={1}
+            max={Math.min(MAX_LOOK, libraryCards.length)}
+            value={lookCount}
+            onChange={(e) => setLookCount(Number(e.target.value) || 1)}
+            className="w-16 bg-gray-800 border border-gray-600 rounded px-2 py-1 focus:outline-none focus:border-blue-500"
+          />
+          <span>card{lookCount === 1 ? '' : 's'} of your library</span>
+          <button
+            onClick={startLooking}
+            disabled={libraryCards.length === 0}
+            className="ml-auto bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-1 rounded"
+          >
+            Look
+          </button>
+        </div>
+      )}
+
+      {mode === 'look' && looking && (
+        <>
+          <div className="text-xs text-gray-300 mb-2">
+            Leftmost stays on top. Send cards to the bottom or the graveyard for a scry or surveil.
+          </div>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {lookedCards.map((cardId, index) => {
+              const card = cardById(cardId)!;
+              const pile = piles[cardId] ?? 'top';
+              return (
+                <div key={cardId} className="flex-shrink-0 flex flex-col items-center gap-1">
+                  <div className={pile === 'top' ? '' : 'opacity-50'}>
+                    <CardImage card={card} />
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => moveCard(cardId, -1)}
+                      disabled={index === 0}
+                      className="p-1 rounded hover:bg-white/10 disabled:opacity-30"
+                      aria-label="Move left"
+                    >
+                      <ArrowLeft className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => setPiles(prev => ({ ...prev, [cardId]: pile === 'bottom' ? 'top' : 'bottom' }))}
+                      className={`p-1 rounded ${pile === 'bottom' ? 'bg-yellow-600' : 'hover:bg-white/10'}`}
+                      title="Put on the bottom"
+                    >
+                      <ArrowDown className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => setPiles(prev => ({ ...prev, [cardId]: pile === 'graveyard' ? 'top' : 'graveyard' }))}
+                      className={`p-1 rounded ${pile === 'graveyard' ? 'bg-red-600' : 'hover:bg-white/10'}`}
+                      title="Put into the graveyard"
+                    >
+                      <Skull className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => moveCard(cardId, 1)}
+                      disabled={index === lookedCards.length - 1}
+                      className="p-1 rounded hover:bg-white/10 disabled:opacity-30"
+                      aria-label="Move right"
+                    >
+                      <ArrowRight className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex justify-end mt-3">
+            <button
+              onClick={handleArrange}
+              disabled={lookedCards.length === 0}
+              className="flex items-center gap-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 px-3 py-1 rounded text-sm"
+            >
+              <Check className="w-3 h-3" />
+              Done ({pileOf('top').length} top, {pileOf('bottom').length} bottom, {pileOf('graveyard').length} graveyard)
+            </button>
+          </div>
+        </>
+      )}
+
+      {mode === 'search' && (
+        <>
+          <div className="flex items-center gap-2 mb-2 text-sm">
+            <Search className="w-4 h-4 text-gray-500" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Card name..."
+              className="flex-1 bg-gray-800 border border-gray-600 rounded px-2 py-1 focus:outline-none focus:border-blue-500"
+            />
+            <select
+              value={destination}
+              onChange={(e) => setDestination(e.target.value as SearchDestination)}
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1"
+            >
+              {DESTINATIONS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-2 max-h-[320px] overflow-y-auto">
+            {matches.map(card => (
+              <button
+                key={card.id}
+                onClick={() => onSearch(card.id, destination, shuffleAfter)}
+                className="rounded-md border-2 border-transparent hover:border-blue-500"
+                title={`Take ${card.name}`}
+              >
+                <CardImage card={card} size="w-[80px] h-[112px]" />
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center justify-between mt-3 text-sm">
+            <label className="flex items-center gap-2 text-xs text-gray-300">
+              <input
+                type="checkbox"
+                checked={shuffleAfter}
+                onChange={(e) => setShuffleAfter(e.target.checked)}
+              />
+              Shuffle afterwards
+            </label>
+            <button
+              onClick={() => onSearch(undefined, destination, shuffleAfter)}
+              className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded"
+            >
+              Find nothing
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
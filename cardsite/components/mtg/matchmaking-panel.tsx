@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Swords, X } from 'lucide-react';
+import type { UserDeck } from '@/components/ui/deck-selection-modal';
+import type { QueueStatus } from '@/hooks/use-lobby';
+
+interface MatchmakingPanelProps {
+  userDecks: UserDeck[];
+  isConnected: boolean;
+  queuedFormat: string | null;
+  status: QueueStatus | null;
+  error: string | null;
+  disabledReason?: string; // Why the player can't queue right now, if they can't
+  onFindGame: (format: string, deckId: string, powerLevel?: number) => void;
+  onCancel: () => void;
+}
+
+const FORMATS = [
+  { value: 'commander', label: 'Commander' },
+  { value: 'modern', label: 'Modern' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'legacy', label: 'Legacy' },
+];
+
+function formatLabel(format: string): string {
+  return FORMATS.find(f => f.value === format)?.label ?? format;
+}
+
+// Pick a format, deck and power level, and get seated with compatible players as soon as there are enough of them
+export function MatchmakingPanel({ userDecks, isConnected, queuedFormat, status, error, disabledReason, onFindGame, onCancel }: MatchmakingPanelProps) {
+  const [format, setFormat] = useState('commander');
+  const [deckId, setDeckId] = useState('');
+  const [powerLevel, setPowerLevel] = useState('');
+
+  // Decks built for the format first, then the rest
+  const decks = [...userDecks].sort((a, b) => Number(b.format === format) - Number(a.format === format));
+  const selectedDeckId = deckId || decks[0]?.id || '';
+
+  if (queuedFormat) {
+    return (
+      <div className="flex items-center justify-between gap-4 p-4 bg-gray-900/95 border border-gray-700 rounded-lg text-white">
+        <span className="flex items-center gap-2 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Looking for a {formatLabel(queuedFormat)} {queuedFormat === 'commander' ? 'pod' : 'match'}
+          {status && (
+            <span className="text-gray-400">
+              ({status.waiting} of {status.podSize} players waiting)
+            </span>
+          )}
+        </span>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1 px-3 py-1.5 rounded bg-gray-700 hover:bg-gray-600 text-sm"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  const disabled = !!disabledReason || !isConnected || !selectedDeckId;
+
+  return (
+    <div className="p-4 bg-gray-900/95 border border-gray-700 rounded-lg text-white">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="text-sm text-gray-300">
+          <span className="block mb-1">Format</span>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value)}
+            className="bg-gray-800 border-gray-600 text-white rounded px-3 py-2"
+          >
+            {FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-gray-300 flex-1 min-w-48">
+          <span className="block mb-1">Deck</span>
+          <select
+            value={selectedDeckId}
+            onChange={(e) => setDeckId(e.target.value)}
+            className="w-full bg-gray-800 border-gray-600 text-white rounded px-3 py-2"
+          >
+            {decks.length === 0 && <option value="">No decks yet</option>}
+            {decks.map(deck => <option key={deck.id} value={deck.id}>{deck.name} ({deck.format})</option>)}
+          </select>
+        </label>
+        {format === 'commander' && (
+          <label className="text-sm text-gray-300">
+            <span className="block mb-1">Power level</span>
+            <select
+              value={powerLevel}
+              onChange={(e) => setPowerLevel(e.target.value)}
+              className="bg-gray-800 border-gray-600 text-white rounded px-3 py-2"
+            >
+              <option value="">Any</option>
+              {Array.from({ length: 10 }, (_, i) => i + 1).map(level => (
+                <option key={level} value={level}>{level}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <button
+          onClick={() => onFindGame(format, selectedDeckId, format === 'commander' && powerLevel ? parseInt(powerLevel) : undefined)}
+          disabled={disabled}
+          title={disabledReason}
+          className="flex items-center gap-2 px-4 py-2 rounded bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+        >
+          <Swords className="w-4 h-4" />
+          Find {formatLabel(format)} {format === 'commander' ? 'pod' : 'match'}
+        </button>
+      </div>
+      {(error || disabledReason) && (
+        <div className={`mt-2 text-xs ${error ? 'text-red-400' : 'text-gray-400'}`}>{error || disabledReason}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, RefreshCw } from 'lucide-react';
+import type { MTGCard } from '@/lib/types/mtg';
+import type { TurnState } from '@/hooks/use-socket';
+
+interface MulliganParticipant {
+  userId: string;
+  user: {
+    username: string;
+  };
+}
+
+interface MulliganPanelProps {
+  turnState: TurnState;
+  participants: MulliganParticipant[];
+  currentUserId: string;
+  handCards: (MTGCard & { instanceId: string })[];
+  topLibraryCard?: MTGCard;
+  onMulligan: () => void;
+  onKeep: (bottom: string[], scryToBottom: boolean) => void;
+}
+
+// Pre-game choice between keeping the opening hand and taking a mulligan
+export function MulliganPanel({ turnState, participants, currentUserId, handCards, topLibraryCard, onMulligan, onKeep }: MulliganPanelProps) {
+  const [bottom, setBottom] = useState<string[]>([]);
+  const [scryToBottom, setScryToBottom] = useState(false);
+
+  const status = turnState.mulligans[currentUserId];
+  const rulesLabel = `${turnState.mulliganRules.type === 'london' ? 'London' : 'Vancouver'} mulligan${
+    turnState.mulliganRules.freeFirstMulligan ? ', first one free' : ''
+  }`;
+  const waitingOn = turnState.turnOrder
+    .filter(playerId => !turnState.mulligans[playerId]?.kept)
+    .map(playerId => participants.find(p => p.userId === playerId)?.user.username || 'Unknown player');
+
+  const toggleBottom = (instanceId: string) => {
+    setBottom(prev => prev.includes(instanceId)
+      ? prev.filter(id => id !== instanceId)
+      : prev.length < (status?.cardsToBottom ?? 0) ? [...prev, instanceId] : prev
+    );
+  };
+
+  const handleMulligan = () => {
+    setBottom([]);
+    setScryToBottom(false);
+    onMulligan();
+  };
+
+  // Spectators and players who have kept just see who the game is waiting on
+  if (!status || status.kept) {
+    return (
+      <div className="fixed top-28 left-1/2 -translate-x-1/2 z-[900] bg-black/80 text-white px-4 py-2 rounded-lg shadow-lg border border-gray-700 text-sm">
+        Waiting for {waitingOn.join(', ')} to keep
+      </div>
+    );
+  }
+
+  const imageFor = (card: MTGCard) => card.image_uris?.normal || card.card_faces?.[0]?.image_uris?.normal;
+
+  return (
+    <div className="fixed top-28 left-1/2 -translate-x-1/2 z-[1000] bg-gray-900/95 border border-gray-700 rounded-lg shadow-2xl p-3 text-white max-w-[90vw]">
+      <div className="flex items-center justify-between gap-4 mb-2 text-sm">
+        <span className="font-medium">
+          Opening hand{status.mulligans > 0 ? ` after ${status.mulligans} mulligan${status.mulligans === 1 ? '' : 's'}` : ''}
+        </span>
+        <span className="text-xs text-gray-400">{rulesLabel}</span>
+      </div>
+
+      {status.cardsToBottom > 0 && (
+        <div className="text-xs text-gray-300 mb-2">
+          Choose {status.cardsToBottom} card{status.cardsToBottom === 1 ? '' : 's'} to put on the bottom of your library ({bottom.length} selected)
+        </div>
+      )}
+
+      <div className="flex gap-2 overflow-x-auto">
+        {handCards.map(card => {
+          const imageUrl = imageFor(card);
+          const selected = bottom.includes(card.instanceId);
+          return (
+            <button
+              key={card.instanceId}
+              onClick={() => toggleBottom(card.instanceId)}
+              disabled={status.cardsToBottom === 0}
+              className={`relative flex-shrink-0 rounded-md border-2 ${selected ? 'border-red-500 opacity-60' : 'border-transparent'}`}
+            >
+              {imageUrl ? (
+                <img src={imageUrl} alt={card.name} className="w-[100px] h-[140px] rounded-md object-cover" />
+              ) : (
+                <div className="w-[100px] h-[140px] rounded-md bg-gray-800 flex items-center justify-center text-xs text-center p-2">
+                  {card.name}
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {status.canScry && topLibraryCard && (
+        <label className="flex items-center gap-2 mt-2 text-xs text-gray-300">
+          <input
+            type="checkbox"
+            checked={scryToBottom}
+            onChange={(e) => setScryToBottom(e.target.checked)}
+          />
+          Scry 1: put {topLibraryCard.name} on the bottom of your library
+        </label>
+      )}
+
+      <div className="flex justify-end gap-2 mt-3">
+        <button
+          onClick={handleMulligan}
+          className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-3 py-1 rounded text-sm"
+        >
+          <RefreshCw className="w-3 h-3" />
+          Mulligan
+        </button>
+        <button
+          onClick={() => onKeep(bottom, scryToBottom)}
+          disabled={bottom.length !== status.cardsToBottom}
+          className="flex items-center gap-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-1 rounded text-sm"
+        >
+          <Check className="w-3 h-3" />
+          Keep
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { Heart, Skull, Swords, ChevronDown, ChevronUp, Minus, Plus } from 'lucide-react';
+import type { PlayerCounters } from '@/hooks/use-socket';
+
+interface CounterParticipant {
+  userId: string;
+  user: {
+    username: string;
+  };
+}
+
+interface PlayerCountersPanelProps {
+  participants: CounterParticipant[];
+  counters: Record<string, PlayerCounters>;
+  currentUserId: string;
+  isCommander: boolean;
+  readOnly?: boolean;
+  onLifeChange: (playerId: string, amount: number) => void;
+  onPoisonChange: (playerId: string, amount: number) => void;
+  onCommanderDamage: (playerId: string, sourcePlayerId: string, amount: number) => void;
+}
+
+// Small -/+ stepper shared by every counter row
+function CounterStepper({
+  value,
+  onChange,
+  disabled,
+  label,
+  className = ''
+}: {
+  value: number;
+  onChange: (amount: number) => void;
+  disabled?: boolean;
+  label: string;
+  className?: string;
+}) {
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={() => onChange(-1)}
+        disabled={disabled}
+        className="p-0.5 rounded hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed"
+        aria-label={`Decrease ${label}`}
+      >
+        <Minus className="w-3 h-3" />
+      </button>
+      <span className={`min-w-[2ch] text-center tabular-nums ${className}`}>{value}</span>
+      <button
+        onClick={() => onChange(1)}
+        disabled={disabled}
+        className="p-0.5 rounded hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed"
+        aria-label={`Increase ${label}`}
+      >
+        <Plus className="w-3 h-3" />
+      </button>
+    </div>
+  );
+}
+
+export function PlayerCountersPanel({
+  participants,
+  counters,
+  currentUserId,
+  isCommander,
+  readOnly = false,
+  onLifeChange,
+  onPoisonChange,
+  onCommanderDamage
+}: PlayerCountersPanelProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [expandedPlayerId, setExpandedPlayerId] = useState<string | null>(null);
+
+  return (
+    <div className="fixed top-1/2 left-4 -translate-y-1/2 z-[1000] w-64 bg-black/90 backdrop-blur-sm border border-gray-700 rounded-lg shadow-2xl text-white text-sm">
+      <button
+        onClick={() => setIsCollapsed(prev => !prev)}
+        className="w-full flex items-center justify-between px-3 py-2 border-b border-gray-700 font-medium"
+      >
+        Life Totals
+        {isCollapsed ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+      </button>
+
+      {!isCollapsed && (
+        <div className="divide-y divide-gray-800">
+          {participants.map((participant) => {
+            const playerCounters = counters[participant.userId];
+            if (!playerCounters) return null;
+
+            const isExpanded = expandedPlayerId === participant.userId;
+            const opponents = participants.filter(p => p.userId !== participant.userId);
+
+            return (
+              <div
+                key={participant.userId}
+                className={`px-3 py-2 ${playerCounters.eliminated ? 'opacity-50' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className={`truncate ${playerCounters.eliminated ? 'line-through' : ''}`}>
+                    {participant.user.username}
+                    {participant.userId === currentUserId && <span className="text-green-400"> (You)</span>}
+                  </span>
+                  {playerCounters.eliminated && (
+                    <span className="text-xs text-red-400 font-bold">ELIMINATED</span>
+                  )}
+                </div>
+
+                <div className="mt-1 flex items-center justify-between">
+                  <div className="flex items-center gap-1 text-red-400">
+                    <Heart className="w-4 h-4" />
+                    <CounterStepper
+                      value={playerCounters.life}
+                      onChange={(amount) => onLifeChange(participant.userId, amount)}
+                      disabled={readOnly}
+                      label={`${participant.user.username}'s life`}
+                      className="text-lg font-bold text-white"
+                    />
+                  </div>
+
+                  <div className="flex items-center gap-1 text-green-400">
+                    <Skull className="w-4 h-4" />
+                    <CounterStepper
+                      value={playerCounters.poison}
+                      onChange={(amount) => onPoisonChange(participant.userId, amount)}
+                      disabled={readOnly}
+                      label={`${participant.user.username}'s poison counters`}
+                    />
+                  </div>
+
+                  {isCommander && opponents.length > 0 && (
+                    <button
+                      onClick={() => setExpandedPlayerId(isExpanded ? null : participant.userId)}
+                      className="p-1 rounded hover:bg-white/10 text-orange-400"
+                      aria-label={`Commander damage taken by ${participant.user.username}`}
+                    >
+                      <Swords className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+
+                {/* Commander damage taken, one row per attacking player */}
+                {isCommander && isExpanded && (
+                  <div className="mt-2 space-y-1 pl-2 border-l border-orange-400/40">
+                    {opponents.map((opponent) => (
+                      <div key={opponent.userId} className="flex items-center justify-between text-xs text-gray-300">
+                        <span className="truncate">from {opponent.user.username}</span>
+                        <CounterStepper
+                          value={playerCounters.commanderDamage[opponent.userId] || 0}
+                          onChange={(amount) => onCommanderDamage(participant.userId, opponent.userId, amount)}
+                          disabled={readOnly}
+                          label={`commander damage from ${opponent.user.username}`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,8 +9,25 @@ import { PlaytestCard } from './playtest-card';
 import { HandZone, type HandCard } from './hand-zone';
 import { DeckZone } from './deck-zone';
 import { secureApiRequest } from '@/lib/csrf';
-import { useSocket } from '@/hooks/use-socket';
+import { useSocket, type GameEndResult, type GameMessage, type MatchState, type PlayerCounters, type Spectator, type TurnState, type UndoRequest } from '@/hooks/use-socket';
 import { PlayerSwitcher } from './player-switcher';
+import { PlayerCountersPanel } from './player-counters';
+import { Plus, Link2, Eye, Shuffle, Undo2, RotateCcw, Library, ArrowUpFromLine, Flag } from 'lucide-react';
+import { CardContextMenu } from './card-context-menu';
+import { TokenCreatorModal, type TokenDetails } from './token-creator-modal';
+import { RevealedCardsPanel } from './revealed-cards-panel';
+import { TurnIndicator } from './turn-indicator';
+import { MulliganPanel } from './mulligan-panel';
+import { SpectatorList } from './spectator-list';
+import { HostControls } from './host-controls';
+import { AwayPlayers } from './away-players';
+import { InvitePanel } from './invite-panel';
+import { UndoPrompt } from './undo-prompt';
+import { GameLogPanel } from './game-log-panel';
+import { LibraryPanel, type SearchDestination } from './library-panel';
+import { GameOverPanel } from './game-over-panel';
+import { SideboardPanel } from './sideboard-panel';
+import type { PlayerPresence, TurnClock } from '@/lib/game/presence';
 
 /**
  * PlaymatV2Multiplayer - Perfect 1:1 recreation of PlaymatV2 with minimal multiplayer support
@@ -35,6 +52,9 @@ interface BattlefieldCard extends MTGCard {
   facedown?: boolean;
   zIndex?: number;
   playerId?: string; // ONLY multiplayer addition
+  counters?: Record<string, number>;
+  isToken?: boolean;
+  attachedTo?: string; // instanceId of the card this one is attached to
 }
 
 // Game room interfaces (multiplayer addition)
@@ -72,6 +92,8 @@ interface PlaymatV2MultiplayerProps {
   sessionUserId: string;
   spectatorUserId?: string; // User whose board state to display
   onPlayerSwitch?: (userId: string) => void; // Callback for switching views
+  onRemovedFromGame?: (message: string) => void; // The host kicked this spectator or player
+  onRoomChanged?: () => void; // The host changed who is in the room, who runs it or where everyone sits
 }
 
 // Utility functions (copied exactly from original PlaymatV2)
@@ -201,16 +223,15 @@ const ExtraDeckZone: React.FC<{
 // Battlefield Component (copied from original + minimal multiplayer changes)
 const Battlefield: React.FC<{ 
   cards: BattlefieldCard[];
-  onCardMove: (cardId: string, x: number, y: number) => void;
   onCardTap: (cardId: string, event?: React.MouseEvent) => void;
+  onCardContextMenu?: (cardId: string, event: React.MouseEvent) => void;
   activeDragId?: string;
   onCardHover?: (card: MTGCard, event: React.MouseEvent) => void;
   onCardHoverEnd?: () => void;
   selectedCards: Set<string>;
   onMouseDown?: (e: React.MouseEvent) => void;
   onBattlefieldClick?: (e: React.MouseEvent) => void;
-  sessionUserId: string; // ONLY multiplayer addition
-}> = ({ cards, onCardMove, onCardTap, activeDragId, onCardHover, onCardHoverEnd, selectedCards, onMouseDown, onBattlefieldClick, sessionUserId }) => {
+}> = ({ cards, onCardTap, onCardContextMenu, activeDragId, onCardHover, onCardHoverEnd, selectedCards, onMouseDown, onBattlefieldClick }) => {
   const { setNodeRef, isOver } = useDroppable({
     id: 'battlefield',
     data: {
@@ -234,7 +255,11 @@ const Battlefield: React.FC<{
           card={card}
           tapped={card.tapped}
           facedown={card.facedown}
+          counters={card.counters}
+          isToken={card.isToken}
+          isAttached={!!card.attachedTo}
           onTap={(event) => onCardTap(card.instanceId, event)}
+          onContextMenu={onCardContextMenu ? (event) => onCardContextMenu(card.instanceId, event) : undefined}
           isDragging={activeDragId === `battlefield-${card.instanceId}`}
           isSelected={selectedCards.has(card.instanceId)}
           onMouseEnter={onCardHover}
@@ -250,7 +275,19 @@ const Battlefield: React.FC<{
   );
 };
 
-export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spectatorUserId, onPlayerSwitch }: PlaymatV2MultiplayerProps) {
+// Adds (or removes, for negative amounts) counters of one kind, dropping the key at zero
+function applyCounterChange(counters: Record<string, number> | undefined, counter: string, amount: number) {
+  const updated = { ...counters };
+  const count = Math.max(0, (updated[counter] || 0) + amount);
+  if (count === 0) {
+    delete updated[counter];
+  } else {
+    updated[counter] = count;
+  }
+  return updated;
+}
+
+export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spectatorUserId, onPlayerSwitch, onRemovedFromGame, onRoomChanged }: PlaymatV2MultiplayerProps) {
   // Determine which user's board state to display
   const activeViewUserId = spectatorUserId || sessionUserId;
   const isSpectating = activeViewUserId !== sessionUserId;
@@ -293,21 +330,59 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
   const [extraDeckCards, setExtraDeckCards] = useState<MTGCard[]>([]);
   const [activeDragItem, setActiveDragItem] = useState<any>(null);
   const [nextZIndex, setNextZIndex] = useState<number>(1);
+  const [playerCounters, setPlayerCounters] = useState<Record<string, PlayerCounters>>({});
+  
+  // Latest library for socket handlers, which would otherwise see a stale closure
+  const libraryCardsRef = useRef<MTGCard[]>([]);
+  libraryCardsRef.current = libraryCards;
   
   // Socket.IO for real-time multiplayer sync
   const {
     isConnected,
     connectionError,
+    queuedActions,
     subscribeToEvents,
     emitCardMoved,
     emitCardTapped,
     emitCardPlayed,
     emitCardReturned,
-    emitHandStateChanged
+    emitCardDestroyed,
+    emitCardExiled,
+    emitDeckLoaded,
+    emitCardDrawn,
+    emitLibraryShuffled,
+    emitCardRevealed,
+    emitHandRevealed,
+    emitLibraryArranged,
+    emitLibrarySearched,
+    emitLibraryTopRevealed,
+    emitCardCounterChanged,
+    emitTokenCreated,
+    emitCardAttached,
+    emitLifeChanged,
+    emitPoisonChanged,
+    emitCommanderDamage,
+    emitTurnAction,
+    emitMulligan,
+    emitConceded,
+    emitDeckSubmitted,
+    emitHandKept,
+    emitSpectatorKicked,
+    emitPlayerKicked,
+    emitHostTransferred,
+    emitSeatsRearranged,
+    emitGamePaused,
+    emitGameResumed,
+    emitTurnSkipped,
+    emitUndoRequested,
+    emitUndoResponse,
+    emitTurnRewound,
+    emitChatMessage
   } = useSocket({
     gameId: gameRoom.id,
     userId: sessionUserId,
-    username: currentUser.user.username
+    format: gameRoom.format,
+    spectator: currentUser.userId === 'spectator'
   });
   
   // Hover preview state (copied from original)
@@ -323,6 +398,35 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
   const [selectionEnd, setSelectionEnd] = useState<{ x: number; y: number } | null>(null);
   const [justCompletedSelection, setJustCompletedSelection] = useState(false);
 
+  // Counters, tokens and attachments
+  const [contextMenu, setContextMenu] = useState<{ cardId: string; x: number; y: number } | null>(null);
+  const [attachingCardId, setAttachingCardId] = useState<string | null>(null);
+  const [showTokenCreator, setShowTokenCreator] = useState(false);
+  const [showLibraryPanel, setShowLibraryPanel] = useState(false);
+  const [gameResults, setGameResults] = useState<{ results: GameEndResult[]; turns: number; match: MatchState | null; matchOver: boolean } | null>(null);
+  // The deck as last played in a match, and the sideboard cards it can swap with between games
+  const [matchDeck, setMatchDeck] = useState<{ mainboard: MTGCard[]; sideboard: MTGCard[] }>({ mainboard: [], sideboard: [] });
+
+  // Hidden information: opponents' hands arrive as revealed cards plus a count of the rest
+  const [hiddenHandCount, setHiddenHandCount] = useState(0);
+  const [revealedCardIds, setRevealedCardIds] = useState<string[]>([]);
+  const [revealedCards, setRevealedCards] = useState<{ playerId: string; cards: MTGCard[]; from: 'hand' | 'library' } | null>(null);
+  const [viewedLibraryCount, setViewedLibraryCount] = useState(0);
+  const [shuffleCommitment, setShuffleCommitment] = useState<string | null>(null);
+
+  // Turn structure: whose turn it is, the phase and who holds priority
+  const [turnState, setTurnState] = useState<TurnState | null>(null);
+  const [spectators, setSpectators] = useState<Spectator[]>([]);
+  // The active player's time left (in rooms with a turn timer) and the players who are away from the table
+  const [turnClock, setTurnClock] = useState<TurnClock | null>(null);
+  const [presence, setPresence] = useState<PlayerPresence[]>([]);
+
+  // Undo requests waiting on approval, and a short note on how the last one (or a host rewind) went
+  const [undoRequest, setUndoRequest] = useState<UndoRequest | null>(null);
+  const [undoNotice, setUndoNotice] = useState<string | null>(null);
+  // Room chat and the game log, oldest first
+  const [gameMessages, setGameMessages] = useState<GameMessage[]>([]);
+
   // Set up sensors (copied from original)
   const sensors = useSensors(
     useSensor(MouseSensor, {
@@ -361,6 +465,8 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
       setBattlefieldCards([]);
       setHandCards([]);
       setLibraryCards([]);
+      setHiddenHandCount(0);
+      setViewedLibraryCount(0);
       
       // CRITICAL FIX: Check for persisted game state FIRST
       const hasPersistedHandState = await loadGameState(viewingUser.userId);
@@ -479,18 +585,25 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
           const allCards = Object.values(data.deck.cards).flat() as any[];
           console.log('🔍 All cards from deck:', allCards);
           
+          // Sideboard cards stay out of the library (in a match they can be swapped in between games).
+          // Copies are numbered per card, across categories, so every copy gets its own id
           const deckCards: MTGCard[] = [];
+          const sideboardCards: MTGCard[] = [];
+          const copiesSeen: Record<string, number> = {};
           
           allCards.forEach(deckCard => {
             for (let i = 0; i < deckCard.quantity; i++) {
-              deckCards.push({
+              const copy = copiesSeen[deckCard.card.id] ?? 0;
+              copiesSeen[deckCard.card.id] = copy + 1;
+              (deckCard.category === 'sideboard' ? sideboardCards : deckCards).push({
                 ...deckCard.card,
-                id: `${deckCard.card.id}-${i}`,
+                id: `${deckCard.card.id}-${copy}`,
               });
             }
           });
-          
-          const shuffledCards = [...deckCards].sort(() => Math.random() - 0.5);
+          if (playerId === sessionUserId) {
+            setMatchDeck({ mainboard: deckCards, sideboard: sideboardCards });
+          }
           
           // CRITICAL FIX: Check if we already have hand cards (from previous session)
           // If so, preserve them and adjust the library accordingly
@@ -500,7 +613,7 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
             console.log('🔄 Preserving existing hand cards:', existingHandCards.length, 'cards');
             // Remove the cards that are in hand from the library
             const cardsInHand = existingHandCards.map(card => card.name);
-            const adjustedLibrary = shuffledCards.filter(card => {
+            const adjustedLibrary = deckCards.filter(card => {
               const cardInHandIndex = cardsInHand.indexOf(card.name);
               if (cardInHandIndex !== -1) {
                 cardsInHand.splice(cardInHandIndex, 1); // Remove one instance
@@ -512,21 +625,20 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
             setLibraryCards(adjustedLibrary);
             console.log('🃏 Reloaded deck for', playerId, '- Preserved hand:', existingHandCards.length, 'cards, Adjusted library:', adjustedLibrary.length, 'cards');
             
-            // Emit the preserved hand state with new library
+            // Hand the new library to the server (it rejects this if the player already has cards)
             if (playerId === sessionUserId) {
-              emitHandStateChanged(existingHandCards, adjustedLibrary);
+              emitDeckLoaded(adjustedLibrary);
             }
           } else {
             // No existing hand cards - start fresh
             const initialHand: HandCard[] = []; // Empty hand
             
             setHandCards(initialHand);
-            setLibraryCards(shuffledCards); // Full deck goes to library
-            console.log('🃏 Loaded fresh deck for', playerId, '- Hand:', initialHand.length, 'cards, Library:', shuffledCards.length, 'cards');
+            setLibraryCards(deckCards); // Full deck goes to library
             
-            // Emit the initial empty hand state to persist it
+            // The server keeps the library from here on, shuffling it with the game's committed seed
             if (playerId === sessionUserId) {
-              emitHandStateChanged(initialHand, shuffledCards);
+              emitDeckLoaded(deckCards);
             }
           }
           
@@ -574,9 +686,10 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
           
           // CRITICAL FIX: Always set hand cards for the viewed player (even if empty)
           if (gameState.handCards && gameState.handCards.length > 0) {
+            // Keep the server's instance ids so later actions refer to the same cards
             const restoredHandCards: HandCard[] = gameState.handCards.map((card: any, index: number) => ({
               ...card,
-              instanceId: `hand-${card.id}-${index}-${playerId}-restored`
+              instanceId: card.instanceId || `hand-${card.id}-${index}-${playerId}-restored`
             }));
             setHandCards(restoredHandCards);
             console.log('🃏 Restored', restoredHandCards.length, 'hand cards for player', playerId);
@@ -586,6 +699,10 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
             console.log('🃏 No hand cards found for player', playerId, '- clearing hand view');
           }
           
+          // Another player's unrevealed cards only come back as a count
+          setHiddenHandCount(Math.max(0, (gameState.handCount || 0) - (gameState.handCards?.length || 0)));
+          setViewedLibraryCount(gameState.libraryCount || 0);
+          
           // CRITICAL FIX: Always set library cards for the viewed player (even if empty)
           if (gameState.libraryCards && gameState.libraryCards.length > 0) {
             setLibraryCards(gameState.libraryCards);
@@ -596,17 +713,14 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
             console.log('📚 No library cards found for player', playerId, '- clearing library view');
           }
           
-          // CRITICAL FIX: Only skip deck loading if we have BOTH hand AND library cards
-          // If we only have hand cards but no library, we need to reload the deck
-          const hasPersistedHandCards = gameState.handCards && gameState.handCards.length > 0;
-          const hasPersistedLibraryCards = gameState.libraryCards && gameState.libraryCards.length > 0;
+          // The server owns the deck once it is loaded, so any cards in any zone mean it is already in play
+          // (counts, since another player's hand and library are hidden)
+          const hasPersistedHandCards = gameState.handCount > 0;
+          const hasPersistedLibraryCards = gameState.libraryCount > 0;
+          const hasPersistedBattlefieldCards = gameState.battlefieldCards && gameState.battlefieldCards.length > 0;
           
-          if (hasPersistedHandCards && hasPersistedLibraryCards) {
-            console.log('✅ Found complete persisted state (hand + library) - skipping deck generation');
-            return true; // Signal that we loaded complete persisted state
-          } else if (hasPersistedHandCards && !hasPersistedLibraryCards) {
-            console.log('⚠️ Found hand cards but missing library - will reload deck to restore library');
-            return false; // Need to reload deck to get library cards back
+          if (hasPersistedHandCards || hasPersistedLibraryCards || hasPersistedBattlefieldCards) {
+            return true; // Signal that we loaded persisted state
           } else {
             console.log('📋 No persisted cards found - will generate deck from scratch');
             return false; // Signal that we need to load the deck
@@ -635,20 +749,32 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
       setLibraryCards([]); // Empty library
       
       console.log('🚫 No deck loaded for', viewingUser.user.username, '- Hand:', initialHand.length, 'cards, Library: 0 cards');
-      
-      // Emit the initial empty hand state to persist it
-      if (viewingUser.userId === sessionUserId) {
-        emitHandStateChanged(initialHand, []);
-      }
     }
 
     loadDeckAndGameState();
   }, [activeViewUserId, gameRoom.id]); // Removed isSpectating to reduce re-renders
 
+  // Undo notices only need to be seen once
+  useEffect(() => {
+    if (!undoNotice) return;
+    const timer = setTimeout(() => setUndoNotice(null), 4000);
+    return () => clearTimeout(timer);
+  }, [undoNotice]);
+
   // Socket.IO event handlers for real-time sync
   useEffect(() => {
     if (!isConnected) return;
 
+    // A card the viewed player put into their graveyard or exile just leaves the battlefield here
+    const onCardLeftBattlefield = (data: { cardId: string; playerId: string }) => {
+      if (data.playerId === activeViewUserId && data.playerId !== sessionUserId) {
+        setBattlefieldCards(prev => prev
+          .filter(card => card.instanceId !== data.cardId)
+          .map(card => card.attachedTo === data.cardId ? { ...card, attachedTo: undefined } : card)
+        );
+      }
+    };
+
     const cleanup = subscribeToEvents({
       onCardMoved: (data) => {
         // Only apply events when viewing the player who made the action
@@ -675,14 +801,14 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
       onCardPlayed: (data) => {
         // Only apply events when viewing the player who made the action
         if (data.playerId === activeViewUserId && data.playerId !== sessionUserId) {
-          const newCard: BattlefieldCard = {
+          // On top of everything already on the board
+          setBattlefieldCards(prev => [...prev, {
             ...data.card,
             position: data.position,
             tapped: false,
-            zIndex: nextZIndex,
+            zIndex: Math.max(0, ...prev.map(card => card.zIndex || 0)) + 1,
             playerId: data.playerId
-          };
-          setBattlefieldCards(prev => [...prev, newCard]);
+          }]);
           setNextZIndex(prev => prev + 1);
           
           // CRITICAL FIX: Also remove the card from hand when viewing the player who played it
@@ -707,7 +833,8 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
             const returningCard = prev.find(card => card.instanceId === data.cardId);
             
             // CRITICAL FIX: Also add the card back to hand when viewing the player who returned it
-            if (returningCard) {
+            // Tokens cease to exist when they leave the battlefield
+            if (returningCard && !returningCard.isToken) {
               const handCard: HandCard = {
                 ...returningCard,
                 instanceId: `hand-${returningCard.id}-${Date.now()}-returned`
@@ -717,11 +844,16 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
               console.log('🔄 Real-time sync: Card returned by', data.playerId, 'removed from battlefield and added to hand view');
             }
             
-            // Return filtered battlefield cards
-            return prev.filter(card => card.instanceId !== data.cardId);
+            // Return filtered battlefield cards, detaching anything that was attached to the returned card
+            return prev
+              .filter(card => card.instanceId !== data.cardId)
+              .map(card => card.attachedTo === data.cardId ? { ...card, attachedTo: undefined } : card);
           });
         }
       },
+
+      onCardDestroyed: onCardLeftBattlefield,
+      onCardExiled: onCardLeftBattlefield,
       
       onHandStateChanged: (data) => {
         // Only apply events when viewing the player who made the action
@@ -731,28 +863,177 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
           // Update the hand cards for the player being viewed
           const newHandCards: HandCard[] = data.handCards.map((card: any, index: number) => ({
             ...card,
-            instanceId: `hand-${card.id}-${index}-${data.playerId}-synced`
+            instanceId: card.instanceId || `hand-${card.id}-${index}-${data.playerId}-synced`
           }));
           
           setHandCards(newHandCards);
-          console.log('🃏 Updated hand view for', data.playerId, '- now showing', newHandCards.length, 'cards');
+          setHiddenHandCount(Math.max(0, data.handCount - newHandCards.length));
+          setViewedLibraryCount(data.libraryCount);
+        }
+        
+        // Cards that left our hand are no longer revealed
+        if (data.playerId === sessionUserId) {
+          const handIds = data.handCards.map((card: { instanceId: string }) => card.instanceId);
+          setRevealedCardIds(prev => prev.filter(id => handIds.includes(id)));
+        }
+      },
+      
+      onLibraryShuffled: (data) => {
+        // Our own library comes back in its new order; other players' libraries are only a count
+        if (data.playerId === sessionUserId) {
+          setLibraryCards(data.libraryCards);
+        } else if (data.playerId === activeViewUserId) {
+          setViewedLibraryCount(data.libraryCount);
+        }
+      },
+      
+      onCardsRevealed: (data) => {
+        if (data.playerId === sessionUserId) {
+          // Only cards revealed from hand stay marked; the top of the library is shown once
+          if (data.from === 'hand') {
+            setRevealedCardIds(prev => [...new Set([...prev, ...data.cards.map(card => card.instanceId)])]);
+          }
+          return;
         }
+        setRevealedCards({ playerId: data.playerId, cards: data.cards, from: data.from });
+      },
+      
+      onCardCounterChanged: (data) => {
+        // Only apply events when viewing the player who made the action
+        if (data.playerId === activeViewUserId && data.playerId !== sessionUserId) {
+          setBattlefieldCards(prev => prev.map(card =>
+            card.instanceId === data.cardId
+              ? { ...card, counters: applyCounterChange(card.counters, data.counter, data.amount) }
+              : card
+          ));
+        }
+      },
+
+      onTokenCreated: (data) => {
+        // Only apply events when viewing the player who made the action
+        if (data.playerId === activeViewUserId && data.playerId !== sessionUserId) {
+          setBattlefieldCards(prev => [...prev, {
+            ...data.card,
+            position: data.position,
+            tapped: false,
+            isToken: true,
+            playerId: data.playerId
+          }]);
+        }
+      },
+
+      onCardAttached: (data) => {
+        // Only apply events when viewing the player who made the action
+        if (data.playerId === activeViewUserId && data.playerId !== sessionUserId) {
+          setBattlefieldCards(prev => prev.map(card =>
+            card.instanceId === data.cardId
+              ? { ...card, attachedTo: data.targetId || undefined }
+              : card
+          ));
+        }
+      },
+
+      onPlayerCountersChanged: (data) => {
+        // Counters are public, so apply them regardless of which board is being viewed
+        setPlayerCounters(prev => ({ ...prev, [data.playerId]: data.counters }));
+      },
+
+      onTurnStateChanged: (data) => {
+        // Untaps and draws from a new turn arrive separately as a fresh game-state
+        setTurnState(data);
+      },
+      
+      onTurnClockChanged: (data) => {
+        setTurnClock(data.clock);
+      },
+      
+      onPresenceChanged: (data) => {
+        setPresence(data.presence);
       },
       
       onPlayerJoined: (data) => {
         console.log('🔄 Player joined:', data);
       },
       
+      onSpectatorsChanged: (data) => {
+        setSpectators(data.spectators);
+      },
+      
+      onRemovedFromGame: (data) => {
+        onRemovedFromGame?.(data.message);
+      },
+      
+      onRoomChanged: () => {
+        onRoomChanged?.();
+      },
+      
+      onUndoRequested: (data) => {
+        setUndoRequest(data);
+      },
+      
+      onUndoResolved: (data) => {
+        // The board itself comes back as a fresh game-state when an undo goes through
+        setUndoRequest(prev => (prev?.requestId === data.requestId ? null : prev));
+        setUndoNotice(data.message);
+      },
+      
+      onTurnRewound: (data) => {
+        setUndoNotice(`The host rewound the game to the start of turn ${data.turn}`);
+      },
+      
+      onGameMessage: (data) => {
+        setGameMessages(prev => [...prev, data]);
+      },
+      
+      onGameMessages: (data) => {
+        setGameMessages(data.messages);
+      },
+      
+      onGameEnded: (data) => {
+        setGameResults(data);
+      },
+      
       onGameState: (data) => {
-        console.log('🔄 Received game state:', data);
+        if (data.playerCounters) {
+          setPlayerCounters(data.playerCounters);
+        }
+        setShuffleCommitment(data.shuffleCommitment);
+        setTurnState(data.turnState);
+        setTurnClock(data.turnClock);
+        setPresence(data.presence);
+        
+        // The server's board is authoritative, so adopt it for the board being viewed
         if (data.battlefieldCards) {
-          setBattlefieldCards(data.battlefieldCards);
+          const viewedCards = data.battlefieldCards.filter((card: BattlefieldCard) => card.playerId === activeViewUserId);
+          setBattlefieldCards(viewedCards);
+          setNextZIndex(Math.max(0, ...viewedCards.map((card: BattlefieldCard) => card.zIndex || 0)) + 1);
         }
+        
+        // Hand and library only come with the state for our own board
+        if (activeViewUserId === sessionUserId) {
+          const serverHasCards = data.handCards.length > 0 || data.libraryCards.length > 0 ||
+            data.battlefieldCards.some((card: BattlefieldCard) => card.playerId === sessionUserId);
+          
+          // A deck loaded before the socket connected never reached the server, so send it now
+          if (!serverHasCards && libraryCardsRef.current.length > 0) {
+            emitDeckLoaded(libraryCardsRef.current);
+            return;
+          }
+          
+          setHandCards(data.handCards);
+          setLibraryCards(data.libraryCards);
+          setRevealedCardIds(data.revealedCardIds || []);
+        }
+      },
+      
+      onActionRejected: (data) => {
+        // The server follows every rejection with a fresh game-state, which rolls the board back
+        console.warn(`🚫 Server rejected ${data.event}: ${data.code} - ${data.message}`);
       }
     });
 
     return cleanup;
-  }, [isConnected, sessionUserId, activeViewUserId, subscribeToEvents]); // Remove nextZIndex from dependencies to prevent loops
+  }, [isConnected, sessionUserId, activeViewUserId, subscribeToEvents, emitDeckLoaded, onRemovedFromGame, onRoomChanged]);
 
   // NOTE: Removed automatic state emission useEffect to prevent duplicate draws
   // State changes are now emitted manually in each action (drawCard, playCard, etc.)
@@ -768,7 +1049,7 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
       const drawnCard = libraryCards[0];
       const newHandCard: HandCard = {
         ...drawnCard,
-        instanceId: `hand-${drawnCard.id}-${Date.now()}-${sessionUserId}` // More unique ID
+        instanceId: `hand-${drawnCard.id}` // Matches the id the server's engine assigns
       };
       
       console.log('🃏 Drawing card:', drawnCard.name, 'New hand card ID:', newHandCard.instanceId);
@@ -785,12 +1066,12 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
       console.log('📚 Next card will be:', newLibrary[0]?.name || 'NONE');
       console.log('✅ Successfully drew:', newHandCard.name);
       
-      // CRITICAL FIX: Emit hand state change ONCE after both states are updated
-      emitHandStateChanged(newHand, newLibrary);
+      // The server draws the same top card and broadcasts the new hand
+      emitCardDrawn();
     } else {
       console.log('❌ Cannot draw - library is empty');
     }
-  }, [isSpectating, sessionUserId, handCards, libraryCards, emitHandStateChanged]);
+  }, [isSpectating, handCards, libraryCards, emitCardDrawn]);
 
   const drawFromExtra = useCallback(() => {
     if (extraDeckCards.length > 0) {
@@ -820,9 +1101,6 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
     
     console.log('📋 Hand size after playing card:', newHand.length);
     
-    // CRITICAL FIX: Emit hand state change ONCE after state is updated
-    emitHandStateChanged(newHand, libraryCards);
-    
     const dropPosition = position || { 
       x: (typeof window !== 'undefined' ? window.innerWidth : 1920) / 2,
       y: (typeof window !== 'undefined' ? window.innerHeight : 1080) / 2
@@ -852,7 +1130,7 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
     emitCardPlayed(battlefieldCard, dropPosition);
     
     console.log('Played card:', handCard.name, 'at position:', dropPosition);
-  }, [handCards, libraryCards, nextZIndex, sessionUserId, emitCardPlayed, emitHandStateChanged]);
+  }, [handCards, nextZIndex, sessionUserId, emitCardPlayed, isSpectating]);
 
   const playFromLibrary = useCallback((card: MTGCard, position?: { x: number; y: number }) => {
     if (isSpectating) return; // Can't play cards when spectating
@@ -864,7 +1142,7 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
     
     const battlefieldCard: BattlefieldCard = {
       ...card,
-      instanceId: `battlefield-library-${card.id}-${Date.now()}`,
+      instanceId: `battlefield-${card.id}`, // Matches the id the server's engine assigns
       position: dropPosition,
       tapped: false,
       zIndex: nextZIndex,
@@ -886,33 +1164,104 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
     setNextZIndex(prev => prev + 1);
     setBattlefieldCards(prev => [...prev, battlefieldCard]);
     
-    emitCardPlayed(battlefieldCard, dropPosition);
+    emitCardPlayed(battlefieldCard, dropPosition, 'library');
     
     console.log('Played from library:', card.name, 'at position:', dropPosition);
   }, [nextZIndex, sessionUserId, emitCardPlayed, isSpectating]);
 
+  const shuffleLibrary = useCallback(() => {
+    if (isSpectating || libraryCards.length < 2) return;
+    emitLibraryShuffled();
+  }, [isSpectating, libraryCards.length, emitLibraryShuffled]);
+
+  const revealCard = useCallback((cardId: string) => {
+    if (isSpectating) return;
+    emitCardRevealed(cardId);
+  }, [isSpectating, emitCardRevealed]);
+
+  const revealHand = useCallback(() => {
+    if (isSpectating || handCards.length === 0) return;
+    emitHandRevealed();
+  }, [isSpectating, handCards.length, emitHandRevealed]);
+
+  // The server puts the cards where they were chosen to go and sends back the new board
+  const arrangeLibraryTop = useCallback((top: string[], bottom: string[], graveyard: string[]) => {
+    if (isSpectating) return;
+    emitLibraryArranged(top, bottom, graveyard);
+  }, [isSpectating, emitLibraryArranged]);
+
+  const searchLibrary = useCallback((cardId: string | undefined, to: SearchDestination, shuffle: boolean) => {
+    if (isSpectating) return;
+    const position = to === 'battlefield' ? {
+      x: (typeof window !== 'undefined' ? window.innerWidth : 1920) / 2,
+      y: (typeof window !== 'undefined' ? window.innerHeight : 1080) / 2
+    } : undefined;
+    emitLibrarySearched(cardId, to, position);
+    if (shuffle) {
+      emitLibraryShuffled();
+    }
+    setShowLibraryPanel(false);
+  }, [isSpectating, emitLibrarySearched, emitLibraryShuffled]);
+
+  const revealLibraryTop = useCallback(() => {
+    if (isSpectating || libraryCards.length === 0) return;
+    emitLibraryTopRevealed();
+  }, [isSpectating, libraryCards.length, emitLibraryTopRevealed]);
+
+  // The server checks the new deck against the registered one, then deals the next game from it once both players are ready
+  const submitSideboardedDeck = useCallback((mainboard: MTGCard[], sideboard: MTGCard[]) => {
+    if (isSpectating) return;
+    setMatchDeck({ mainboard, sideboard });
+    emitDeckSubmitted(mainboard);
+  }, [isSpectating, emitDeckSubmitted]);
+
   const returnToHand = useCallback((cardId: string) => {
     const battlefieldCard = battlefieldCards.find(card => card.instanceId === cardId);
     if (!battlefieldCard) return;
 
-    setBattlefieldCards(prev => prev.filter(card => card.instanceId !== cardId));
+    // Anything attached to the returned card stays on the battlefield, unattached
+    const attachments = battlefieldCards.filter(card => card.attachedTo === cardId);
+    setBattlefieldCards(prev => prev
+      .filter(card => card.instanceId !== cardId)
+      .map(card => card.attachedTo === cardId ? { ...card, attachedTo: undefined } : card)
+    );
+    attachments.forEach(card => emitCardAttached(card.instanceId, null));
+
+    // Tokens cease to exist when they leave the battlefield
+    if (battlefieldCard.isToken) {
+      emitCardReturned(cardId);
+      return;
+    }
     
     const handCard: HandCard = {
       ...battlefieldCard,
-      instanceId: `hand-${battlefieldCard.id}-${Date.now()}`
+      instanceId: `hand-${battlefieldCard.id}` // Matches the id the server's engine assigns
     };
     
-    // CRITICAL FIX: Update state and emit once
-    const newHand = [...handCards, handCard];
-    setHandCards(newHand);
-    
-    // CRITICAL FIX: Emit hand state change ONCE after state is updated
-    emitHandStateChanged(newHand, libraryCards);
+    setHandCards(prev => [...prev, handCard]);
     
     emitCardReturned(cardId);
     
     console.log('Returned to hand:', battlefieldCard.name);
-  }, [battlefieldCards, handCards, libraryCards, emitCardReturned, emitHandStateChanged]);
+  }, [battlefieldCards, emitCardReturned, emitCardAttached]);
+
+  // Put a battlefield card into the graveyard or exile; the playmat shows neither zone yet
+  const removeFromBattlefield = useCallback((cardId: string, to: 'graveyard' | 'exile') => {
+    if (isSpectating) return;
+
+    const attachments = battlefieldCards.filter(card => card.attachedTo === cardId);
+    setBattlefieldCards(prev => prev
+      .filter(card => card.instanceId !== cardId)
+      .map(card => card.attachedTo === cardId ? { ...card, attachedTo: undefined } : card)
+    );
+    attachments.forEach(card => emitCardAttached(card.instanceId, null));
+
+    if (to === 'graveyard') {
+      emitCardDestroyed(cardId);
+    } else {
+      emitCardExiled(cardId);
+    }
+  }, [battlefieldCards, emitCardDestroyed, emitCardExiled, emitCardAttached, isSpectating]);
 
   const handleCardMove = useCallback((cardId: string, x: number, y: number) => {
     if (isSpectating) return; // Can't move cards when spectating
@@ -922,22 +1271,140 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
     
     const newX = Math.max(boundaries.minX, Math.min(boundaries.maxX, x));
     const newY = Math.max(boundaries.minY, Math.min(boundaries.maxY, y));
+
+    const movedCard = battlefieldCards.find(card => card.instanceId === cardId);
+    if (!movedCard) return;
+
+    // Attachments travel with their host, keeping their offset and staying tucked underneath
+    const deltaX = newX - movedCard.position.x;
+    const deltaY = newY - movedCard.position.y;
+    const attachments = battlefieldCards.filter(card => card.attachedTo === cardId);
     
-    setBattlefieldCards(prev => prev.map(card => 
-      card.instanceId === cardId 
-        ? { ...card, position: { x: newX, y: newY }, zIndex: nextZIndex }
-        : card
-    ));
+    setBattlefieldCards(prev => prev.map(card => {
+      if (card.instanceId === cardId) {
+        return { ...card, position: { x: newX, y: newY }, zIndex: nextZIndex + 1 };
+      }
+      if (card.attachedTo === cardId) {
+        return { ...card, position: { x: card.position.x + deltaX, y: card.position.y + deltaY }, zIndex: nextZIndex };
+      }
+      return card;
+    }));
     
-    setNextZIndex(prev => prev + 1);
+    setNextZIndex(prev => prev + 2);
     
     emitCardMoved(cardId, { x: newX, y: newY });
+    attachments.forEach(card => {
+      emitCardMoved(card.instanceId, { x: card.position.x + deltaX, y: card.position.y + deltaY });
+    });
     
     console.log('Moved card:', cardId, 'to:', { x: newX, y: newY });
-  }, [nextZIndex, emitCardMoved, isSpectating]);
+  }, [battlefieldCards, nextZIndex, emitCardMoved, isSpectating]);
+
+  const addCardCounter = useCallback((cardId: string, counter: string, amount: number) => {
+    if (isSpectating) return; // Can't change counters when spectating
+
+    setBattlefieldCards(prev => prev.map(card =>
+      card.instanceId === cardId
+        ? { ...card, counters: applyCounterChange(card.counters, counter, amount) }
+        : card
+    ));
+
+    emitCardCounterChanged(cardId, counter, amount);
+  }, [emitCardCounterChanged, isSpectating]);
+
+  const attachCard = useCallback((cardId: string, targetId: string) => {
+    if (isSpectating) return; // Can't attach cards when spectating
+
+    const card = battlefieldCards.find(c => c.instanceId === cardId);
+    const target = battlefieldCards.find(c => c.instanceId === targetId);
+    if (!card || !target) return;
+
+    // Only one level of attachment: no attaching to attachments, and hosts can't be attached
+    if (target.attachedTo || battlefieldCards.some(c => c.attachedTo === cardId)) {
+      console.warn('⚠️ Cannot attach', card.name, 'to', target.name);
+      return;
+    }
+
+    // Tuck the attachment just above its host so the name bar stays visible
+    const position = { x: target.position.x, y: target.position.y - 30 };
+
+    setBattlefieldCards(prev => prev.map(c => {
+      if (c.instanceId === cardId) {
+        return { ...c, attachedTo: targetId, position, zIndex: nextZIndex };
+      }
+      if (c.instanceId === targetId) {
+        return { ...c, zIndex: nextZIndex + 1 };
+      }
+      return c;
+    }));
+    setNextZIndex(prev => prev + 2);
+
+    emitCardAttached(cardId, targetId);
+    emitCardMoved(cardId, position);
+  }, [battlefieldCards, nextZIndex, emitCardAttached, emitCardMoved, isSpectating]);
+
+  const detachCard = useCallback((cardId: string) => {
+    if (isSpectating) return; // Can't detach cards when spectating
+
+    setBattlefieldCards(prev => prev.map(card =>
+      card.instanceId === cardId ? { ...card, attachedTo: undefined } : card
+    ));
+
+    emitCardAttached(cardId, null);
+  }, [emitCardAttached, isSpectating]);
+
+  const createTokens = useCallback((token: TokenDetails, quantity: number) => {
+    if (isSpectating) return; // Can't create tokens when spectating
+
+    // Fan the tokens out from the middle of the battlefield
+    const cardDimensions = getCardDimensions();
+    const boundaries = calculateBoundaries(cardDimensions);
+    const centerX = window.innerWidth / 2;
+    const centerY = window.innerHeight / 2;
+
+    const tokens: BattlefieldCard[] = Array.from({ length: quantity }, (_, index) => {
+      const tokenId = `token-${sessionUserId}-${Date.now()}-${index}`;
+      return {
+        id: tokenId,
+        instanceId: tokenId,
+        name: token.name,
+        type_line: token.type_line || 'Token',
+        power: token.power,
+        toughness: token.toughness,
+        position: {
+          x: Math.max(boundaries.minX, Math.min(boundaries.maxX, centerX + index * 20)),
+          y: Math.max(boundaries.minY, Math.min(boundaries.maxY, centerY + index * 20))
+        },
+        tapped: false,
+        zIndex: nextZIndex + index,
+        playerId: sessionUserId,
+        isToken: true
+      } as BattlefieldCard;
+    });
+
+    setBattlefieldCards(prev => [...prev, ...tokens]);
+    setNextZIndex(prev => prev + quantity);
+
+    tokens.forEach(({ position, ...card }) => emitTokenCreated(card, position));
+  }, [nextZIndex, sessionUserId, emitTokenCreated, isSpectating]);
+
+  const handleCardContextMenu = useCallback((cardId: string, event: React.MouseEvent) => {
+    if (isSpectating) return; // No card actions while spectating
+    setAttachingCardId(null);
+    setContextMenu({ cardId, x: event.clientX, y: event.clientY });
+  }, [isSpectating]);
 
   const handleCardTap = useCallback((cardId: string, event?: React.MouseEvent) => {
     if (isSpectating) return; // Disable interactions in spectator mode
+
+    // While choosing an attach target, the next click picks the host card
+    if (attachingCardId) {
+      if (attachingCardId !== cardId) {
+        attachCard(attachingCardId, cardId);
+      }
+      setAttachingCardId(null);
+      return;
+    }
     
     // If Ctrl/Cmd is pressed, toggle individual card selection
     if (event && (event.ctrlKey || event.metaKey)) {
@@ -1006,7 +1473,7 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
     }
     
     console.log('Tapped card:', cardId);
-  }, [selectedCards, battlefieldCards, emitCardTapped, isSpectating]);
+  }, [selectedCards, attachingCardId, attachCard, emitCardTapped, isSpectating]);
 
   const handleCardHover = useCallback((card: MTGCard, event: React.MouseEvent) => {
     if (activeDragItem) return; // Don't show preview while dragging
@@ -1172,6 +1639,7 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
     
     if (!isSelecting && e.target === e.currentTarget) {
       setSelectedCards(new Set());
+      setAttachingCardId(null); // Clicking empty space cancels attaching
     }
   }, [isSelecting, justCompletedSelection]);
 
@@ -1242,7 +1710,8 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
             const boundaries = calculateBoundaries(cardDimensions);
             
             return prev.map(c => {
-              if (selectedCards.has(c.instanceId)) {
+              // Attachments of selected cards move with them
+              if (selectedCards.has(c.instanceId) || (c.attachedTo && selectedCards.has(c.attachedTo))) {
                 const proposedX = c.position.x + delta.x;
                 const proposedY = c.position.y + delta.y;
                 
@@ -1309,6 +1778,64 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
         />
       )}
       
+      {/* Life, poison and commander damage for every seat */}
+      <PlayerCountersPanel
+        participants={gameRoom.participants}
+        counters={playerCounters}
+        currentUserId={sessionUserId}
+        isCommander={gameRoom.format === 'commander'}
+        readOnly={currentUser.userId === 'spectator'}
+        onLifeChange={emitLifeChanged}
+        onPoisonChange={emitPoisonChanged}
+        onCommanderDamage={emitCommanderDamage}
+      />
+      
+      <TurnIndicator
+        turnState={turnState}
+        turnClock={turnClock}
+        participants={gameRoom.participants}
+        currentUserId={sessionUserId}
+        readOnly={currentUser.userId === 'spectator'}
+        onTurnAction={emitTurnAction}
+      />
+      
+      <UndoPrompt
+        undoRequest={undoRequest}
+        notice={undoNotice}
+        participants={gameRoom.participants}
+        currentUserId={sessionUserId}
+        onRespond={emitUndoResponse}
+      />
+      
+      <GameLogPanel
+        messages={gameMessages}
+        currentUserId={sessionUserId}
+        onSend={emitChatMessage}
+      />
+      
+      {turnState?.status === 'sideboarding' && !gameResults && (
+        <SideboardPanel
+          turnState={turnState}
+          participants={gameRoom.participants}
+          currentUserId={isSpectating ? '' : sessionUserId}
+          mainboard={matchDeck.mainboard}
+          sideboard={matchDeck.sideboard}
+          onSubmit={submitSideboardedDeck}
+        />
+      )}
+      
+      {turnState?.status === 'mulligan' && (
+        <MulliganPanel
+          turnState={turnState}
+          participants={gameRoom.participants}
+          currentUserId={isSpectating ? '' : sessionUserId}
+          handCards={handCards}
+          topLibraryCard={libraryCards[0]}
+          onMulligan={emitMulligan}
+          onKeep={emitHandKept}
+        />
+      )}
+      
       {/* Status indicators */}
       <div className="fixed top-4 right-4 z-[1000] space-y-2">
         {/* Board owner indicator */}
@@ -1323,6 +1850,145 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
           </div>
         </div>
         
+        {/* Token creation */}
+        {!isSpectating && (
+          <button
+            onClick={() => setShowTokenCreator(true)}
+            className="w-full bg-black/80 hover:bg-black/90 text-white px-3 py-2 rounded-lg shadow-lg text-sm flex items-center gap-2 border border-gray-700"
+          >
+            <Plus className="w-4 h-4" />
+            Create Token
+          </button>
+        )}
+        
+        {/* Library shuffle - done by the server so it can be verified after the game */}
+        {!isSpectating && (
+          <button
+            onClick={shuffleLibrary}
+            disabled={libraryCards.length < 2}
+            title={shuffleCommitment ? `Shuffle seed commitment: ${shuffleCommitment}` : undefined}
+            className="w-full bg-black/80 hover:bg-black/90 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-2 rounded-lg shadow-lg text-sm flex items-center gap-2 border border-gray-700"
+          >
+            <Shuffle className="w-4 h-4" />
+            Shuffle Library
+          </button>
+        )}
+        
+        {/* Reveal hand - single cards are revealed by right-clicking them in hand */}
+        {!isSpectating && (
+          <button
+            onClick={revealHand}
+            disabled={handCards.length === 0}
+            className="w-full bg-black/80 hover:bg-black/90 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-2 rounded-lg shadow-lg text-sm flex items-center gap-2 border border-gray-700"
+          >
+            <Eye className="w-4 h-4" />
+            Reveal Hand
+          </button>
+        )}
+        
+        {/* Library - scry, surveil and search; only the log line reaches the other players */}
+        {!isSpectating && (
+          <button
+            onClick={() => setShowLibraryPanel(prev => !prev)}
+            disabled={libraryCards.length === 0}
+            className="w-full bg-black/80 hover:bg-black/90 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-2 rounded-lg shadow-lg text-sm flex items-center gap-2 border border-gray-700"
+          >
+            <Library className="w-4 h-4" />
+            Library
+          </button>
+        )}
+        
+        {/* Reveal the top card of the library to everyone */}
+        {!isSpectating && (
+          <button
+            onClick={revealLibraryTop}
+            disabled={libraryCards.length === 0}
+            className="w-full bg-black/80 hover:bg-black/90 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-2 rounded-lg shadow-lg text-sm flex items-center gap-2 border border-gray-700"
+          >
+            <ArrowUpFromLine className="w-4 h-4" />
+            Reveal Top Card
+          </button>
+        )}
+        
+        {/* Concede - leaves the game as a loss; the last player standing wins */}
+        {currentUser.userId !== 'spectator' && (turnState?.status === 'active' || turnState?.status === 'mulligan') &&
+          !playerCounters[sessionUserId]?.eliminated && (
+          <button
+            onClick={() => {
+              if (confirm('Concede this game? It will count as a loss.')) {
+                emitConceded();
+              }
+            }}
+            className="w-full bg-black/80 hover:bg-black/90 text-white px-3 py-2 rounded-lg shadow-lg text-sm flex items-center gap-2 border border-red-800"
+          >
+            <Flag className="w-4 h-4" />
+            Concede
+          </button>
+        )}
+        
+        {/* Undo - the other players have to agree before the action is taken back */}
+        {currentUser.userId !== 'spectator' && (
+          <button
+            onClick={emitUndoRequested}
+            disabled={!!undoRequest}
+            className="w-full bg-black/80 hover:bg-black/90 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-2 rounded-lg shadow-lg text-sm flex items-center gap-2 border border-gray-700"
+          >
+            <Undo2 className="w-4 h-4" />
+            Undo Last Action
+          </button>
+        )}
+        
+        {/* Rewind - the host can take the whole turn back without asking */}
+        {sessionUserId === gameRoom.hostId && currentUser.userId !== 'spectator' && turnState?.status === 'active' && (
+          <button
+            onClick={() => {
+              if (confirm(`Rewind the game to the start of turn ${turnState.turn}? Everything done since will be undone.`)) {
+                emitTurnRewound();
+              }
+            }}
+            className="w-full bg-black/80 hover:bg-black/90 text-white px-3 py-2 rounded-lg shadow-lg text-sm flex items-center gap-2 border border-gray-700"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Rewind Turn
+          </button>
+        )}
+        
+        <AwayPlayers
+          presence={presence}
+          turnState={turnState}
+          participants={gameRoom.participants}
+          isHost={sessionUserId === gameRoom.hostId && currentUser.userId !== 'spectator'}
+          onSkipTurn={emitTurnSkipped}
+          onKick={emitPlayerKicked}
+        />
+        
+        {sessionUserId === gameRoom.hostId && currentUser.userId !== 'spectator' && gameRoom.status !== 'finished' && (
+          <HostControls
+            players={(turnState?.seats ?? []).map(userId => ({
+              userId,
+              username: gameRoom.participants.find(p => p.userId === userId)?.user.username || 'Unknown player'
+            }))}
+            currentUserId={sessionUserId}
+            status={turnState?.status}
+            onKick={emitPlayerKicked}
+            onTransferHost={emitHostTransferred}
+            onReseat={emitSeatsRearranged}
+            onPause={emitGamePaused}
+            onResume={emitGameResumed}
+          />
+        )}
+        
+        <SpectatorList
+          spectators={spectators}
+          canKick={sessionUserId === gameRoom.hostId}
+          onKick={emitSpectatorKicked}
+        />
+        
+        {/* Players can invite friends until the game is over */}
+        {gameRoom.participants.some(p => p.userId === sessionUserId) && gameRoom.status !== 'finished' && (
+          <InvitePanel gameId={gameRoom.id} />
+        )}
+        
         {/* Connection status */}
         <div className="bg-black/80 text-white px-3 py-2 rounded-lg shadow-lg">
           <div className="flex items-center gap-2 text-sm">
@@ -1330,9 +1996,92 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
             {isConnected ? 'Live Sync Active' : 'Connecting...'}
             {connectionError && <span className="text-red-400">({connectionError})</span>}
           </div>
+          {queuedActions > 0 && (
+            <div className="text-xs text-yellow-400 mt-1">
+              {queuedActions} action{queuedActions === 1 ? '' : 's'} will be sent when the connection returns
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Attach mode indicator */}
+      {attachingCardId && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[1000] bg-purple-600 text-white px-4 py-2 rounded-lg shadow-lg">
+          <div className="flex items-center gap-2">
+            <Link2 className="w-4 h-4" />
+            Click a card to attach to - click the battlefield to cancel
+          </div>
+        </div>
+      )}
+
+      {/* Card context menu */}
+      {contextMenu && (() => {
+        const menuCard = battlefieldCards.find(card => card.instanceId === contextMenu.cardId);
+        if (!menuCard) return null;
+        return (
+          <CardContextMenu
+            cardName={menuCard.name}
+            position={{ x: contextMenu.x, y: contextMenu.y }}
+            counters={menuCard.counters}
+            isAttached={!!menuCard.attachedTo}
+            onAddCounter={(counter, amount) => addCardCounter(menuCard.instanceId, counter, amount)}
+            onStartAttach={() => {
+              setAttachingCardId(menuCard.instanceId);
+              setContextMenu(null);
+            }}
+            onDetach={() => {
+              detachCard(menuCard.instanceId);
+              setContextMenu(null);
+            }}
+            onDestroy={() => {
+              removeFromBattlefield(menuCard.instanceId, 'graveyard');
+              setContextMenu(null);
+            }}
+            onExile={() => {
+              removeFromBattlefield(menuCard.instanceId, 'exile');
+              setContextMenu(null);
+            }}
+            onClose={() => setContextMenu(null)}
+          />
+        );
+      })()}
+
+      {/* Cards another player revealed */}
+      {revealedCards && (
+        <RevealedCardsPanel
+          username={gameRoom.participants.find(p => p.userId === revealedCards.playerId)?.user.username || 'A player'}
+          cards={revealedCards.cards}
+          from={revealedCards.from}
+          onClose={() => setRevealedCards(null)}
+        />
+      )}
+
+      <TokenCreatorModal
+        open={showTokenCreator}
+        onOpenChange={setShowTokenCreator}
+        onCreate={createTokens}
+      />
+
+      {gameResults && (
+        <GameOverPanel
+          results={gameResults.results}
+          turns={gameResults.turns}
+          match={gameResults.match}
+          matchOver={gameResults.matchOver}
+          currentUserId={sessionUserId}
+          onClose={() => setGameResults(null)}
+        />
+      )}
+
+      {showLibraryPanel && !isSpectating && (
+        <LibraryPanel
+          libraryCards={libraryCards}
+          onArrange={arrangeLibraryTop}
+          onSearch={searchLibrary}
+          onClose={() => setShowLibraryPanel(false)}
+        />
+      )}
+
       {/* Multi-select mode indicator */}
       {isSelecting && (
         <div className="fixed top-4 left-4 z-[1000] bg-blue-600 text-white px-4 py-2 rounded-lg shadow-lg">
@@ -1350,21 +2099,20 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
         {/* Battlefield - droppable area */}
         <Battlefield 
           cards={battlefieldCards} 
-          onCardMove={handleCardMove}
           onCardTap={handleCardTap}
+          onCardContextMenu={handleCardContextMenu}
           activeDragId={activeDragItem?.id}
           onCardHover={handleCardHover}
           onCardHoverEnd={handleCardHoverEnd}
           selectedCards={selectedCards}
           onMouseDown={handleMouseDown}
           onBattlefieldClick={handleBattlefieldClick}
-          sessionUserId={sessionUserId}
         />
         
         {/* Deck Zone - positioned in bottom right */}
-        {libraryCards.length > 0 && (
+        {(isSpectating ? viewedLibraryCount : libraryCards.length) > 0 && (
           <DeckZone 
-            cardsRemaining={libraryCards.length}
+            cardsRemaining={isSpectating ? viewedLibraryCount : libraryCards.length}
             onDeckClick={isSpectating ? () => {} : drawCard} // Disable drawing when spectating but show deck
             topCard={libraryCards[0]}
           />
@@ -1383,7 +2131,9 @@ export function PlaymatV2Multiplayer({ gameRoom, currentUser, sessionUserId, spe
         <HandZone 
           cards={handCards} // Show the hand of the currently viewed player
           onCardPlay={isSpectating ? () => {} : playCard} // Disable playing when spectating
-          onReturnToHand={returnToHand}
+          onCardReveal={isSpectating ? undefined : revealCard}
+          hiddenCount={isSpectating ? hiddenHandCount : 0}
+          revealedCardIds={isSpectating ? [] : revealedCardIds}
           onCardMouseEnter={handleCardHover}
           onCardMouseLeave={handleCardHoverEnd}
         />
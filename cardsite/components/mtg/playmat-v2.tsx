@@ -960,7 +960,6 @@ export function PlaymatV2({ initialDeck = [], initialHandCards = [], initialBatt
         <HandZone 
           cards={handCards}
           onCardPlay={playCard}
-          onReturnToHand={returnToHand}
           onCardMouseEnter={handleCardHover}
           onCardMouseLeave={handleCardHoverEnd}
         />
@@ -17,6 +17,10 @@ interface PlaytestCardProps {
   onMouseEnter?: (card: MTGCard, event: React.MouseEvent) => void;
   onMouseLeave?: () => void;
   isSelected?: boolean;
+  counters?: Record<string, number>; // e.g. { '+1/+1': 2, loyalty: 4 }
+  isToken?: boolean;
+  isAttached?: boolean; // Aura/equipment attached to another card
+  onContextMenu?: (event: React.MouseEvent) => void;
 }
 
 export function PlaytestCard({
@@ -30,7 +34,11 @@ export function PlaytestCard({
   zIndex = 10,
   onMouseEnter,
   onMouseLeave,
-  isSelected = false
+  isSelected = false,
+  counters,
+  isToken = false,
+  isAttached = false,
+  onContextMenu
 }: PlaytestCardProps) {
   // Use draggable hook with proper configuration
   const {
@@ -145,11 +153,16 @@ export function PlaytestCard({
       {...attributes}
       {...listeners}
       onClick={handleClick}
+      onContextMenu={onContextMenu ? (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onContextMenu(e);
+      } : undefined}
       onMouseEnter={(e) => !facedown && onMouseEnter?.(card, e)}
       onMouseLeave={!facedown ? onMouseLeave : undefined}
       tabIndex={0}
       role="button"
-      aria-label={`${card.name}${tapped ? ' (tapped)' : ''} - Click to ${tapped ? 'untap' : 'tap'}`}
+      aria-label={`${card.name}${isToken ? ' token' : ''}${tapped ? ' (tapped)' : ''} - Click to ${tapped ? 'untap' : 'tap'}`}
       onKeyDown={(e) => {
         if (e.key === 'Enter' || e.key === ' ') {
           e.preventDefault();
@@ -191,18 +204,33 @@ export function PlaytestCard({
           />
         ) : (
           <>
-            {/* Card image */}
-            <img
-              src={getCardImageUrl(card)}
-              alt={card.name}
-              className="w-full h-full object-cover"
-              draggable={false}
-              onError={(e) => {
-                // Fallback to card back on error
-                const target = e.target as HTMLImageElement;
-                target.src = 'https://cards.scryfall.io/normal/back/0/0/0aeebaf5-8c7d-4636-9e82-8c27447861f7.jpg';
-              }}
-            />
+            {/* Card image - tokens without art get a simple text frame */}
+            {isToken && !card.image_uris ? (
+              <div className="w-full h-full bg-gradient-to-b from-gray-700 to-gray-900 flex flex-col items-center justify-between p-2 text-white text-center">
+                <div className="text-[10px] uppercase tracking-wide text-gray-400">Token</div>
+                <div>
+                  <div className="font-bold text-sm leading-tight">{card.name}</div>
+                  {card.type_line && (
+                    <div className="text-[10px] text-gray-300 mt-1">{card.type_line}</div>
+                  )}
+                </div>
+                <div className="self-end text-sm font-bold">
+                  {card.power !== undefined && card.toughness !== undefined ? `${card.power}/${card.toughness}` : ''}
+                </div>
+              </div>
+            ) : (
+              <img
+                src={getCardImageUrl(card)}
+                alt={card.name}
+                className="w-full h-full object-cover"
+                draggable={false}
+                onError={(e) => {
+                  // Fallback to card back on error
+                  const target = e.target as HTMLImageElement;
+                  target.src = 'https://cards.scryfall.io/normal/back/0/0/0aeebaf5-8c7d-4636-9e82-8c27447861f7.jpg';
+                }}
+              />
+            )}
             
             {/* Mana cost overlay */}
             {card.mana_cost && (
@@ -213,7 +241,33 @@ export function PlaytestCard({
           </>
         )}
         
-
+        {/* Token marker for tokens that do have art */}
+        {isToken && card.image_uris && (
+          <div className="absolute top-1 left-1 bg-black/70 text-white text-[10px] uppercase px-1 py-0.5 rounded">
+            Token
+          </div>
+        )}
+        
+        {/* Attachment marker */}
+        {isAttached && (
+          <div className="absolute top-1 left-1/2 -translate-x-1/2 bg-amber-500/90 text-black text-[10px] font-bold px-1 py-0.5 rounded">
+            Attached
+          </div>
+        )}
+        
+        {/* Counters */}
+        {counters && Object.keys(counters).length > 0 && (
+          <div className="absolute bottom-1 left-1 flex flex-col gap-0.5 items-start">
+            {Object.entries(counters).map(([name, count]) => (
+              <div
+                key={name}
+                className="bg-black/80 text-white text-xs font-bold px-1.5 py-0.5 rounded-full border border-white/40"
+              >
+                {name} ×{count}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,98 @@
+'use client';
+
+import { Heart, Skull, Library } from 'lucide-react';
+import type { GameState, PlayerState } from '@/lib/game/types';
+import type { MTGCard as ScryfallCard } from '@/lib/types/mtg';
+import { GameEngine } from '@/lib/game/engine';
+
+interface ReplayBoardProps {
+  state: GameState;
+}
+
+// Recorded cards are the playmat's Scryfall cards, so their images live under image_uris
+function cardImage(card: unknown): string | undefined {
+  const scryfallCard = card as ScryfallCard;
+  return scryfallCard.image_uris?.small || scryfallCard.card_faces?.[0]?.image_uris?.small;
+}
+
+function ReplayCard({ card, tapped = false, counters }: { card: { name: string }; tapped?: boolean; counters?: Readonly<Record<string, number>> }) {
+  const imageUrl = cardImage(card);
+  return (
+    <div className={`relative flex-shrink-0 transition-transform ${tapped ? 'rotate-90 mx-3' : ''}`} title={card.name}>
+      {imageUrl ? (
+        <img src={imageUrl} alt={card.name} className="w-[63px] h-[88px] rounded object-cover" />
+      ) : (
+        <div className="w-[63px] h-[88px] rounded bg-gray-800 flex items-center justify-center text-[10px] text-center p-1">
+          {card.name}
+        </div>
+      )}
+      {counters && Object.keys(counters).length > 0 && (
+        <div className="absolute bottom-0 left-0 right-0 bg-black/80 text-[10px] text-center rounded-b">
+          {Object.entries(counters).map(([counter, amount]) => `${amount} ${counter}`).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ReplayPlayer({ player, isActive, hasPriority }: { player: PlayerState; isActive: boolean; hasPriority: boolean }) {
+  return (
+    <div className={`bg-black/60 rounded-lg border-2 p-3 text-white ${
+      isActive ? 'border-green-500' : 'border-gray-700'
+    } ${player.eliminated ? 'opacity-50' : ''}`}>
+      <div className="flex items-center justify-between mb-2 text-sm">
+        <span className="font-medium">
+          {player.username}
+          {hasPriority && <span className="ml-2 text-xs text-blue-400">priority</span>}
+        </span>
+        <span className="flex items-center gap-3">
+          <span className="flex items-center gap-1"><Heart className="w-3 h-3 text-red-400" />{player.life}</span>
+          {player.poison > 0 && <span className="flex items-center gap-1"><Skull className="w-3 h-3 text-green-400" />{player.poison}</span>}
+          <span className="flex items-center gap-1"><Library className="w-3 h-3" />{player.library.length}</span>
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 min-h-[92px] bg-white/5 rounded p-1">
+        {player.battlefield.map(card => (
+          <ReplayCard key={card.instanceId} card={card} tapped={card.tapped} counters={card.counters} />
+        ))}
+      </div>
+
+      <div className="mt-2 text-xs text-gray-400">Hand ({player.hand.length})</div>
+      <div className="flex gap-1 overflow-x-auto">
+        {player.hand.map(card => <ReplayCard key={card.instanceId} card={card} />)}
+      </div>
+
+      <div className="mt-2 grid grid-cols-3 gap-2 text-xs text-gray-400">
+        {(['graveyard', 'exile', 'command'] as const).map(zone => (
+          <div key={zone}>
+            <span className="capitalize">{zone}</span> ({player[zone].length})
+            {player[zone].length > 0 && (
+              <div className="text-gray-300 truncate">{player[zone][player[zone].length - 1].name}</div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Read-only view of every player's zones at one point in a replay
+export function ReplayBoard({ state }: ReplayBoardProps) {
+  const players = GameEngine.getTurnOrder(state)
+    .map(playerId => state.players.get(playerId)!)
+    .concat([...state.players.values()].filter(player => player.eliminated));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      {players.map(player => (
+        <ReplayPlayer
+          key={player.id}
+          player={player}
+          isActive={state.status === 'active' && state.currentPlayer === player.id}
+          hasPriority={state.status === 'active' && state.priorityPlayer === player.id}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { Eye, X } from 'lucide-react';
+import type { MTGCard } from '@/lib/types/mtg';
+
+interface RevealedCardsPanelProps {
+  username: string;
+  cards: MTGCard[];
+  from: 'hand' | 'library';
+  onClose: () => void;
+}
+
+// Shows the cards another player just revealed from their hand or the top of their library
+export function RevealedCardsPanel({ username, cards, from, onClose }: RevealedCardsPanelProps) {
+  return (
+    <div className="fixed top-20 left-1/2 -translate-x-1/2 z-[1000] bg-gray-900/95 border border-gray-700 rounded-lg shadow-2xl p-3 text-white max-w-[90vw]">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Eye className="w-4 h-4" />
+          {from === 'library'
+            ? `${username} revealed the top card of their library`
+            : `${username} revealed ${cards.length === 1 ? 'a card' : `${cards.length} cards`}`}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:bg-white/10"
+          aria-label="Dismiss revealed cards"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex gap-2 overflow-x-auto">
+        {cards.map((card, index) => {
+          const imageUrl = card.image_uris?.normal || card.card_faces?.[0]?.image_uris?.normal;
+          return imageUrl ? (
+            <img
+              key={`${card.id}-${index}`}
+              src={imageUrl}
+              alt={card.name}
+              className="w-[120px] h-[167px] rounded-md object-cover flex-shrink-0"
+            />
+          ) : (
+            <div
+              key={`${card.id}-${index}`}
+              className="w-[120px] h-[167px] rounded-md bg-gray-800 flex items-center justify-center text-xs text-center p-2 flex-shrink-0"
+            >
+              {card.name}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
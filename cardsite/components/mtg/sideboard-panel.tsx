@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowLeftRight, Check, RotateCcw } from 'lucide-react';
+import type { MTGCard } from '@/lib/types/mtg';
+import type { TurnState } from '@/hooks/use-socket';
+
+interface SideboardParticipant {
+  userId: string;
+  user: {
+    username: string;
+  };
+}
+
+interface SideboardPanelProps {
+  turnState: TurnState;
+  participants: SideboardParticipant[];
+  currentUserId: string;
+  mainboard: MTGCard[];
+  sideboard: MTGCard[];
+  onSubmit: (mainboard: MTGCard[], sideboard: MTGCard[]) => void;
+}
+
+// Copies of the same card listed once, in the order they first appear
+function groupByName(cards: MTGCard[]): { name: string; cards: MTGCard[] }[] {
+  const groups = new Map<string, MTGCard[]>();
+  cards.forEach(card => groups.set(card.name, [...(groups.get(card.name) ?? []), card]));
+  return [...groups.entries()].map(([name, copies]) => ({ name, cards: copies }));
+}
+
+// Between games of a match: swap cards between the deck and the sideboard, keeping the deck the same size
+export function SideboardPanel({ turnState, participants, currentUserId, mainboard, sideboard, onSubmit }: SideboardPanelProps) {
+  const [deck, setDeck] = useState(mainboard);
+  const [side, setSide] = useState(sideboard);
+
+  const nextGame = (turnState.match?.gameNumber ?? 1) + 1;
+  // The turn order leaves out the loser of the last game, so go by everyone in the game
+  const waitingOn = Object.keys(turnState.mulligans)
+    .filter(playerId => !turnState.sideboarded.includes(playerId))
+    .map(playerId => participants.find(p => p.userId === playerId)?.user.username || 'Unknown player');
+
+  // Spectators and players who are ready just see who the next game is waiting on
+  if (!(currentUserId in turnState.mulligans) || turnState.sideboarded.includes(currentUserId)) {
+    return (
+      <div className="fixed top-28 left-1/2 -translate-x-1/2 z-[900] bg-black/80 text-white px-4 py-2 rounded-lg shadow-lg border border-gray-700 text-sm">
+        Waiting for {waitingOn.join(', ')} to sideboard for game {nextGame}
+      </div>
+    );
+  }
+
+  const move = (card: MTGCard, toSideboard: boolean) => {
+    if (toSideboard) {
+      setDeck(prev => prev.filter(c => c.id !== card.id));
+      setSide(prev => [...prev, card]);
+    } else {
+      setSide(prev => prev.filter(c => c.id !== card.id));
+      setDeck(prev => [...prev, card]);
+    }
+  };
+
+  const reset = () => {
+    setDeck(mainboard);
+    setSide(sideboard);
+  };
+
+  const column = (title: string, cards: MTGCard[], toSideboard: boolean) => (
+    <div className="flex-1 min-w-0">
+      <div className="text-xs text-gray-400 mb-1">{title} ({cards.length})</div>
+      <div className="h-64 overflow-y-auto space-y-0.5 pr-1">
+        {groupByName(cards).map(group => (
+          <button
+            key={group.name}
+            onClick={() => move(group.cards[group.cards.length - 1], toSideboard)}
+            className="w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-left text-sm hover:bg-white/10"
+            title={toSideboard ? 'Move one copy to the sideboard' : 'Move one copy into the deck'}
+          >
+            <span className="truncate">{group.name}</span>
+            <span className="text-gray-400">{group.cards.length}</span>
+          </button>
+        ))}
+        {cards.length === 0 && <div className="text-xs text-gray-500 px-2 py-1">No cards</div>}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed top-28 left-1/2 -translate-x-1/2 z-[1000] bg-gray-900/95 border border-gray-700 rounded-lg shadow-2xl p-3 text-white w-[36rem] max-w-[90vw]">
+      <div className="flex items-center justify-between gap-4 mb-2 text-sm">
+        <span className="flex items-center gap-2 font-medium">
+          <ArrowLeftRight className="w-4 h-4" />
+          Sideboarding for game {nextGame}
+        </span>
+        <span className="text-xs text-gray-400">Click a card to move one copy across</span>
+      </div>
+
+      <div className="flex gap-3">
+        {column('Deck', deck, true)}
+        {column('Sideboard', side, false)}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 mt-3">
+        <span className={`text-xs ${deck.length === mainboard.length ? 'text-gray-400' : 'text-red-400'}`}>
+          Your deck needs {mainboard.length} cards
+        </span>
+        <div className="flex gap-2">
+          <button
+            onClick={reset}
+            className="flex items-center gap-1 px-3 py-1.5 rounded bg-gray-700 hover:bg-gray-600 text-sm"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset
+          </button>
+          <button
+            onClick={() => onSubmit(deck, side)}
+            disabled={deck.length !== mainboard.length}
+            className="flex items-center gap-1 px-3 py-1.5 rounded bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            <Check className="w-4 h-4" />
+            Ready
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
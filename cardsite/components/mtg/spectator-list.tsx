@@ -0,0 +1,49 @@
+'use client';
+
+import { useState } from 'react';
+import { Eye, UserX } from 'lucide-react';
+import type { Spectator } from '@/hooks/use-socket';
+
+interface SpectatorListProps {
+  spectators: Spectator[];
+  canKick: boolean;
+  onKick: (spectatorId: string) => void;
+}
+
+// Who is watching the game; the host can remove anyone from the list
+export function SpectatorList({ spectators, canKick, onKick }: SpectatorListProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="bg-black/80 text-white rounded-lg shadow-lg text-sm border border-gray-700">
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        disabled={spectators.length === 0}
+        className="w-full px-3 py-2 flex items-center gap-2 disabled:cursor-default"
+      >
+        <Eye className="w-4 h-4" />
+        {spectators.length} watching
+      </button>
+
+      {expanded && spectators.length > 0 && (
+        <ul className="border-t border-gray-700 px-3 py-2 space-y-1">
+          {spectators.map(spectator => (
+            <li key={spectator.userId} className="flex items-center justify-between gap-2">
+              <span className="truncate">{spectator.username}</span>
+              {canKick && (
+                <button
+                  onClick={() => onKick(spectator.userId)}
+                  className="p-1 rounded hover:bg-white/10 text-red-400"
+                  title={`Remove ${spectator.username}`}
+                  aria-label={`Remove ${spectator.username}`}
+                >
+                  <UserX className="w-3 h-3" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+export interface TokenDetails {
+  name: string;
+  type_line?: string;
+  power?: string;
+  toughness?: string;
+}
+
+interface TokenCreatorModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (token: TokenDetails, quantity: number) => void;
+}
+
+const initialTokenData = {
+  name: '',
+  typeLine: 'Token Creature',
+  power: '1',
+  toughness: '1',
+  quantity: 1
+};
+
+export function TokenCreatorModal({ open, onOpenChange, onCreate }: TokenCreatorModalProps) {
+  const [tokenData, setTokenData] = useState(initialTokenData);
+
+  const handleCreate = () => {
+    if (!tokenData.name.trim()) return;
+
+    onCreate({
+      name: tokenData.name.trim(),
+      type_line: tokenData.typeLine.trim() || undefined,
+      power: tokenData.power.trim() || undefined,
+      toughness: tokenData.toughness.trim() || undefined
+    }, tokenData.quantity);
+
+    setTokenData(initialTokenData);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="text-white">Create Token</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Put one or more tokens onto your battlefield.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Name
+            </label>
+            <Input
+              value={tokenData.name}
+              onChange={(e) => setTokenData({ ...tokenData, name: e.target.value })}
+              placeholder="e.g. Soldier, Treasure..."
+              className="bg-gray-800 border-gray-600 text-white"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Type Line
+            </label>
+            <Input
+              value={tokenData.typeLine}
+              onChange={(e) => setTokenData({ ...tokenData, typeLine: e.target.value })}
+              className="bg-gray-800 border-gray-600 text-white"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Power
+              </label>
+              <Input
+                value={tokenData.power}
+                onChange={(e) => setTokenData({ ...tokenData, power: e.target.value })}
+                className="bg-gray-800 border-gray-600 text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Toughness
+              </label>
+              <Input
+                value={tokenData.toughness}
+                onChange={(e) => setTokenData({ ...tokenData, toughness: e.target.value })}
+                className="bg-gray-800 border-gray-600 text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Quantity
+              </label>
+              <Input
+                type="number"
+                min={1}
+                max={20}
+                value={tokenData.quantity}
+                onChange={(e) => setTokenData({ ...tokenData, quantity: Math.min(20, Math.max(1, parseInt(e.target.value) || 1)) })}
+                className="bg-gray-800 border-gray-600 text-white"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="border-gray-600 text-gray-300"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={!tokenData.name.trim()}
+            >
+              Create
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
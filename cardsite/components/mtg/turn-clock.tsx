@@ -0,0 +1,45 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+import type { TurnClock as TurnClockState } from '@/lib/game/presence';
+
+interface TurnClockProps {
+  clock: TurnClockState;
+}
+
+function formatRemaining(ms: number) {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Counts the active player's turn time down from when the server last sent it, so the
+// player's own clock being off doesn't matter
+export function TurnClock({ clock }: TurnClockProps) {
+  const [receivedAt, setReceivedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setReceivedAt(Date.now());
+    setNow(Date.now());
+    if (!clock.running) return;
+
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(tick);
+  }, [clock]);
+
+  const remaining = clock.running ? Math.max(0, clock.remaining - (now - receivedAt)) : clock.remaining;
+  const urgent = remaining <= Math.min(30 * 1000, clock.limit / 4);
+
+  return (
+    <span
+      className={`flex items-center gap-1 text-xs tabular-nums ${
+        remaining === 0 ? 'text-red-400' : urgent ? 'text-yellow-400' : 'text-gray-300'
+      }`}
+      title="Time left this turn"
+    >
+      <Timer className="w-3 h-3" />
+      {remaining === 0 ? 'Out of time' : formatRemaining(remaining)}
+    </span>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { Play, SkipForward, ChevronsRight, Hand } from 'lucide-react';
+import type { GamePhase, TurnAction, TurnState } from '@/hooks/use-socket';
+import type { TurnClock as TurnClockState } from '@/lib/game/presence';
+import { TurnClock } from './turn-clock';
+
+interface TurnParticipant {
+  userId: string;
+  user: {
+    username: string;
+  };
+}
+
+interface TurnIndicatorProps {
+  turnState: TurnState | null;
+  turnClock?: TurnClockState | null; // Only in rooms with a turn timer
+  participants: TurnParticipant[];
+  currentUserId: string;
+  readOnly?: boolean;
+  onTurnAction: (action: TurnAction) => void;
+}
+
+const PHASE_LABELS: Record<GamePhase, string> = {
+  untap: 'Untap',
+  upkeep: 'Upkeep',
+  draw: 'Draw',
+  main1: 'Main 1',
+  combat: 'Combat',
+  main2: 'Main 2',
+  end: 'End'
+};
+
+// Shows whose turn it is, the current phase and who holds priority, with the controls for moving the game on
+export function TurnIndicator({ turnState, turnClock, participants, currentUserId, readOnly = false, onTurnAction }: TurnIndicatorProps) {
+  const usernameFor = (userId: string) =>
+    participants.find(p => p.userId === userId)?.user.username || 'Unknown player';
+
+  // In a match, which game this is and the score so far
+  const matchLabel = turnState?.match
+    ? `Game ${turnState.match.gameNumber} (best of ${turnState.match.bestOf}) · ${Object.keys(turnState.mulligans)
+      .map(playerId => `${usernameFor(playerId)} ${turnState.match?.wins[playerId] ?? 0}`)
+      .join(' - ')}`
+    : null;
+
+  if (!turnState || turnState.status === 'waiting') {
+    return (
+      <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[900] bg-black/80 text-white px-4 py-2 rounded-lg shadow-lg border border-gray-700 flex items-center gap-3 text-sm">
+        <span className="text-gray-300">{matchLabel ? `${matchLabel} · waiting to start` : 'Waiting for the game to start'}</span>
+        {!readOnly && (
+          <button
+            onClick={() => onTurnAction('game-started')}
+            className="flex items-center gap-1 bg-green-600 hover:bg-green-700 px-3 py-1 rounded"
+          >
+            <Play className="w-3 h-3" />
+            Start Game
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  // Opening hands are being kept or mulliganed; the mulligan panel has the choices
+  if (turnState.status === 'mulligan') {
+    return (
+      <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[900] bg-black/80 text-white px-4 py-2 rounded-lg shadow-lg border border-gray-700 text-sm">
+        Mulligans
+      </div>
+    );
+  }
+
+  if (turnState.status === 'ended') {
+    return (
+      <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[900] bg-black/80 text-white px-4 py-2 rounded-lg shadow-lg border border-gray-700 text-sm">
+        {matchLabel ? `Match over · ${matchLabel}` : `Game over after ${turnState.turn} turn${turnState.turn === 1 ? '' : 's'}`}
+      </div>
+    );
+  }
+
+  // Nothing moves until the host resumes the game
+  if (turnState.status === 'paused') {
+    return (
+      <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[900] bg-black/80 text-white px-4 py-2 rounded-lg shadow-lg border-2 border-yellow-500 text-sm">
+        <span className="flex items-center gap-3">
+          Paused by the host · turn {turnState.turn}
+          {turnClock && <TurnClock clock={turnClock} />}
+        </span>
+      </div>
+    );
+  }
+
+  // Between games of a match; the sideboard panel has the choices
+  if (turnState.status === 'sideboarding') {
+    return (
+      <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[900] bg-black/80 text-white px-4 py-2 rounded-lg shadow-lg border border-gray-700 text-sm">
+        Sideboarding · {matchLabel}
+      </div>
+    );
+  }
+
+  const isMyTurn = turnState.currentPlayer === currentUserId;
+  const hasPriority = turnState.priorityPlayer === currentUserId;
+
+  return (
+    <div className={`fixed top-4 left-1/2 -translate-x-1/2 z-[900] bg-black/80 text-white px-4 py-2 rounded-lg shadow-lg text-sm border-2 ${
+      isMyTurn ? 'border-green-500' : 'border-gray-700'
+    }`}>
+      <div className="flex items-center gap-3">
+        <span className="font-medium">
+          Turn {turnState.turn}: {isMyTurn ? 'Your turn' : `${usernameFor(turnState.currentPlayer)}'s turn`}
+        </span>
+        <span className="flex items-center gap-1 text-xs text-gray-300">
+          <Hand className="w-3 h-3" />
+          {hasPriority ? 'You have priority' : `${usernameFor(turnState.priorityPlayer)} has priority`}
+        </span>
+        {turnClock && <TurnClock clock={turnClock} />}
+      </div>
+
+      <div className="flex items-center gap-1 mt-2">
+        {(Object.keys(PHASE_LABELS) as GamePhase[]).map(phase => (
+          <span
+            key={phase}
+            className={`px-2 py-0.5 rounded text-xs ${
+              phase === turnState.phase ? 'bg-blue-600 text-white' : 'bg-white/5 text-gray-400'
+            }`}
+          >
+            {PHASE_LABELS[phase]}
+          </span>
+        ))}
+      </div>
+
+      {!readOnly && (hasPriority || isMyTurn) && (
+        <div className="flex items-center gap-2 mt-2">
+          {hasPriority && (
+            <button
+              onClick={() => onTurnAction('priority-passed')}
+              className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-2 py-1 rounded text-xs"
+            >
+              <ChevronsRight className="w-3 h-3" />
+              Pass Priority
+            </button>
+          )}
+          {isMyTurn && (
+            <>
+              <button
+                onClick={() => onTurnAction('phase-advanced')}
+                className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-2 py-1 rounded text-xs"
+              >
+                <ChevronsRight className="w-3 h-3" />
+                Next Phase
+              </button>
+              <button
+                onClick={() => onTurnAction('turn-ended')}
+                className="flex items-center gap-1 bg-green-600 hover:bg-green-700 px-2 py-1 rounded text-xs"
+              >
+                <SkipForward className="w-3 h-3" />
+                End Turn
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
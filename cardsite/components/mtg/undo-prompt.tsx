@@ -0,0 +1,71 @@
+'use client';
+
+import { Check, X, Undo2 } from 'lucide-react';
+import type { UndoRequest } from '@/hooks/use-socket';
+
+interface UndoParticipant {
+  userId: string;
+  user: {
+    username: string;
+  };
+}
+
+interface UndoPromptProps {
+  undoRequest: UndoRequest | null;
+  notice: string | null; // How the last request or rewind turned out
+  participants: UndoParticipant[];
+  currentUserId: string;
+  onRespond: (requestId: string, approve: boolean) => void;
+}
+
+// Asks the other players to approve an undo, and tells everyone how it turned out
+export function UndoPrompt({ undoRequest, notice, participants, currentUserId, onRespond }: UndoPromptProps) {
+  const usernameFor = (userId: string) =>
+    participants.find(p => p.userId === userId)?.user.username || 'Unknown player';
+
+  if (!undoRequest && !notice) return null;
+
+  if (!undoRequest) {
+    return (
+      <div className="fixed top-28 left-1/2 -translate-x-1/2 z-[950] bg-black/80 text-white px-4 py-2 rounded-lg shadow-lg border border-gray-700 text-sm">
+        {notice}
+      </div>
+    );
+  }
+
+  const isRequester = undoRequest.playerId === currentUserId;
+  const mustAnswer = undoRequest.waitingOn.includes(currentUserId);
+
+  return (
+    <div className="fixed top-28 left-1/2 -translate-x-1/2 z-[950] bg-black/90 text-white px-4 py-3 rounded-lg shadow-lg border-2 border-yellow-500 text-sm max-w-md">
+      <div className="flex items-center gap-2 font-medium">
+        <Undo2 className="w-4 h-4 text-yellow-400" />
+        {isRequester ? 'You asked to undo' : `${usernameFor(undoRequest.playerId)} wants to undo`}
+      </div>
+      <div className="mt-1 text-gray-300">{undoRequest.description}</div>
+
+      {mustAnswer ? (
+        <div className="flex items-center gap-2 mt-3">
+          <button
+            onClick={() => onRespond(undoRequest.requestId, true)}
+            className="flex items-center gap-1 bg-green-600 hover:bg-green-700 px-3 py-1 rounded"
+          >
+            <Check className="w-3 h-3" />
+            Allow
+          </button>
+          <button
+            onClick={() => onRespond(undoRequest.requestId, false)}
+            className="flex items-center gap-1 bg-red-600 hover:bg-red-700 px-3 py-1 rounded"
+          >
+            <X className="w-3 h-3" />
+            Decline
+          </button>
+        </div>
+      ) : (
+        <div className="mt-2 text-xs text-gray-400">
+          Waiting for {undoRequest.waitingOn.map(usernameFor).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useReducer, useCallback, useRef } from 'react'
 import { GameEngine } from '@/lib/game/engine'
-import { GameState, GameAction, GameResult, PlayerId } from '@/lib/game/types'
+import { GameState, GameAction, GameResult, PlayerId, InstanceId, Zone, TokenDefinition } from '@/lib/game/types'
 
 interface UseGameStateOptions {
   initialState: GameState
@@ -14,6 +14,14 @@ interface GameStateActions {
   tapCard: (playerId: PlayerId, cardId: string, tapped: boolean) => GameResult<GameState>
   moveCard: (playerId: PlayerId, cardId: string, position: { x: number, y: number }) => GameResult<GameState>
   returnToHand: (playerId: PlayerId, cardId: string) => GameResult<GameState>
+  moveToZone: (playerId: PlayerId, cardId: string, from: Zone, to: Zone, position?: { x: number, y: number }) => GameResult<GameState>
+  addCounter: (playerId: PlayerId, cardId: string, counter: string, amount: number) => GameResult<GameState>
+  createToken: (playerId: PlayerId, instanceId: string, token: TokenDefinition, position: { x: number, y: number }) => GameResult<GameState>
+  attachCard: (playerId: PlayerId, cardId: string, targetId: string) => GameResult<GameState>
+  detachCard: (playerId: PlayerId, cardId: string) => GameResult<GameState>
+  changeLife: (playerId: PlayerId, amount: number) => GameResult<GameState>
+  changePoison: (playerId: PlayerId, amount: number) => GameResult<GameState>
+  dealCommanderDamage: (playerId: PlayerId, sourcePlayerId: PlayerId, amount: number) => GameResult<GameState>
   dispatch: (action: GameAction) => GameResult<GameState>
 }
 
@@ -112,6 +120,45 @@ export function useGameState({
       })
     }, [dispatch]),
 
+    moveToZone: useCallback((playerId: PlayerId, cardId: string, from: Zone, to: Zone, position?: { x: number, y: number }) => {
+      return dispatch({ 
+        type: 'MOVE_TO_ZONE', 
+        playerId, 
+        cardId: cardId as InstanceId, 
+        from, 
+        to, 
+        position 
+      })
+    }, [dispatch]),
+
+    addCounter: useCallback((playerId: PlayerId, cardId: string, counter: string, amount: number) => {
+      return dispatch({ type: 'ADD_COUNTER', playerId, cardId: cardId as InstanceId, counter, amount })
+    }, [dispatch]),
+
+    createToken: useCallback((playerId: PlayerId, instanceId: string, token: TokenDefinition, position: { x: number, y: number }) => {
+      return dispatch({ type: 'CREATE_TOKEN', playerId, instanceId: instanceId as InstanceId, token, position })
+    }, [dispatch]),
+
+    attachCard: useCallback((playerId: PlayerId, cardId: string, targetId: string) => {
+      return dispatch({ type: 'ATTACH_CARD', playerId, cardId: cardId as InstanceId, targetId: targetId as InstanceId })
+    }, [dispatch]),
+
+    detachCard: useCallback((playerId: PlayerId, cardId: string) => {
+      return dispatch({ type: 'DETACH_CARD', playerId, cardId: cardId as InstanceId })
+    }, [dispatch]),
+
+    changeLife: useCallback((playerId: PlayerId, amount: number) => {
+      return dispatch({ type: 'CHANGE_LIFE', playerId, amount })
+    }, [dispatch]),
+
+    changePoison: useCallback((playerId: PlayerId, amount: number) => {
+      return dispatch({ type: 'CHANGE_POISON', playerId, amount })
+    }, [dispatch]),
+
+    dealCommanderDamage: useCallback((playerId: PlayerId, sourcePlayerId: PlayerId, amount: number) => {
+      return dispatch({ type: 'COMMANDER_DAMAGE', playerId, sourcePlayerId, amount })
+    }, [dispatch]),
+
     dispatch
   }
 
@@ -136,4 +183,9 @@ export function useHandCards(gameState: GameState, playerId: PlayerId) {
 export function useLibraryCards(gameState: GameState, playerId: PlayerId) {
   const player = gameState.players.get(playerId)
   return player?.library || []
-} 
\ No newline at end of file
+}
+
+export function useZoneCards(gameState: GameState, playerId: PlayerId, zone: Zone) {
+  const player = gameState.players.get(playerId)
+  return player?.[zone] || []
+}
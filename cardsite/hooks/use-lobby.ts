@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { io, Socket } from 'socket.io-client';
+
+interface UseLobbyProps {
+  enabled: boolean; // Only signed-in users get a socket
+  onRoomUpdated: (room: LobbyRoom) => void;
+  onRoomClosed: (gameId: string) => void;
+  onResync: () => void; // Changes may have been missed before the lobby was (re)joined
+  onMatchFound: (gameId: string) => void;
+  onInvited: (invite: RoomInvite) => void;
+}
+
+// A room as every lobby sees it (the server's LobbyRoom, as it arrives over the wire)
+export interface LobbyRoom {
+  id: string;
+  title: string;
+  format: string;
+  players: string;
+  spectators: number;
+  host: string;
+  hostId: string;
+  playerIds: string[];
+  tags: string[];
+  powerLevel: number | null;
+  status: string;
+  isPrivate: boolean;
+  hasPassword: boolean;
+  createdAt: string;
+}
+
+// A friend inviting this player into their room
+export interface RoomInvite {
+  gameId: string;
+  title: string;
+  invitedBy: string;
+}
+
+export interface QueueStatus {
+  format: string;
+  waiting: number; // Everyone queued for the format, including this player
+  podSize: number;
+}
+
+// The lobby's connection: room changes pushed as they happen, and the matchmaking queue. It never joins
+// a game; the server sends match-found once a pod is seated, and the room is already set up with this player in it.
+export function useLobby({ enabled, onRoomUpdated, onRoomClosed, onResync, onMatchFound, onInvited }: UseLobbyProps) {
+  const socketRef = useRef<Socket | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const [queuedFormat, setQueuedFormat] = useState<string | null>(null);
+  const [status, setStatus] = useState<QueueStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Kept in a ref so new callbacks don't reconnect the socket
+  const callbacksRef = useRef({ onRoomUpdated, onRoomClosed, onResync, onMatchFound, onInvited });
+  callbacksRef.current = { onRoomUpdated, onRoomClosed, onResync, onMatchFound, onInvited };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const socket = io(process.env.NODE_ENV === 'development' ? 'http://localhost:3010' : '', {
+      path: '/socket.io',
+      transports: ['websocket', 'polling'],
+      timeout: 20000,
+      withCredentials: true, // The session cookie is how the server knows who this is
+      forceNew: true,
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 5000
+    });
+
+    socketRef.current = socket;
+
+    socket.on('connect', () => {
+      socket.emit('lobby-joined', {}, () => {
+        setIsConnected(true);
+        callbacksRef.current.onResync();
+      });
+    });
+
+    socket.on('room-updated', (data: { room: LobbyRoom }) => {
+      callbacksRef.current.onRoomUpdated(data.room);
+    });
+
+    socket.on('room-closed', (data: { gameId: string }) => {
+      callbacksRef.current.onRoomClosed(data.gameId);
+    });
+
+    socket.on('room-invite', (data: RoomInvite & { type: string }) => {
+      callbacksRef.current.onInvited({ gameId: data.gameId, title: data.title, invitedBy: data.invitedBy });
+    });
+
+    // The server drops a player from the queue when their socket goes away, so they have to queue again
+    socket.on('disconnect', () => {
+      setIsConnected(false);
+      setQueuedFormat(null);
+      setStatus(null);
+    });
+
+    socket.on('connect_error', (err) => {
+      setIsConnected(false);
+      setError(err.message);
+    });
+
+    socket.on('matchmaking-status', (data: QueueStatus) => {
+      setStatus(data);
+    });
+
+    socket.on('match-found', (data: { gameId: string; format: string }) => {
+      console.log('🤝 Match found:', data.gameId);
+      setQueuedFormat(null);
+      setStatus(null);
+      callbacksRef.current.onMatchFound(data.gameId);
+    });
+
+    socket.on('action-rejected', (data: { event: string; message: string }) => {
+      if (data.event.startsWith('matchmaking-')) {
+        setError(data.message);
+      }
+    });
+
+    return () => {
+      socket.disconnect();
+      socketRef.current = null;
+      setIsConnected(false);
+      setQueuedFormat(null);
+      setStatus(null);
+    };
+  }, [enabled]);
+
+  // Queueing again (say, with another deck or format) replaces the earlier place in the queue
+  const findGame = useCallback((format: string, deckId: string, powerLevel?: number) => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+
+    setError(null);
+    socket.emit('matchmaking-joined', { format, deckId, powerLevel }, (response: { queued: boolean }) => {
+      setQueuedFormat(response.queued ? format : null);
+    });
+  }, []);
+
+  const cancel = useCallback(() => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+
+    socket.emit('matchmaking-left', {}, () => {
+      setQueuedFormat(null);
+      setStatus(null);
+    });
+  }, []);
+
+  return {
+    isConnected,
+    queuedFormat,
+    status: status && status.format === queuedFormat ? status : null,
+    error,
+    findGame,
+    cancel,
+  };
+}
@@ -1,15 +1,105 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
+import type { MTGCard } from '@/lib/types/mtg';
+import { HEARTBEAT_INTERVAL, type PlayerPresence, type TurnClock } from '@/lib/game/presence';
 
 interface UseSocketProps {
   gameId: string;
+  userId: string; // Must be the signed-in user; the server only knows the socket by its session
+  format: string;
+  spectator?: boolean; // Watch without a seat: read-only, public information only
+}
+
+export interface Spectator {
   userId: string;
   username: string;
 }
 
+export interface PlayerCounters {
+  life: number;
+  poison: number;
+  commanderDamage: Record<string, number>; // Keyed by the player whose commander dealt the damage
+  eliminated: boolean;
+}
+
+export type GamePhase = 'untap' | 'upkeep' | 'draw' | 'main1' | 'combat' | 'main2' | 'end';
+
+export interface MulliganStatus {
+  mulligans: number;
+  kept: boolean;
+  cardsToBottom: number; // London: cards to put on the bottom when keeping
+  canScry: boolean; // Vancouver: keeping after a mulligan comes with a scry 1
+}
+
+export interface TurnState {
+  status: 'waiting' | 'mulligan' | 'active' | 'paused' | 'sideboarding' | 'ended';
+  turn: number;
+  phase: GamePhase;
+  currentPlayer: string; // Active player
+  priorityPlayer: string;
+  turnOrder: string[]; // Living players in seat order
+  seats: string[]; // Every player in seat order, including those who are out
+  mulliganRules: { type: 'london' | 'vancouver'; freeFirstMulligan: boolean };
+  mulligans: Record<string, MulliganStatus>;
+  match?: MatchState; // Only for rooms playing a best-of-three match
+  sideboarded: string[]; // Between games of a match, players who have settled on their next deck
+}
+
+export interface MatchState {
+  bestOf: number;
+  gameNumber: number;
+  wins: Record<string, number>;
+  startingPlayer?: string; // The loser of the previous game goes first
+}
+
+export interface UndoRequest {
+  requestId: string;
+  playerId: string; // The player taking their action back
+  seq: number;
+  description: string;
+  waitingOn: string[]; // Players who still have to approve
+}
+
+export interface GameMessage {
+  id: string;
+  kind: 'chat' | 'log';
+  userId: string | null;
+  username: string | null;
+  seq: number | null; // The game event a log line describes
+  body: string; // Log lines never name cards the other players couldn't see
+  createdAt: string;
+}
+
+// Where each player finished, sent to everyone once at most one player is left
+export interface GameEndResult {
+  playerId: string;
+  username: string;
+  placement: number; // 1 is the winner
+  conceded: boolean;
+}
+
+export type TurnAction = 'game-started' | 'phase-advanced' | 'turn-ended' | 'priority-passed';
+
 interface GameState {
-  battlefieldCards: any[];
+  battlefieldCards: any[]; // Every player's battlefield, each card tagged with its playerId
   participants: string[];
+  playerCounters: Record<string, PlayerCounters>;
+  turnState: TurnState;
+  turnClock: TurnClock | null; // Only for rooms with a turn timer, while a turn is being played
+  presence: PlayerPresence[]; // Players who are away from the table
+  handCards: (MTGCard & { instanceId: string })[]; // The receiving player's own hand and library
+  libraryCards: MTGCard[];
+  revealedCardIds: string[]; // Cards in the receiving player's hand that every player can see
+  shuffleCommitment: string | null; // SHA-256 of the game's shuffle seed, revealed once the game ends
+  seq: number; // Sequence number of the last event applied on the server
+}
+
+export interface ActionRejection {
+  event: string;
+  code: string; // GameError code from the engine, e.g. CARD_NOT_IN_HAND, or INVALID_PAYLOAD / RATE_LIMITED
+  message: string;
+  details?: { path: string; message: string }[]; // Which fields of an INVALID_PAYLOAD were wrong
+  retryAfter?: number; // Seconds until a RATE_LIMITED socket may act again
 }
 
 interface SocketEvents {
@@ -17,44 +107,111 @@ interface SocketEvents {
   onCardTapped: (data: { cardId: string; tapped: boolean; playerId: string }) => void;
   onCardPlayed: (data: { card: any; position: { x: number; y: number }; playerId: string }) => void;
   onCardReturned: (data: { cardId: string; playerId: string }) => void;
-  onHandStateChanged: (data: { handCards: any[]; playerId: string }) => void;
+  onCardDestroyed: (data: { cardId: string; playerId: string }) => void;
+  onCardExiled: (data: { cardId: string; playerId: string }) => void;
+  // Opponents' handCards only hold the cards they have revealed; handCount is always the full hand
+  onHandStateChanged: (data: { handCards: any[]; handCount: number; libraryCount: number; playerId: string }) => void;
+  onCardsRevealed: (data: { cards: (MTGCard & { instanceId: string })[]; playerId: string; from: 'hand' | 'library' }) => void;
+  // libraryCards is only filled in for the player whose library was shuffled
+  onLibraryShuffled: (data: { libraryCards: MTGCard[]; libraryCount: number; playerId: string }) => void;
+  onCardCounterChanged: (data: { cardId: string; counter: string; amount: number; playerId: string }) => void;
+  onTokenCreated: (data: { card: any; position: { x: number; y: number }; playerId: string }) => void;
+  onCardAttached: (data: { cardId: string; targetId: string | null; playerId: string }) => void;
+  onPlayerCountersChanged: (data: { playerId: string; counters: PlayerCounters }) => void;
+  onTurnStateChanged: (data: TurnState) => void;
+  onTurnClockChanged: (data: { clock: TurnClock | null }) => void;
+  onPresenceChanged: (data: { presence: PlayerPresence[] }) => void;
   onPlayerJoined: (data: { userId: string; username: string; socketId: string }) => void;
+  onSpectatorsChanged: (data: { spectators: Spectator[] }) => void;
+  onRemovedFromGame: (data: { gameId: string; message: string }) => void;
+  onRoomChanged: (data: { gameId: string }) => void; // The host changed the players, the host or the seating
+  onUndoRequested: (data: UndoRequest) => void;
+  onUndoResolved: (data: { requestId: string; approved: boolean; message: string }) => void;
+  onTurnRewound: (data: { playerId: string; turn: number }) => void;
+  onGameMessage: (data: GameMessage) => void;
+  onGameMessages: (data: { messages: GameMessage[] }) => void; // The history, sent on every (re)join
   onGameState: (data: GameState) => void;
+  onGameEnded: (data: { results: GameEndResult[]; turns: number; match: MatchState | null; matchOver: boolean }) => void;
+  onActionRejected: (data: ActionRejection) => void;
 }
 
-export function useSocket({ gameId, userId, username }: UseSocketProps) {
+interface QueuedEmit {
+  event: string;
+  data: Record<string, unknown>;
+}
+
+export function useSocket({ gameId, userId, format, spectator = false }: UseSocketProps) {
   const socketRef = useRef<Socket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [connectionError, setConnectionError] = useState<string | null>(null);
+  const [queuedActions, setQueuedActions] = useState(0);
+
+  // The last server seq this client has seen (null until the first game-state), sent when rejoining
+  const lastSeqRef = useRef<number | null>(null);
+  // Whether the server has acknowledged join-game on the current connection
+  const joinedRef = useRef(false);
+  // Game actions taken while the connection was down, sent in order once the game is rejoined
+  const offlineQueueRef = useRef<QueuedEmit[]>([]);
 
   // Initialize real Socket.IO connection
   useEffect(() => {
     console.log('🔌 Initializing Socket.IO connection for game:', gameId);
+    lastSeqRef.current = null;
+    joinedRef.current = false;
+    offlineQueueRef.current = [];
     
     // Create socket connection
     const socket = io(process.env.NODE_ENV === 'development' ? 'http://localhost:3010' : '', {
       path: '/socket.io',
       transports: ['websocket', 'polling'],
       timeout: 20000,
-      forceNew: true
+      withCredentials: true, // The session cookie is how the server knows who this is
+      forceNew: true,
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 5000
     });
 
     socketRef.current = socket;
 
-    // Connection event handlers
+    // Every event that carries a seq moves the client forward
+    socket.onAny((_event, data) => {
+      if (typeof data?.seq === 'number' && data.seq > (lastSeqRef.current ?? -1)) {
+        lastSeqRef.current = data.seq;
+      }
+    });
+
+    // Connection event handlers (also run on every reconnect)
     socket.on('connect', () => {
       console.log('✅ Socket.IO connected:', socket.id);
       setIsConnected(true);
       setConnectionError(null);
       
-      // Join the game room
-      socket.emit('join-game', { gameId, userId, username });
+      // Join the game room; a rejoining client sends what it last saw, flushes its queue, then catches up
+      const lastSeq = lastSeqRef.current;
+      socket.emit('join-game', { gameId, format, spectator, lastSeq: lastSeq ?? undefined }, () => {
+        joinedRef.current = true;
+        if (lastSeq === null) return;
+        
+        const queued = offlineQueueRef.current;
+        offlineQueueRef.current = [];
+        setQueuedActions(0);
+        queued.forEach(({ event, data }) => socket.emit(event, data));
+        
+        socket.emit('request-game-state', { gameId, lastSeq });
+      });
     });
 
     socket.on('disconnect', (reason) => {
       console.log('❌ Socket.IO disconnected:', reason);
+      joinedRef.current = false;
       setIsConnected(false);
-      setConnectionError(`Disconnected: ${reason}`);
+      
+      // The server only hangs up on purpose; anything else is retried automatically
+      setConnectionError(reason === 'io server disconnect' ? `Disconnected: ${reason}` : 'Reconnecting...');
+    });
+
+    socket.io.on('reconnect_attempt', (attempt) => {
+      setConnectionError(`Reconnecting (attempt ${attempt})...`);
     });
 
     socket.on('connect_error', (error) => {
@@ -63,15 +220,24 @@ export function useSocket({ gameId, userId, username }: UseSocketProps) {
       setConnectionError(error.message);
     });
 
+    // Players keep telling the server they are still at the table; one that goes quiet is marked as disconnected
+    const heartbeat = setInterval(() => {
+      if (!spectator && socket.connected && joinedRef.current) {
+        socket.emit('heartbeat', { gameId });
+      }
+    }, HEARTBEAT_INTERVAL);
+
     // Cleanup on unmount
     return () => {
       console.log('🧹 Cleaning up Socket.IO connection');
+      clearInterval(heartbeat);
       if (socket) {
         socket.disconnect();
       }
       setIsConnected(false);
+      setQueuedActions(0);
     };
-  }, [gameId, userId, username]);
+  }, [gameId, userId, format, spectator]);
 
   // Socket event subscription with real events
   const subscribeToEvents = useCallback((events: SocketEvents) => {
@@ -88,9 +254,30 @@ export function useSocket({ gameId, userId, username }: UseSocketProps) {
     socket.on('card-tapped', events.onCardTapped);
     socket.on('card-played', events.onCardPlayed);
     socket.on('card-returned', events.onCardReturned);
+    socket.on('card-destroyed', events.onCardDestroyed);
+    socket.on('card-exiled', events.onCardExiled);
     socket.on('hand-state-changed', events.onHandStateChanged);
+    socket.on('cards-revealed', events.onCardsRevealed);
+    socket.on('library-shuffled', events.onLibraryShuffled);
+    socket.on('card-counter-changed', events.onCardCounterChanged);
+    socket.on('token-created', events.onTokenCreated);
+    socket.on('card-attached', events.onCardAttached);
+    socket.on('player-counters-changed', events.onPlayerCountersChanged);
+    socket.on('turn-state-changed', events.onTurnStateChanged);
+    socket.on('turn-clock-changed', events.onTurnClockChanged);
+    socket.on('presence-changed', events.onPresenceChanged);
     socket.on('player-joined', events.onPlayerJoined);
+    socket.on('spectators-changed', events.onSpectatorsChanged);
+    socket.on('removed-from-game', events.onRemovedFromGame);
+    socket.on('room-changed', events.onRoomChanged);
+    socket.on('undo-requested', events.onUndoRequested);
+    socket.on('undo-resolved', events.onUndoResolved);
+    socket.on('turn-rewound', events.onTurnRewound);
+    socket.on('game-message', events.onGameMessage);
+    socket.on('game-messages', events.onGameMessages);
     socket.on('game-state', events.onGameState);
+    socket.on('game-ended', events.onGameEnded);
+    socket.on('action-rejected', events.onActionRejected);
 
     // Return cleanup function
     return () => {
@@ -99,107 +286,379 @@ export function useSocket({ gameId, userId, username }: UseSocketProps) {
       socket.off('card-tapped', events.onCardTapped);
       socket.off('card-played', events.onCardPlayed);
       socket.off('card-returned', events.onCardReturned);
+      socket.off('card-destroyed', events.onCardDestroyed);
+      socket.off('card-exiled', events.onCardExiled);
       socket.off('hand-state-changed', events.onHandStateChanged);
+      socket.off('cards-revealed', events.onCardsRevealed);
+      socket.off('library-shuffled', events.onLibraryShuffled);
+      socket.off('card-counter-changed', events.onCardCounterChanged);
+      socket.off('token-created', events.onTokenCreated);
+      socket.off('card-attached', events.onCardAttached);
+      socket.off('player-counters-changed', events.onPlayerCountersChanged);
+      socket.off('turn-state-changed', events.onTurnStateChanged);
+      socket.off('turn-clock-changed', events.onTurnClockChanged);
+      socket.off('presence-changed', events.onPresenceChanged);
       socket.off('player-joined', events.onPlayerJoined);
+      socket.off('spectators-changed', events.onSpectatorsChanged);
+      socket.off('removed-from-game', events.onRemovedFromGame);
+      socket.off('room-changed', events.onRoomChanged);
+      socket.off('undo-requested', events.onUndoRequested);
+      socket.off('undo-resolved', events.onUndoResolved);
+      socket.off('turn-rewound', events.onTurnRewound);
+      socket.off('game-message', events.onGameMessage);
+      socket.off('game-messages', events.onGameMessages);
       socket.off('game-state', events.onGameState);
+      socket.off('game-ended', events.onGameEnded);
+      socket.off('action-rejected', events.onActionRejected);
     };
   }, [isConnected]);
 
-  // Emit card movement
-  const emitCardMoved = useCallback((cardId: string, position: { x: number; y: number }) => {
+  // Game actions wait in the offline queue while the connection is down. Before the first game-state
+  // there is nothing to rejoin yet, so those are dropped as before (the playmat resends its deck itself)
+  const emitOrQueue = useCallback((event: string, data: Record<string, unknown>) => {
     const socket = socketRef.current;
-    if (!socket || !isConnected) {
-      console.warn('⚠️ Cannot emit card-moved: socket not connected');
+    if (socket && socket.connected && joinedRef.current) {
+      socket.emit(event, data);
+      return;
+    }
+
+    if (lastSeqRef.current === null) {
+      console.warn(`⚠️ Cannot emit ${event}: socket not connected`);
       return;
     }
 
-    console.log('📤 Emitting card-moved:', { cardId, position });
-    socket.emit('card-moved', { 
+    offlineQueueRef.current.push({ event, data });
+    setQueuedActions(offlineQueueRef.current.length);
+  }, []);
+
+  // Emit card movement
+  const emitCardMoved = useCallback((cardId: string, position: { x: number; y: number }) => {
+    emitOrQueue('card-moved', { 
       gameId, 
       cardId, 
       position, 
       playerId: userId 
     });
-  }, [isConnected, gameId, userId]);
+  }, [emitOrQueue, gameId, userId]);
 
   // Emit card tap/untap
   const emitCardTapped = useCallback((cardId: string, tapped: boolean) => {
-    const socket = socketRef.current;
-    if (!socket || !isConnected) {
-      console.warn('⚠️ Cannot emit card-tapped: socket not connected');
-      return;
-    }
-
-    console.log('📤 Emitting card-tapped:', { cardId, tapped });
-    socket.emit('card-tapped', { 
+    emitOrQueue('card-tapped', { 
       gameId, 
       cardId, 
       tapped, 
       playerId: userId 
     });
-  }, [isConnected, gameId, userId]);
-
-  // Emit card played from hand
-  const emitCardPlayed = useCallback((card: any, position: { x: number; y: number }) => {
-    const socket = socketRef.current;
-    if (!socket || !isConnected) {
-      console.warn('⚠️ Cannot emit card-played: socket not connected');
-      return;
-    }
+  }, [emitOrQueue, gameId, userId]);
 
-    console.log('📤 Emitting card-played:', { cardName: card.name, position });
-    socket.emit('card-played', { 
+  // Emit card played from hand (or straight from the library)
+  const emitCardPlayed = useCallback((card: any, position: { x: number; y: number }, from: 'hand' | 'library' = 'hand') => {
+    emitOrQueue('card-played', { 
       gameId, 
       card, 
       position, 
+      from,
       playerId: userId 
     });
-  }, [isConnected, gameId, userId]);
+  }, [emitOrQueue, gameId, userId]);
 
   // Emit card returned to hand
   const emitCardReturned = useCallback((cardId: string) => {
-    const socket = socketRef.current;
-    if (!socket || !isConnected) {
-      console.warn('⚠️ Cannot emit card-returned: socket not connected');
-      return;
-    }
+    emitOrQueue('card-returned', { 
+      gameId, 
+      cardId, 
+      playerId: userId 
+    });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Emit a battlefield card put into its owner's graveyard
+  const emitCardDestroyed = useCallback((cardId: string) => {
+    emitOrQueue('card-destroyed', { 
+      gameId, 
+      cardId, 
+      playerId: userId 
+    });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Emit a battlefield card exiled
+  const emitCardExiled = useCallback((cardId: string) => {
+    emitOrQueue('card-exiled', { 
+      gameId, 
+      cardId, 
+      playerId: userId 
+    });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Emit a freshly loaded deck as the player's library (the server shuffles it)
+  const emitDeckLoaded = useCallback((libraryCards: MTGCard[]) => {
+    emitOrQueue('deck-loaded', { 
+      gameId, 
+      libraryCards,
+      playerId: userId 
+    });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Emit drawing the top card of the library
+  const emitCardDrawn = useCallback(() => {
+    emitOrQueue('card-drawn', { 
+      gameId, 
+      playerId: userId 
+    });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Ask the server to shuffle the player's library
+  const emitLibraryShuffled = useCallback(() => {
+    emitOrQueue('library-shuffled', { 
+      gameId, 
+      playerId: userId 
+    });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Emit revealing one card from hand to every player
+  const emitCardRevealed = useCallback((cardId: string) => {
+    emitOrQueue('card-revealed', { 
+      gameId, 
+      cardId, 
+      playerId: userId 
+    });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Emit revealing the whole hand to every player
+  const emitHandRevealed = useCallback(() => {
+    emitOrQueue('hand-revealed', { 
+      gameId, 
+      playerId: userId 
+    });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Emit where the looked-at top cards of the library go (scry, surveil, or just looking)
+  const emitLibraryArranged = useCallback((top: string[], bottom: string[], graveyard: string[]) => {
+    emitOrQueue('library-arranged', { gameId, playerId: userId, top, bottom, graveyard });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Emit a library search; leaving cardId out means nothing was found
+  const emitLibrarySearched = useCallback((cardId?: string, to: 'hand' | 'battlefield' | 'graveyard' | 'exile' = 'hand', position?: { x: number; y: number }) => {
+    emitOrQueue('library-searched', { gameId, playerId: userId, cardId, to, position });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Emit revealing the top card of the library to every player
+  const emitLibraryTopRevealed = useCallback(() => {
+    emitOrQueue('library-top-revealed', { gameId, playerId: userId });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Emit counter change on a battlefield card
+  const emitCardCounterChanged = useCallback((cardId: string, counter: string, amount: number) => {
+    emitOrQueue('card-counter-changed', { 
+      gameId, 
+      cardId, 
+      counter, 
+      amount, 
+      playerId: userId 
+    });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Emit token creation
+  const emitTokenCreated = useCallback((card: any, position: { x: number; y: number }) => {
+    emitOrQueue('token-created', { 
+      gameId, 
+      card, 
+      position, 
+      playerId: userId 
+    });
+  }, [emitOrQueue, gameId, userId]);
 
-    console.log('📤 Emitting card-returned:', { cardId });
-    socket.emit('card-returned', { 
+  // Emit attach (targetId) or detach (null)
+  const emitCardAttached = useCallback((cardId: string, targetId: string | null) => {
+    emitOrQueue('card-attached', { 
       gameId, 
       cardId, 
+      targetId, 
       playerId: userId 
     });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Emit a turn structure action (start the game, next phase, end turn, pass priority)
+  const emitTurnAction = useCallback((action: TurnAction) => {
+    emitOrQueue(action, { 
+      gameId, 
+      playerId: userId 
+    });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Emit a mulligan: the hand is shuffled back into the library and a new one is drawn
+  // Emit leaving the game as a loss
+  const emitConceded = useCallback(() => {
+    emitOrQueue('game-conceded', { gameId, playerId: userId });
+  }, [emitOrQueue, gameId, userId]);
+
+  // The deck for the next game of a match, after sideboarding (the server shuffles it as it is accepted)
+  const emitDeckSubmitted = useCallback((libraryCards: MTGCard[]) => {
+    emitOrQueue('deck-submitted', { gameId, libraryCards, playerId: userId });
+  }, [emitOrQueue, gameId, userId]);
+
+  const emitMulligan = useCallback(() => {
+    emitOrQueue('mulligan-taken', { 
+      gameId, 
+      playerId: userId 
+    });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Emit keeping the opening hand, with the cards the mulligan rules put on the bottom
+  const emitHandKept = useCallback((bottom: string[], scryToBottom: boolean = false) => {
+    emitOrQueue('hand-kept', { 
+      gameId, 
+      bottom, 
+      scryToBottom, 
+      playerId: userId 
+    });
+  }, [emitOrQueue, gameId, userId]);
+
+  // Emit the host removing a spectator from the game
+  const emitSpectatorKicked = useCallback((spectatorId: string) => {
+    const socket = socketRef.current;
+    if (!socket || !isConnected) {
+      console.warn('⚠️ Cannot emit spectator-kicked: socket not connected');
+      return;
+    }
+
+    socket.emit('spectator-kicked', { gameId, spectatorId });
+  }, [isConnected, gameId]);
+
+  // Emit one of the host controls; the server checks the sender really is the host
+  const emitHostAction = useCallback((event: string, data: Record<string, unknown> = {}) => {
+    const socket = socketRef.current;
+    if (!socket || !isConnected) {
+      console.warn(`⚠️ Cannot emit ${event}: socket not connected`);
+      return;
+    }
+
+    socket.emit(event, { gameId, playerId: userId, ...data });
   }, [isConnected, gameId, userId]);
 
-  // Emit hand state change
-  const emitHandStateChanged = useCallback((handCards: any[], libraryCards?: any[]) => {
+  const emitPlayerKicked = useCallback((targetId: string) => {
+    emitHostAction('player-kicked', { targetId });
+  }, [emitHostAction]);
+
+  const emitHostTransferred = useCallback((targetId: string) => {
+    emitHostAction('host-transferred', { targetId });
+  }, [emitHostAction]);
+
+  // Every player in their new seat order, before the game starts
+  const emitSeatsRearranged = useCallback((order: string[]) => {
+    emitHostAction('seats-rearranged', { order });
+  }, [emitHostAction]);
+
+  const emitGamePaused = useCallback(() => {
+    emitHostAction('game-paused');
+  }, [emitHostAction]);
+
+  const emitGameResumed = useCallback(() => {
+    emitHostAction('game-resumed');
+  }, [emitHostAction]);
+
+  // End the turn of (or pass priority for) a player who has been away too long
+  const emitTurnSkipped = useCallback((targetId: string) => {
+    emitHostAction('turn-skipped', { targetId });
+  }, [emitHostAction]);
+
+  // Emit a request to take back this player's last action (the other players have to approve it)
+  const emitUndoRequested = useCallback(() => {
     const socket = socketRef.current;
     if (!socket || !isConnected) {
-      console.warn('⚠️ Cannot emit hand-state-changed: socket not connected');
+      console.warn('⚠️ Cannot emit undo-requested: socket not connected');
       return;
     }
 
-    console.log('📤 Emitting hand-state-changed:', { 
-      handCount: handCards.length, 
-      libraryCount: libraryCards?.length || 'not provided' 
-    });
-    socket.emit('hand-state-changed', { 
-      gameId, 
-      handCards, 
-      libraryCards,
-      playerId: userId 
-    });
+    socket.emit('undo-requested', { gameId, playerId: userId });
   }, [isConnected, gameId, userId]);
 
+  // Emit an answer to another player's undo request
+  const emitUndoResponse = useCallback((requestId: string, approve: boolean) => {
+    const socket = socketRef.current;
+    if (!socket || !isConnected) {
+      console.warn('⚠️ Cannot emit undo-response: socket not connected');
+      return;
+    }
+
+    socket.emit('undo-response', { gameId, requestId, approve, playerId: userId });
+  }, [isConnected, gameId, userId]);
+
+  // Emit the host rewinding the game to the start of the current turn
+  const emitTurnRewound = useCallback(() => {
+    const socket = socketRef.current;
+    if (!socket || !isConnected) {
+      console.warn('⚠️ Cannot emit turn-rewound: socket not connected');
+      return;
+    }
+
+    socket.emit('turn-rewound', { gameId });
+  }, [isConnected, gameId]);
+
+  // Emit a chat message to everyone in the game
+  const emitChatMessage = useCallback((message: string) => {
+    const socket = socketRef.current;
+    if (!socket || !isConnected) {
+      console.warn('⚠️ Cannot emit chat-message: socket not connected');
+      return;
+    }
+    socket.emit('chat-message', { gameId, message });
+  }, [isConnected, gameId]);
+
+  // Emit life total change for any player
+  const emitLifeChanged = useCallback((playerId: string, amount: number) => {
+    emitOrQueue('life-changed', { gameId, playerId, amount });
+  }, [emitOrQueue, gameId]);
+
+  // Emit poison counter change for any player
+  const emitPoisonChanged = useCallback((playerId: string, amount: number) => {
+    emitOrQueue('poison-changed', { gameId, playerId, amount });
+  }, [emitOrQueue, gameId]);
+
+  // Emit commander damage dealt to playerId by sourcePlayerId's commander
+  const emitCommanderDamage = useCallback((playerId: string, sourcePlayerId: string, amount: number) => {
+    emitOrQueue('commander-damage', { gameId, playerId, sourcePlayerId, amount });
+  }, [emitOrQueue, gameId]);
+
   return {
     isConnected,
     connectionError,
+    queuedActions,
     subscribeToEvents,
     emitCardMoved,
     emitCardTapped,
     emitCardPlayed,
     emitCardReturned,
-    emitHandStateChanged
+    emitCardDestroyed,
+    emitCardExiled,
+    emitDeckLoaded,
+    emitCardDrawn,
+    emitLibraryShuffled,
+    emitCardRevealed,
+    emitHandRevealed,
+    emitLibraryArranged,
+    emitLibrarySearched,
+    emitLibraryTopRevealed,
+    emitCardCounterChanged,
+    emitTokenCreated,
+    emitCardAttached,
+    emitLifeChanged,
+    emitPoisonChanged,
+    emitCommanderDamage,
+    emitTurnAction,
+    emitMulligan,
+    emitConceded,
+    emitDeckSubmitted,
+    emitHandKept,
+    emitSpectatorKicked,
+    emitPlayerKicked,
+    emitHostTransferred,
+    emitSeatsRearranged,
+    emitGamePaused,
+    emitGameResumed,
+    emitTurnSkipped,
+    emitUndoRequested,
+    emitUndoResponse,
+    emitTurnRewound,
+    emitChatMessage
   };
 } 
\ No newline at end of file
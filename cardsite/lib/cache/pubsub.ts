@@ -0,0 +1,74 @@
+import { kv } from '@vercel/kv';
+import { EventEmitter } from 'events';
+
+export type MessageHandler<T> = (message: T) => void;
+
+/**
+ * Fire-and-forget messaging between server processes
+ */
+export interface PubSub {
+  publish<T>(channel: string, message: T): Promise<void>;
+  /** Returns a function that stops the subscription */
+  subscribe<T>(channel: string, handler: MessageHandler<T>): () => void;
+}
+
+/**
+ * Redis pub/sub through Vercel KV, so every process sharing the KV store hears every message
+ */
+class RedisPubSub implements PubSub {
+  async publish<T>(channel: string, message: T): Promise<void> {
+    try {
+      await kv.publish(channel, message);
+    } catch (error) {
+      console.error(`❌ Failed to publish to ${channel}:`, error);
+    }
+  }
+
+  subscribe<T>(channel: string, handler: MessageHandler<T>): () => void {
+    const subscriber = kv.subscribe<T>(channel);
+    subscriber.on('message', ({ message }) => handler(message));
+    subscriber.on('error', (error) => console.error(`❌ Subscription to ${channel} failed:`, error));
+
+    return () => {
+      subscriber.removeAllListeners();
+      subscriber.unsubscribe().catch(() => {});
+    };
+  }
+}
+
+/**
+ * In-process pub/sub for development and tests (and several servers started in one process).
+ * Messages are delivered asynchronously and as JSON copies, the way they would come back from Redis
+ */
+class MemoryPubSub implements PubSub {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish<T>(channel: string, message: T): Promise<void> {
+    const copy = JSON.parse(JSON.stringify(message));
+    setImmediate(() => this.emitter.emit(channel, copy));
+  }
+
+  subscribe<T>(channel: string, handler: MessageHandler<T>): () => void {
+    this.emitter.on(channel, handler);
+    return () => {
+      this.emitter.off(channel, handler);
+    };
+  }
+}
+
+/**
+ * Redis in production (same switch as the cache), memory everywhere else
+ */
+export function createPubSub(): PubSub {
+  const useVercelKV = process.env.NODE_ENV === 'production' && !!process.env.KV_URL;
+  return useVercelKV ? new RedisPubSub() : new MemoryPubSub();
+}
+
+// Singleton instance, shared through globalThis because Next.js bundles its own copy of this module for API
+// routes, and in memory those copies would never hear each other
+const globalForPubSub = globalThis as typeof globalThis & { pubsub?: PubSub };
+export const pubsub = globalForPubSub.pubsub ?? (globalForPubSub.pubsub = createPubSub());
@@ -87,6 +87,69 @@ export class CacheManager {
     }
   }
 
+  /**
+   * Set data only if the key is not already set (for locks and leases); true if this call set it
+   */
+  async setIfAbsent<T>(key: string, data: T, ttlSeconds: number): Promise<boolean> {
+    try {
+      if (this.useVercelKV) {
+        return (await kv.set(key, data, { nx: true, ex: ttlSeconds })) === 'OK';
+      } else {
+        const cached = this.memoryCache.get(key);
+        if (cached && cached.expires > Date.now()) {
+          return false;
+        }
+        this.memoryCache.set(key, {
+          data,
+          expires: Date.now() + (ttlSeconds * 1000)
+        });
+        return true;
+      }
+    } catch {
+      // Cache setnx error - report the key as taken
+      return false;
+    }
+  }
+
+  /**
+   * Extend a key's TTL only while it still holds the expected value, in one step (for renewing leases);
+   * true if it was extended
+   */
+  async extendIfEquals(key: string, expected: string, ttlSeconds: number): Promise<boolean> {
+    try {
+      if (this.useVercelKV) {
+        const script = "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('EXPIRE', KEYS[1], ARGV[2]) else return 0 end";
+        return (await kv.eval(script, [key], [expected, ttlSeconds])) === 1;
+      } else {
+        const cached = this.memoryCache.get(key);
+        if (!cached || cached.expires <= Date.now() || cached.data !== expected) {
+          return false;
+        }
+        cached.expires = Date.now() + (ttlSeconds * 1000);
+        return true;
+      }
+    } catch {
+      // Cache eval error - nobody else can take the key while the store is unreachable, so report it as kept
+      return true;
+    }
+  }
+
+  /**
+   * Delete a key only while it still holds the expected value, in one step (for giving up leases)
+   */
+  async deleteIfEquals(key: string, expected: string): Promise<void> {
+    try {
+      if (this.useVercelKV) {
+        const script = "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) else return 0 end";
+        await kv.eval(script, [key], [expected]);
+      } else if (this.memoryCache.get(key)?.data === expected) {
+        this.memoryCache.delete(key);
+      }
+    } catch {
+      // Cache eval error - the key lapses on its own
+    }
+  }
+
   /**
    * Delete data from cache
    */
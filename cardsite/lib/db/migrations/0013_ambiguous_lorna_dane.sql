@@ -0,0 +1,22 @@
+CREATE TABLE "game_events" (
+	"id" varchar(12) PRIMARY KEY NOT NULL,
+	"game_id" varchar(12) NOT NULL,
+	"seq" integer NOT NULL,
+	"type" varchar(50) NOT NULL,
+	"player_id" varchar(255),
+	"event" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "game_snapshots" (
+	"id" varchar(12) PRIMARY KEY NOT NULL,
+	"game_id" varchar(12) NOT NULL,
+	"seq" integer NOT NULL,
+	"state" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "game_events" ADD CONSTRAINT "game_events_game_id_game_rooms_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."game_rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "game_snapshots" ADD CONSTRAINT "game_snapshots_game_id_game_rooms_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."game_rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "game_events_game_seq_idx" ON "game_events" USING btree ("game_id","seq");--> statement-breakpoint
+CREATE INDEX "game_snapshots_game_seq_idx" ON "game_snapshots" USING btree ("game_id","seq");
\ No newline at end of file
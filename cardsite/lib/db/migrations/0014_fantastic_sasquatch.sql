@@ -0,0 +1,8 @@
+CREATE TABLE "game_shuffle_seeds" (
+	"game_id" varchar(12) PRIMARY KEY NOT NULL,
+	"seed" varchar(64) NOT NULL,
+	"commitment" varchar(64) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "game_shuffle_seeds" ADD CONSTRAINT "game_shuffle_seeds_game_id_game_rooms_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."game_rooms"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "game_spectators" (
+	"id" varchar(12) PRIMARY KEY NOT NULL,
+	"game_id" varchar(12) NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"joined_at" timestamp DEFAULT now() NOT NULL,
+	"kicked_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "game_spectators" ADD CONSTRAINT "game_spectators_game_id_game_rooms_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."game_rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "game_spectators" ADD CONSTRAINT "game_spectators_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "game_spectators_game_user_idx" ON "game_spectators" USING btree ("game_id","user_id");
\ No newline at end of file
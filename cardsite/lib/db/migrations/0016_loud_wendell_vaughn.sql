@@ -0,0 +1 @@
+ALTER TABLE "game_events" ADD COLUMN "undone_at" timestamp;
\ No newline at end of file
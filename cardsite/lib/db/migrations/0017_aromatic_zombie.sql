@@ -0,0 +1,13 @@
+CREATE TABLE "game_messages" (
+	"id" varchar(12) PRIMARY KEY NOT NULL,
+	"game_id" varchar(12) NOT NULL,
+	"kind" varchar(10) NOT NULL,
+	"user_id" varchar(255),
+	"seq" integer,
+	"body" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "game_messages" ADD CONSTRAINT "game_messages_game_id_game_rooms_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."game_rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "game_messages" ADD CONSTRAINT "game_messages_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "game_messages_game_created_idx" ON "game_messages" USING btree ("game_id","created_at");
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "game_results" (
+	"id" varchar(12) PRIMARY KEY NOT NULL,
+	"game_id" varchar(12) NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"deck_id" varchar(12),
+	"deck_name" varchar(255),
+	"format" varchar(50) NOT NULL,
+	"placement" integer NOT NULL,
+	"player_count" integer NOT NULL,
+	"conceded" boolean DEFAULT false NOT NULL,
+	"turns" integer NOT NULL,
+	"duration_seconds" integer NOT NULL,
+	"ended_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "game_results" ADD CONSTRAINT "game_results_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "game_results" ADD CONSTRAINT "game_results_deck_id_decks_id_fk" FOREIGN KEY ("deck_id") REFERENCES "public"."decks"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "game_results_user_ended_idx" ON "game_results" USING btree ("user_id","ended_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "game_results_game_user_idx" ON "game_results" USING btree ("game_id","user_id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+DROP INDEX "game_results_game_user_idx";--> statement-breakpoint
+ALTER TABLE "game_results" ADD COLUMN "game_number" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "game_results_game_number_user_idx" ON "game_results" USING btree ("game_id","game_number","user_id");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "matchmaking_queue" (
+	"id" varchar(12) PRIMARY KEY NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"format" varchar(50) NOT NULL,
+	"deck_id" varchar(12) NOT NULL,
+	"power_level" integer,
+	"queued_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "matchmaking_queue" ADD CONSTRAINT "matchmaking_queue_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "matchmaking_queue" ADD CONSTRAINT "matchmaking_queue_deck_id_decks_id_fk" FOREIGN KEY ("deck_id") REFERENCES "public"."decks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "matchmaking_queue_user_idx" ON "matchmaking_queue" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "matchmaking_queue_format_queued_idx" ON "matchmaking_queue" USING btree ("format","queued_at");
\ No newline at end of file
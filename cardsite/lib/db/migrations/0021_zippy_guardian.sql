@@ -0,0 +1,13 @@
+CREATE TABLE "game_invites" (
+	"id" varchar(12) PRIMARY KEY NOT NULL,
+	"game_id" varchar(12) NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"invited_by" varchar(255) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "game_invites" ADD CONSTRAINT "game_invites_game_id_game_rooms_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."game_rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "game_invites" ADD CONSTRAINT "game_invites_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "game_invites" ADD CONSTRAINT "game_invites_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "game_invites_game_user_idx" ON "game_invites" USING btree ("game_id","user_id");--> statement-breakpoint
+CREATE INDEX "game_invites_user_id_idx" ON "game_invites" USING btree ("user_id");
\ No newline at end of file
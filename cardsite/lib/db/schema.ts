@@ -1,4 +1,4 @@
-import { pgTable, text, serial, timestamp, integer, boolean, jsonb, uuid, varchar, decimal, primaryKey, index } from 'drizzle-orm/pg-core'
+import { pgTable, text, serial, timestamp, integer, boolean, jsonb, uuid, varchar, decimal, primaryKey, index, uniqueIndex } from 'drizzle-orm/pg-core'
 import { relations } from 'drizzle-orm'
 import { eq } from 'drizzle-orm'
 
@@ -189,10 +189,14 @@ export const gameRooms = pgTable('game_rooms', {
   currentPlayers: integer('current_players').notNull().default(1),
   settings: jsonb('settings').$type<{
     powerLevel?: number;
-    isPrivate?: boolean;
-    password?: string;
+    isPrivate?: boolean; // Hidden from the lobby except for its players and invitees
+    passwordHash?: string; // bcrypt hash; the room password itself is never stored
     allowSpectators?: boolean;
     tags?: string[];
+    mulligan?: 'london' | 'vancouver';
+    freeMulligan?: boolean;
+    bestOf?: 1 | 3; // Best-of-three matches are for two-player rooms
+    turnTimeLimit?: number; // Seconds each player gets per turn; turns are untimed without it
   }>(),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
@@ -227,6 +231,118 @@ export const gameParticipants = pgTable('game_participants', {
   gameSeatIdx: index('game_participants_game_seat_idx').on(table.gameId, table.seatPosition),
 }))
 
+// Game Spectators - people watching a game room without a seat
+export const gameSpectators = pgTable('game_spectators', {
+  id: varchar('id', { length: 12 }).primaryKey(),
+  gameId: varchar('game_id', { length: 12 }).notNull().references(() => gameRooms.id, { onDelete: 'cascade' }),
+  userId: varchar('user_id', { length: 255 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+  joinedAt: timestamp('joined_at').notNull().defaultNow(),
+  kickedAt: timestamp('kicked_at'), // Set when the host removes them; kicked spectators can't watch again
+}, (table) => ({
+  // One row per user per game
+  gameUserIdx: uniqueIndex('game_spectators_game_user_idx').on(table.gameId, table.userId),
+}))
+
+// Game Invites - who a room's players have invited, directly or with an invite link; invitees can see
+// private rooms in the lobby and join without the room password
+export const gameInvites = pgTable('game_invites', {
+  id: varchar('id', { length: 12 }).primaryKey(),
+  gameId: varchar('game_id', { length: 12 }).notNull().references(() => gameRooms.id, { onDelete: 'cascade' }),
+  userId: varchar('user_id', { length: 255 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+  invitedBy: varchar('invited_by', { length: 255 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  // One invite per user per game
+  gameUserIdx: uniqueIndex('game_invites_game_user_idx').on(table.gameId, table.userId),
+  userIdIdx: index('game_invites_user_id_idx').on(table.userId),
+}))
+
+// Matchmaking Queue - players waiting to be grouped into a new room with others in their format and power level
+export const matchmakingQueue = pgTable('matchmaking_queue', {
+  id: varchar('id', { length: 12 }).primaryKey(),
+  userId: varchar('user_id', { length: 255 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+  format: varchar('format', { length: 50 }).notNull(),
+  deckId: varchar('deck_id', { length: 12 }).notNull().references(() => decks.id, { onDelete: 'cascade' }),
+  powerLevel: integer('power_level'), // Commander only; null fits any pod
+  queuedAt: timestamp('queued_at').notNull().defaultNow(),
+}, (table) => ({
+  // A player waits in one queue at a time
+  userIdx: uniqueIndex('matchmaking_queue_user_idx').on(table.userId),
+  // Whoever has waited longest in a format is grouped first
+  formatQueuedIdx: index('matchmaking_queue_format_queued_idx').on(table.format, table.queuedAt),
+}))
+
+// Game Events - append-only log of every action the server accepted, in sequence order
+export const gameEvents = pgTable('game_events', {
+  id: varchar('id', { length: 12 }).primaryKey(),
+  gameId: varchar('game_id', { length: 12 }).notNull().references(() => gameRooms.id, { onDelete: 'cascade' }),
+  seq: integer('seq').notNull(),
+  type: varchar('type', { length: 50 }).notNull(),
+  playerId: varchar('player_id', { length: 255 }), // Null for actions that don't belong to a player (e.g. NEXT_TURN)
+  event: jsonb('event').notNull(), // The full sequenced event as broadcast to clients
+  undoneAt: timestamp('undone_at'), // Set when an undo or rewind took the event back; skipped when rebuilding the game
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  // One event per sequence number; also serves replaying a game in order
+  gameSeqIdx: uniqueIndex('game_events_game_seq_idx').on(table.gameId, table.seq),
+}))
+
+// Game Snapshots - periodic copies of the full game state so resuming doesn't replay the whole log
+export const gameSnapshots = pgTable('game_snapshots', {
+  id: varchar('id', { length: 12 }).primaryKey(),
+  gameId: varchar('game_id', { length: 12 }).notNull().references(() => gameRooms.id, { onDelete: 'cascade' }),
+  seq: integer('seq').notNull(), // Sequence number of the last event folded into this state
+  state: jsonb('state').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  // Latest snapshot lookup
+  gameSeqIdx: index('game_snapshots_game_seq_idx').on(table.gameId, table.seq),
+}))
+
+// Game Shuffle Seeds - the secret behind every shuffle in a game; only the commitment is public until the game ends
+export const gameShuffleSeeds = pgTable('game_shuffle_seeds', {
+  gameId: varchar('game_id', { length: 12 }).primaryKey().references(() => gameRooms.id, { onDelete: 'cascade' }),
+  seed: varchar('seed', { length: 64 }).notNull(),
+  commitment: varchar('commitment', { length: 64 }).notNull(), // SHA-256 of the seed, shown to players from the start
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+})
+
+// Game Messages - the room's chat and its human-readable game log, both shown to everyone in the game
+export const gameMessages = pgTable('game_messages', {
+  id: varchar('id', { length: 12 }).primaryKey(),
+  gameId: varchar('game_id', { length: 12 }).notNull().references(() => gameRooms.id, { onDelete: 'cascade' }),
+  kind: varchar('kind', { length: 10 }).notNull(), // chat or log
+  userId: varchar('user_id', { length: 255 }).references(() => users.id, { onDelete: 'set null' }), // Who wrote it, or whose action it logs
+  seq: integer('seq'), // The game event a log line describes (null for chat and for undo notices)
+  body: text('body').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  // Loading a game's messages in order
+  gameCreatedIdx: index('game_messages_game_created_idx').on(table.gameId, table.createdAt),
+}))
+
+// Game Results - one row per player when a game ends; kept after the room itself is cleaned up, for match history
+export const gameResults = pgTable('game_results', {
+  id: varchar('id', { length: 12 }).primaryKey(),
+  gameId: varchar('game_id', { length: 12 }).notNull(), // No foreign key: the room may be deleted, the result stays
+  gameNumber: integer('game_number').notNull().default(1), // Which game of a best-of-three match
+  userId: varchar('user_id', { length: 255 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+  deckId: varchar('deck_id', { length: 12 }).references(() => decks.id, { onDelete: 'set null' }),
+  deckName: varchar('deck_name', { length: 255 }), // As it was when the game was played
+  format: varchar('format', { length: 50 }).notNull(),
+  placement: integer('placement').notNull(), // 1 is the winner
+  playerCount: integer('player_count').notNull(),
+  conceded: boolean('conceded').notNull().default(false),
+  turns: integer('turns').notNull(),
+  durationSeconds: integer('duration_seconds').notNull(),
+  endedAt: timestamp('ended_at').notNull().defaultNow(),
+}, (table) => ({
+  // A player's match history, newest first
+  userEndedIdx: index('game_results_user_ended_idx').on(table.userId, table.endedAt),
+  // One result per player per game of the room
+  gameUserIdx: uniqueIndex('game_results_game_number_user_idx').on(table.gameId, table.gameNumber, table.userId),
+}))
+
 // Friend Requests - tracks pending friend requests
 export const friendRequests = pgTable('friend_requests', {
   id: varchar('id', { length: 12 }).primaryKey(),
@@ -363,6 +479,7 @@ export const usersRelations = relations(users, ({ many }) => ({
   resolvedErrors: many(errorLogs, { relationName: 'resolvedErrors' }),
   hostedGames: many(gameRooms),
   gameParticipations: many(gameParticipants),
+  spectatedGames: many(gameSpectators),
   sentFriendRequests: many(friendRequests, { relationName: 'sentRequests' }),
   receivedFriendRequests: many(friendRequests, { relationName: 'receivedRequests' }),
   friendships1: many(friendships, { relationName: 'user1Friendships' }),
@@ -432,6 +549,92 @@ export const gameRoomsRelations = relations(gameRooms, ({ one, many }) => ({
     references: [users.id],
   }),
   participants: many(gameParticipants),
+  spectators: many(gameSpectators),
+  events: many(gameEvents),
+  snapshots: many(gameSnapshots),
+  shuffleSeed: one(gameShuffleSeeds),
+  messages: many(gameMessages),
+}))
+
+export const gameSpectatorsRelations = relations(gameSpectators, ({ one }) => ({
+  game: one(gameRooms, {
+    fields: [gameSpectators.gameId],
+    references: [gameRooms.id],
+  }),
+  user: one(users, {
+    fields: [gameSpectators.userId],
+    references: [users.id],
+  }),
+}))
+
+export const gameInvitesRelations = relations(gameInvites, ({ one }) => ({
+  game: one(gameRooms, {
+    fields: [gameInvites.gameId],
+    references: [gameRooms.id],
+  }),
+  user: one(users, {
+    fields: [gameInvites.userId],
+    references: [users.id],
+  }),
+  inviter: one(users, {
+    fields: [gameInvites.invitedBy],
+    references: [users.id],
+    relationName: 'sentGameInvites',
+  }),
+}))
+
+export const matchmakingQueueRelations = relations(matchmakingQueue, ({ one }) => ({
+  user: one(users, {
+    fields: [matchmakingQueue.userId],
+    references: [users.id],
+  }),
+  deck: one(decks, {
+    fields: [matchmakingQueue.deckId],
+    references: [decks.id],
+  }),
+}))
+
+export const gameEventsRelations = relations(gameEvents, ({ one }) => ({
+  game: one(gameRooms, {
+    fields: [gameEvents.gameId],
+    references: [gameRooms.id],
+  }),
+}))
+
+export const gameSnapshotsRelations = relations(gameSnapshots, ({ one }) => ({
+  game: one(gameRooms, {
+    fields: [gameSnapshots.gameId],
+    references: [gameRooms.id],
+  }),
+}))
+
+export const gameShuffleSeedsRelations = relations(gameShuffleSeeds, ({ one }) => ({
+  game: one(gameRooms, {
+    fields: [gameShuffleSeeds.gameId],
+    references: [gameRooms.id],
+  }),
+}))
+
+export const gameMessagesRelations = relations(gameMessages, ({ one }) => ({
+  game: one(gameRooms, {
+    fields: [gameMessages.gameId],
+    references: [gameRooms.id],
+  }),
+  user: one(users, {
+    fields: [gameMessages.userId],
+    references: [users.id],
+  }),
+}))
+
+export const gameResultsRelations = relations(gameResults, ({ one }) => ({
+  user: one(users, {
+    fields: [gameResults.userId],
+    references: [users.id],
+  }),
+  deck: one(decks, {
+    fields: [gameResults.deckId],
+    references: [decks.id],
+  }),
 }))
 
 export const gameParticipantsRelations = relations(gameParticipants, ({ one }) => ({
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { GameAuthority, toGameAction } from './authority'
+import { GameEngine } from './engine'
+import { commitToSeed, createShuffleSeed, shuffleOrder } from './shuffle'
+import { CardId, GameResult, MTGCard, PlayerId } from './types'
+
+const alice = 'alice' as PlayerId
+const bob = 'bob' as PlayerId
+
+function deck(size: number): MTGCard[] {
+  return Array.from({ length: size }, (_, index) => ({ id: `card${index}-1` as CardId, name: `Card ${index}` }))
+}
+
+function ok<T>(result: GameResult<T>): T {
+  if (!result.success) throw new Error(`${result.error.code}: ${result.error.message}`)
+  return result.data
+}
+
+describe('GameAuthority', () => {
+  const seed = createShuffleSeed()
+  let authority: GameAuthority
+
+  beforeEach(() => {
+    authority = new GameAuthority()
+    authority.getOrCreateGame('game', 'standard')
+    authority.setShuffleSeed('game', seed, commitToSeed(seed))
+    for (const [playerId, seat] of [[alice, 0], [bob, 1]] as const) {
+      ok(authority.dispatch('game', {
+        type: 'PLAYER_JOINED',
+        playerId,
+        playerData: GameEngine.createPlayerState(playerId, 'standard', seat)
+      }, playerId))
+    }
+  })
+
+  describe('deck loading', () => {
+    it('shuffles the deck with the committed seed, whatever order the client sent', () => {
+      const cards = deck(10)
+      const identity = cards.map((_, index) => index)
+      const { state, event } = ok(authority.dispatch('game', { type: 'LOAD_DECK', playerId: alice, cards, order: identity }, alice))
+
+      const order = shuffleOrder(seed, event.seq, cards.length)
+      expect(event.type === 'LOAD_DECK' && event.order).toEqual(order)
+      expect(state.players.get(alice)!.library.map(card => card.id)).toEqual(order.map(index => cards[index].id))
+      expect(state.players.get(alice)!.unshuffled).toBe(false)
+    })
+
+    it('lets the game start once every deck is loaded', () => {
+      ok(authority.dispatch('game', { type: 'LOAD_DECK', playerId: alice, cards: deck(10) }, alice))
+      ok(authority.dispatch('game', { type: 'LOAD_DECK', playerId: bob, cards: deck(10) }, bob))
+
+      expect(authority.dispatch('game', { type: 'START_GAME', playerId: alice }, alice).success).toBe(true)
+    })
+  })
+
+  describe('undo', () => {
+    it('takes back an action for whoever sent it, not the player it was about', () => {
+      ok(authority.dispatch('game', { type: 'CHANGE_LIFE', playerId: bob, amount: -3 }, alice))
+
+      const target = ok(authority.getUndoTarget('game', alice))
+      expect(target.event.type).toBe('CHANGE_LIFE')
+      expect(target.event.actorId).toBe(alice)
+      expect(target.before.players.get(bob)!.life).toBe(authority.getState('game')!.players.get(bob)!.life + 3)
+
+      // Bob's own last action is joining the game
+      const theirs = authority.getUndoTarget('game', bob)
+      expect(!theirs.success && theirs.error.code).toBe('UNDO_NOT_ALLOWED')
+    })
+
+    it('falls back to the player an event was about when the log has no actor', () => {
+      authority.restoreGame('game', authority.getState('game')!, authority.getSeq('game'), authority.getState('game')!, [
+        { type: 'CHANGE_LIFE', playerId: bob, amount: -1, seq: 3, timestamp: 0, eventId: 'game-3' }
+      ])
+
+      expect(ok(authority.getUndoTarget('game', bob)).event.seq).toBe(3)
+    })
+
+    it('never takes back cards that have been seen', () => {
+      ok(authority.dispatch('game', { type: 'LOAD_DECK', playerId: alice, cards: deck(10) }, alice))
+      ok(authority.dispatch('game', { type: 'DRAW_CARD', playerId: alice }, alice))
+
+      const drawn = authority.getUndoTarget('game', alice)
+      expect(!drawn.success && drawn.error.code).toBe('UNDO_NOT_ALLOWED')
+
+      ok(authority.dispatch('game', { type: 'REVEAL_HAND', playerId: alice }, alice))
+      const revealed = authority.getUndoTarget('game', alice)
+      expect(!revealed.success && revealed.error.code).toBe('UNDO_NOT_ALLOWED')
+    })
+  })
+})
+
+describe('toGameAction', () => {
+  it('sends cards the playmat destroys or exiles through the engine', () => {
+    const data = { gameId: 'game', playerId: alice, cardId: 'battlefield-card0-1' }
+
+    expect(toGameAction('card-destroyed', data)).toEqual({ type: 'DESTROY_CARD', playerId: alice, cardId: data.cardId })
+    expect(toGameAction('card-exiled', data)).toEqual({ type: 'EXILE_CARD', playerId: alice, cardId: data.cardId, from: 'battlefield' })
+  })
+})
@@ -0,0 +1,672 @@
+import { GameEngine } from './engine'
+import { projectPlayer } from './visibility'
+import { shuffleOrder } from './shuffle'
+import {
+  GameState,
+  GameAction,
+  GameResult,
+  SequencedEvent,
+  PlayerId,
+  PlayerState,
+  InstanceId,
+  MTGCard,
+  MulliganRules,
+  Position,
+  CardId,
+  TokenDefinition,
+  Zone
+} from './types'
+
+// Counter actions any participant may take on behalf of another player (e.g. dealing damage)
+const SHARED_ACTIONS: readonly GameAction['type'][] = ['CHANGE_LIFE', 'CHANGE_POISON', 'COMMANDER_DAMAGE']
+
+// Actions that show someone cards they couldn't see before. Taking one back would hand the cards back
+// to a library whose order is now known, so neither an undo nor a turn rewind may go past them
+const REVEALING_ACTIONS: readonly GameAction['type'][] = [
+  'DRAW_CARD', 'ARRANGE_LIBRARY_TOP', 'SEARCH_LIBRARY', 'REVEAL_LIBRARY_TOP', 'REVEAL_CARD', 'REVEAL_HAND'
+]
+
+// Actions a player can't ask to take back: undoing a shuffle or mulligan would let them draw again for a better order,
+// and a concession (or the deck brought to the next game of a match) is final
+const IRREVERSIBLE_ACTIONS: readonly GameAction['type'][] = [
+  'PLAYER_JOINED', 'LOAD_DECK', 'SHUFFLE_LIBRARY', 'START_GAME', 'MULLIGAN', 'KEEP_HAND', 'CONCEDE', 'SUBMIT_DECK',
+  'KICK_PLAYER', 'RESEAT_PLAYERS', 'PAUSE_GAME', 'RESUME_GAME', 'SKIP_TURN', ...REVEALING_ACTIONS
+]
+
+// Actions for whoever is running the room rather than any one player's board. The authority doesn't know
+// who the host is, so the socket server checks the room and dispatches these with asHost set
+const HOST_ACTIONS: readonly GameAction['type'][] = ['KICK_PLAYER', 'RESEAT_PLAYERS', 'PAUSE_GAME', 'RESUME_GAME', 'SKIP_TURN']
+
+interface ShuffleSeed {
+  seed: string
+  commitment: string
+}
+
+interface AuthoritativeGame {
+  state: GameState
+  seq: number
+  // The state the in-memory log starts from (as of baseSeq); undo replays the log onto it
+  baseState: GameState
+  baseSeq: number
+  events: SequencedEvent[]
+  // Seq at the last undo or rewind, before which clients can't simply catch up event by event
+  rewoundAt?: number
+  lastUpdated: number
+  shuffleSeed?: ShuffleSeed
+}
+
+export interface AcceptedAction {
+  readonly state: GameState
+  readonly event: SequencedEvent
+}
+
+export interface UndoTarget {
+  readonly event: SequencedEvent
+  // The game just before the event, for describing it
+  readonly before: GameState
+}
+
+// Board snapshot in the shape the playmat and the state API already use, as seen by one viewer
+export interface PlayerSnapshot {
+  readonly battlefieldCards: PlayerState['battlefield']
+  readonly handCards: PlayerState['hand']
+  readonly handCount: number
+  readonly libraryCards: PlayerState['library']
+  readonly libraryCount: number
+  readonly lastUpdated: number
+}
+
+export interface PlayerCounters {
+  readonly life: number
+  readonly poison: number
+  readonly commanderDamage: PlayerState['commanderDamage']
+  readonly eliminated: boolean
+}
+
+export interface TurnState {
+  readonly status: GameState['status']
+  readonly turn: number
+  readonly phase: GameState['phase']
+  readonly currentPlayer: string
+  readonly priorityPlayer: string
+  readonly turnOrder: readonly string[]
+  // Everyone with a seat in seat order, including the players who are out
+  readonly seats: readonly string[]
+  readonly mulliganRules: MulliganRules
+  readonly mulligans: Readonly<Record<string, MulliganStatus>>
+  readonly match?: GameState['match']
+  // Between games of a match, the players who have settled on their deck for the next one
+  readonly sideboarded: readonly string[]
+}
+
+export interface MulliganStatus {
+  readonly mulligans: number
+  readonly kept: boolean
+  // London: how many cards go on the bottom when keeping; Vancouver: whether keeping comes with a scry 1
+  readonly cardsToBottom: number
+  readonly canScry: boolean
+}
+
+// Server-side owner of every game's state: each action goes through GameEngine.reduce
+// and is only committed (and given a sequence number) if the engine accepts it
+export class GameAuthority {
+  private games = new Map<string, AuthoritativeGame>()
+
+  getOrCreateGame(gameId: string, format?: string, mulliganRules?: MulliganRules, bestOf?: number): GameState {
+    let game = this.games.get(gameId)
+    if (!game) {
+      const state = GameEngine.createInitialState(gameId, format, mulliganRules, bestOf)
+      game = {
+        state,
+        seq: 0,
+        baseState: state,
+        baseSeq: 0,
+        events: [],
+        lastUpdated: Date.now()
+      }
+      this.games.set(gameId, game)
+    }
+    return game.state
+  }
+
+  // Install a game rebuilt from storage, continuing its sequence where the log left off
+  restoreGame(
+    gameId: string,
+    state: GameState,
+    seq: number,
+    baseState: GameState = state,
+    events: readonly SequencedEvent[] = []
+  ): void {
+    // Undone events leave gaps, so the first remaining event is the safe place to say the log starts
+    const baseSeq = events.length > 0 ? events[0].seq - 1 : seq
+    this.games.set(gameId, { state, seq, baseState, baseSeq, events: [...events], lastUpdated: Date.now() })
+  }
+
+  // A game reloaded from storage can be behind the events its clients already saw. Numbering carries on
+  // from the highest seq they saw, so none of them catches up event by event over actions that are gone
+  skipTo(gameId: string, seq: number): void {
+    const game = this.games.get(gameId)
+    if (game && seq > game.seq) {
+      game.seq = seq
+      game.rewoundAt = seq
+    }
+  }
+
+  setShuffleSeed(gameId: string, seed: string, commitment: string): void {
+    const game = this.games.get(gameId)
+    if (game) {
+      game.shuffleSeed = { seed, commitment }
+    }
+  }
+
+  // Public half of the commit-reveal pair; the seed itself never leaves the server during the game
+  getShuffleCommitment(gameId: string): string | null {
+    return this.games.get(gameId)?.shuffleSeed?.commitment ?? null
+  }
+
+  getState(gameId: string): GameState | undefined {
+    return this.games.get(gameId)?.state
+  }
+
+  getSeq(gameId: string): number {
+    return this.games.get(gameId)?.seq ?? 0
+  }
+
+  getEvents(gameId: string): readonly SequencedEvent[] {
+    return this.games.get(gameId)?.events ?? []
+  }
+
+  // What a client that last applied seq has missed; fails when that reaches back past the in-memory log
+  // or across a rewind, and the client needs a full snapshot instead
+  getEventsSince(gameId: string, seq: number): GameResult<readonly SequencedEvent[]> {
+    const game = this.games.get(gameId)
+    if (!game) {
+      return { success: false, error: { code: 'GAME_NOT_FOUND', message: 'Game not found' } }
+    }
+
+    if (seq < game.baseSeq || seq > game.seq || (game.rewoundAt !== undefined && seq <= game.rewoundAt)) {
+      return { success: false, error: { code: 'EVENTS_UNAVAILABLE', message: `Events after seq ${seq} can't be replayed` } }
+    }
+    return { success: true, data: game.events.filter(event => event.seq > seq) }
+  }
+
+  dispatch(gameId: string, action: GameAction, actorId: string, asHost = false): GameResult<AcceptedAction> {
+    const game = this.games.get(gameId)
+    if (!game) {
+      return { success: false, error: { code: 'GAME_NOT_FOUND', message: 'Game not found' } }
+    }
+
+    const authorized = GameAuthority.authorize(game.state, action, actorId, asHost)
+    if (!authorized.success) {
+      return authorized
+    }
+
+    const seq = game.seq + 1
+    const prepared = GameAuthority.withShuffleOrder(game, action, seq)
+    if (!prepared.success) {
+      return prepared
+    }
+
+    const result = GameEngine.reduce(game.state, prepared.data)
+    if (!result.success) {
+      return result
+    }
+
+    const event: SequencedEvent = {
+      ...prepared.data,
+      seq,
+      timestamp: Date.now(),
+      eventId: `${gameId}-${seq}`,
+      actorId: actorId as PlayerId
+    }
+
+    game.state = result.data
+    game.seq = seq
+    game.events.push(event)
+    game.lastUpdated = event.timestamp
+
+    return { success: true, data: { state: game.state, event } }
+  }
+
+  // A player's most recent action, as long as it is still in memory and may be taken back
+  getUndoTarget(gameId: string, playerId: string): GameResult<UndoTarget> {
+    const game = this.games.get(gameId)
+    if (!game) {
+      return { success: false, error: { code: 'GAME_NOT_FOUND', message: 'Game not found' } }
+    }
+
+    // The result has been recorded by the time anyone could ask
+    if (game.state.status === 'ended' || game.state.status === 'sideboarding') {
+      return { success: false, error: { code: 'GAME_OVER', message: 'The game is over' } }
+    }
+
+    // Events logged before the actor was recorded fall back to the player they were about
+    const isOwn = (event: SequencedEvent) =>
+      (event.actorId ?? ('playerId' in event ? event.playerId : undefined)) === playerId
+    let index = game.events.length - 1
+    while (index >= 0 && !isOwn(game.events[index])) {
+      index--
+    }
+    if (index < 0) {
+      return { success: false, error: { code: 'NOTHING_TO_UNDO', message: 'You have no recent actions to undo' } }
+    }
+
+    const event = game.events[index]
+    if (IRREVERSIBLE_ACTIONS.includes(event.type)) {
+      return {
+        success: false,
+        error: {
+          code: 'UNDO_NOT_ALLOWED',
+          message: 'Joining, deck loads, shuffles, mulligans, concessions, host actions and anything that showed cards cannot be undone'
+        }
+      }
+    }
+
+    const before = GameAuthority.fold(game.baseState, game.events.slice(0, index))
+    return before.success ? { success: true, data: { event, before: before.data } } : before
+  }
+
+  // Sequence number of the event that began the current turn, for rewinding to it
+  getTurnStartSeq(gameId: string): GameResult<number> {
+    const game = this.games.get(gameId)
+    if (!game) {
+      return { success: false, error: { code: 'GAME_NOT_FOUND', message: 'Game not found' } }
+    }
+    if (game.state.status !== 'active') {
+      return { success: false, error: { code: 'GAME_NOT_ACTIVE', message: 'There is no turn to rewind yet' } }
+    }
+
+    let state = game.baseState
+    let turnStart: number | null = null
+    for (const event of game.events) {
+      const result = GameEngine.reduce(state, event)
+      if (!result.success) {
+        return result
+      }
+      if (result.data.status === 'active' && (state.status !== 'active' || result.data.turn !== state.turn)) {
+        turnStart = event.seq
+      }
+      state = result.data
+    }
+
+    if (turnStart === null) {
+      return { success: false, error: { code: 'TURN_START_UNAVAILABLE', message: 'The start of this turn is no longer available' } }
+    }
+    if (turnStart === game.events[game.events.length - 1].seq) {
+      return { success: false, error: { code: 'NOTHING_TO_UNDO', message: 'Nothing has happened yet this turn' } }
+    }
+    if (game.events.some(event => event.seq > turnStart && (REVEALING_ACTIONS.includes(event.type) || event.type === 'SHUFFLE_LIBRARY'))) {
+      return {
+        success: false,
+        error: { code: 'UNDO_NOT_ALLOWED', message: 'Cards have been drawn, shuffled or shown this turn, so it cannot be rewound' }
+      }
+    }
+    return { success: true, data: turnStart }
+  }
+
+  // Take events back by replaying the log without them; nothing changes if a later event no longer applies.
+  // The sequence number keeps counting up, so clients never see an older seq after a rewind
+  rewind(gameId: string, seqs: readonly number[]): GameResult<GameState> {
+    const game = this.games.get(gameId)
+    if (!game) {
+      return { success: false, error: { code: 'GAME_NOT_FOUND', message: 'Game not found' } }
+    }
+
+    const undone = new Set(seqs)
+    const events = game.events.filter(event => !undone.has(event.seq))
+    const result = GameAuthority.fold(game.baseState, events)
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: 'UNDO_CONFLICT',
+          message: `That can't be undone without breaking a later action: ${result.error.message}`,
+          details: result.error
+        }
+      }
+    }
+
+    game.state = result.data
+    game.events = events
+    game.rewoundAt = game.seq
+    game.lastUpdated = Date.now()
+    return { success: true, data: game.state }
+  }
+
+  // Drop games nobody has touched for maxAge, returning how many were removed
+  cleanup(maxAge: number): number {
+    const now = Date.now()
+    let removed = 0
+    for (const [gameId, game] of this.games.entries()) {
+      if (now - game.lastUpdated > maxAge) {
+        this.games.delete(gameId)
+        removed++
+      }
+    }
+    return removed
+  }
+
+  // Forget a game this process no longer runs (its log and snapshots stay in storage)
+  removeGame(gameId: string): void {
+    this.games.delete(gameId)
+  }
+
+  clear(): void {
+    this.games.clear()
+  }
+
+  get size(): number {
+    return this.games.size
+  }
+
+  get gameIds(): string[] {
+    return [...this.games.keys()]
+  }
+
+  getPlayerSnapshot(gameId: string, playerId: string, viewerId: string | undefined): PlayerSnapshot {
+    const game = this.games.get(gameId)
+    return toPlayerSnapshot(game?.state, playerId, viewerId, game?.lastUpdated ?? Date.now())
+  }
+
+  getPlayerCounters(gameId: string): Record<string, PlayerCounters> {
+    const counters: Record<string, PlayerCounters> = {}
+    const state = this.games.get(gameId)?.state
+    if (!state) return counters
+
+    for (const [playerId, player] of state.players) {
+      counters[playerId] = GameAuthority.toCounters(player)
+    }
+    return counters
+  }
+
+  static toTurnState(state: GameState): TurnState {
+    return {
+      status: state.status,
+      turn: state.turn,
+      phase: state.phase,
+      currentPlayer: state.currentPlayer,
+      priorityPlayer: state.priorityPlayer,
+      turnOrder: GameEngine.getTurnOrder(state),
+      seats: [...state.players.values()].sort((a, b) => a.seatPosition - b.seatPosition).map(player => player.id),
+      mulliganRules: state.mulliganRules,
+      mulligans: Object.fromEntries(
+        [...state.players.values()].map(player => [player.id, GameAuthority.toMulliganStatus(state, player)])
+      ),
+      match: state.match,
+      sideboarded: [...state.players.values()].filter(player => player.sideboarded).map(player => player.id)
+    }
+  }
+
+  static toMulliganStatus(state: GameState, player: PlayerState): MulliganStatus {
+    const penalty = GameEngine.getMulliganPenalty(state.mulliganRules, player.mulligans)
+    return {
+      mulligans: player.mulligans,
+      kept: player.keptHand,
+      cardsToBottom: state.mulliganRules.type === 'london' ? Math.min(penalty, player.hand.length) : 0,
+      canScry: state.mulliganRules.type === 'vancouver' && penalty > 0
+    }
+  }
+
+  static toCounters(player: PlayerState): PlayerCounters {
+    return {
+      life: player.life,
+      poison: player.poison,
+      commanderDamage: player.commanderDamage,
+      eliminated: player.eliminated
+    }
+  }
+
+  private static fold(state: GameState, events: readonly SequencedEvent[]): GameResult<GameState> {
+    for (const event of events) {
+      const result = GameEngine.reduce(state, event)
+      if (!result.success) {
+        return result
+      }
+      state = result.data
+    }
+    return { success: true, data: state }
+  }
+
+  // Shuffles are always generated here from the game's seed - any order a client sends is ignored.
+  // Decks are shuffled as they are loaded, so no library is ever in an order a client picked
+  private static withShuffleOrder(game: AuthoritativeGame, action: GameAction, seq: number): GameResult<GameAction> {
+    if (action.type !== 'LOAD_DECK' && action.type !== 'SUBMIT_DECK' && action.type !== 'SHUFFLE_LIBRARY' && action.type !== 'MULLIGAN') {
+      return { success: true, data: action }
+    }
+
+    if (!game.shuffleSeed) {
+      return { success: false, error: { code: 'SHUFFLE_UNAVAILABLE', message: 'This game has no shuffle seed' } }
+    }
+
+    // A mulligan shuffles the hand back in along with the library
+    const player = game.state.players.get(action.playerId)
+    const shuffleSize = action.type === 'LOAD_DECK' || action.type === 'SUBMIT_DECK'
+      ? action.cards.length
+      : (player?.library.length ?? 0) + (action.type === 'MULLIGAN' ? player?.hand.length ?? 0 : 0)
+    return {
+      success: true,
+      data: { ...action, order: shuffleOrder(game.shuffleSeed.seed, seq, shuffleSize) }
+    }
+  }
+
+  // Players may only act on their own cards; joining is the one action a non-player may take
+  private static authorize(state: GameState, action: GameAction, actorId: string, asHost: boolean): GameResult<true> {
+    if (HOST_ACTIONS.includes(action.type) && !asHost) {
+      return { success: false, error: { code: 'NOT_HOST', message: 'Only the host can do that' } }
+    }
+
+    if (action.type === 'PLAYER_JOINED') {
+      return action.playerId === actorId
+        ? { success: true, data: true }
+        : { success: false, error: { code: 'NOT_AUTHORIZED', message: 'Players can only join as themselves' } }
+    }
+
+    if (!state.players.has(actorId as PlayerId)) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'You are not a player in this game' } }
+    }
+
+    if ('playerId' in action && action.playerId !== actorId && !SHARED_ACTIONS.includes(action.type)) {
+      return { success: false, error: { code: 'NOT_AUTHORIZED', message: 'You can only act on your own cards' } }
+    }
+
+    return { success: true, data: true }
+  }
+}
+
+export function toPlayerSnapshot(
+  state: GameState | undefined,
+  playerId: string,
+  viewerId: string | undefined,
+  lastUpdated: number
+): PlayerSnapshot {
+  const player = state?.players.get(playerId as PlayerId)
+  const view = player && projectPlayer(player, viewerId)
+
+  return {
+    battlefieldCards: view?.battlefield ?? [],
+    handCards: view?.hand ?? [],
+    handCount: view?.handCount ?? 0,
+    libraryCards: view?.library ?? [],
+    libraryCount: view?.libraryCount ?? 0,
+    lastUpdated
+  }
+}
+
+type SocketPayload = Record<string, unknown>
+
+function isPosition(value: unknown): value is Position {
+  const position = value as Position | undefined
+  return typeof position?.x === 'number' && typeof position?.y === 'number'
+}
+
+// Translate the playmat's socket events into engine actions (null when the payload is malformed)
+export function toGameAction(eventName: string, data: SocketPayload): GameAction | null {
+  const playerId = data.playerId as PlayerId
+  const cardId = data.cardId as InstanceId
+  if (typeof playerId !== 'string') return null
+
+  switch (eventName) {
+    case 'deck-loaded':
+      return Array.isArray(data.libraryCards)
+        ? { type: 'LOAD_DECK', playerId, cards: data.libraryCards as MTGCard[] }
+        : null
+
+    case 'card-drawn':
+      return { type: 'DRAW_CARD', playerId }
+
+    case 'library-shuffled':
+      return { type: 'SHUFFLE_LIBRARY', playerId }
+
+    case 'game-started':
+      return { type: 'START_GAME', playerId }
+
+    case 'phase-advanced':
+      return { type: 'NEXT_PHASE', playerId }
+
+    case 'turn-ended':
+      return { type: 'NEXT_TURN', playerId }
+
+    case 'priority-passed':
+      return { type: 'PASS_PRIORITY', playerId }
+
+    case 'mulligan-taken':
+      return { type: 'MULLIGAN', playerId }
+
+    case 'hand-kept': {
+      const bottom = data.bottom ?? []
+      return Array.isArray(bottom) && bottom.every(id => typeof id === 'string')
+        ? { type: 'KEEP_HAND', playerId, bottom: bottom as InstanceId[], scryToBottom: data.scryToBottom === true }
+        : null
+    }
+
+    case 'card-moved':
+      return typeof cardId === 'string' && isPosition(data.position)
+        ? { type: 'MOVE_CARD', playerId, cardId, position: data.position }
+        : null
+
+    case 'card-tapped':
+      return typeof cardId === 'string' && typeof data.tapped === 'boolean'
+        ? { type: 'TAP_CARD', playerId, cardId, tapped: data.tapped }
+        : null
+
+    case 'card-played': {
+      const card = data.card as { id?: string; instanceId?: string } | undefined
+      if (!card || typeof card.instanceId !== 'string' || !isPosition(data.position)) return null
+
+      // Library cards have no hand instance, so they move by card id
+      return data.from === 'library'
+        ? { type: 'MOVE_TO_ZONE', playerId, cardId: card.id as InstanceId, from: 'library', to: 'battlefield', position: data.position }
+        : { type: 'PLAY_CARD', playerId, cardId: card.instanceId.replace(/^battlefield-/, '') as InstanceId, position: data.position }
+    }
+
+    case 'card-revealed':
+      return typeof cardId === 'string' ? { type: 'REVEAL_CARD', playerId, cardId } : null
+
+    case 'hand-revealed':
+      return { type: 'REVEAL_HAND', playerId }
+
+    case 'library-arranged': {
+      const piles = [data.top ?? [], data.bottom ?? [], data.graveyard ?? []]
+      if (!piles.every(pile => Array.isArray(pile) && pile.every(id => typeof id === 'string'))) return null
+      const [top, bottom, graveyard] = piles as CardId[][]
+      return { type: 'ARRANGE_LIBRARY_TOP', playerId, top, bottom, graveyard }
+    }
+
+    case 'library-searched': {
+      const to = (data.to ?? 'hand') as Zone
+      if (data.cardId !== undefined && typeof cardId !== 'string') return null
+      if (to === 'battlefield' && !isPosition(data.position)) return null
+      return {
+        type: 'SEARCH_LIBRARY',
+        playerId,
+        ...(typeof cardId === 'string' ? { cardId: cardId as string as CardId } : {}),
+        to,
+        ...(isPosition(data.position) ? { position: data.position } : {})
+      }
+    }
+
+    case 'game-conceded':
+      return { type: 'CONCEDE', playerId }
+
+    case 'deck-submitted':
+      return Array.isArray(data.libraryCards)
+        ? { type: 'SUBMIT_DECK', playerId, cards: data.libraryCards as MTGCard[] }
+        : null
+
+    case 'library-top-revealed':
+      return { type: 'REVEAL_LIBRARY_TOP', playerId }
+
+    case 'player-kicked':
+      return typeof data.targetId === 'string' ? { type: 'KICK_PLAYER', playerId, targetId: data.targetId as PlayerId } : null
+
+    case 'seats-rearranged':
+      return Array.isArray(data.order) && data.order.every(id => typeof id === 'string')
+        ? { type: 'RESEAT_PLAYERS', playerId, order: data.order as PlayerId[] }
+        : null
+
+    case 'game-paused':
+      return { type: 'PAUSE_GAME', playerId }
+
+    case 'game-resumed':
+      return { type: 'RESUME_GAME', playerId }
+
+    case 'turn-skipped':
+      return typeof data.targetId === 'string' ? { type: 'SKIP_TURN', playerId, targetId: data.targetId as PlayerId } : null
+
+    case 'card-returned':
+      return typeof cardId === 'string' ? { type: 'RETURN_TO_HAND', playerId, cardId } : null
+
+    case 'card-destroyed':
+      return typeof cardId === 'string' ? { type: 'DESTROY_CARD', playerId, cardId } : null
+
+    // The playmat only exiles cards from the battlefield
+    case 'card-exiled':
+      return typeof cardId === 'string' ? { type: 'EXILE_CARD', playerId, cardId, from: 'battlefield' } : null
+
+    case 'card-counter-changed':
+      return typeof cardId === 'string' && typeof data.counter === 'string' && typeof data.amount === 'number'
+        ? { type: 'ADD_COUNTER', playerId, cardId, counter: data.counter, amount: data.amount }
+        : null
+
+    case 'token-created': {
+      const card = data.card as ({ instanceId?: string; type_line?: string } & Partial<TokenDefinition>) | undefined
+      if (!card || typeof card.instanceId !== 'string' || typeof card.name !== 'string' || !isPosition(data.position)) return null
+
+      // The playmat sends the whole battlefield card; only what makes up a token is kept
+      return {
+        type: 'CREATE_TOKEN',
+        playerId,
+        instanceId: card.instanceId as InstanceId,
+        token: {
+          name: card.name,
+          typeLine: card.typeLine ?? card.type_line,
+          power: card.power,
+          toughness: card.toughness,
+          colors: card.colors,
+          imageUris: card.imageUris
+        },
+        position: data.position
+      }
+    }
+
+    case 'card-attached':
+      if (typeof cardId !== 'string') return null
+      return typeof data.targetId === 'string'
+        ? { type: 'ATTACH_CARD', playerId, cardId, targetId: data.targetId as InstanceId }
+        : { type: 'DETACH_CARD', playerId, cardId }
+
+    case 'life-changed':
+      return typeof data.amount === 'number' ? { type: 'CHANGE_LIFE', playerId, amount: data.amount } : null
+
+    case 'poison-changed':
+      return typeof data.amount === 'number' ? { type: 'CHANGE_POISON', playerId, amount: data.amount } : null
+
+    case 'commander-damage':
+      return typeof data.sourcePlayerId === 'string' && typeof data.amount === 'number'
+        ? { type: 'COMMANDER_DAMAGE', playerId, sourcePlayerId: data.sourcePlayerId as PlayerId, amount: data.amount }
+        : null
+
+    default:
+      return null
+  }
+}
@@ -0,0 +1,109 @@
+import { randomUUID } from 'crypto'
+import { ClusterAdapterWithHeartbeat, ClusterAdapterOptions, ClusterMessage, ClusterResponse } from 'socket.io-adapter'
+import { cache } from '../cache/redis'
+import { PubSub } from '../cache/pubsub'
+
+// Identifies this server process among every process running the game server
+export const NODE_ID = randomUUID()
+
+// A game's owner holds its lease for this long unless renewed (the owner renews well before then)
+export const LEASE_TTL_SECONDS = 30
+export const LEASE_RENEW_INTERVAL = 10 * 1000
+
+// How long another process's ownership is trusted before asking the KV store again
+const OWNER_RECHECK_INTERVAL = 5 * 1000
+
+const leaseKey = (gameId: string) => `game:owner:${gameId}`
+
+// Socket.IO adapter that carries room broadcasts, joins, leaves and fetchSockets between processes over pub/sub.
+// Packets are sent as JSON, so nothing emitted to a room may contain binary data
+export function createPubSubAdapter(pubsub: PubSub, opts: ClusterAdapterOptions = {}) {
+  return class PubSubAdapter extends ClusterAdapterWithHeartbeat {
+    private readonly channel: string
+    private readonly unsubscribers: (() => void)[]
+
+    constructor(nsp: { name: string }) {
+      super(nsp, opts)
+      this.channel = `socket.io#${nsp.name}#`
+      this.unsubscribers = [
+        pubsub.subscribe<ClusterMessage>(this.channel, message => this.onMessage(message)),
+        pubsub.subscribe<ClusterResponse>(`${this.channel}${this.uid}#`, response => this.onResponse(response))
+      ]
+
+      // Socket.IO doesn't announce a new adapter, so say hello to the rest of the cluster here
+      this.init()
+    }
+
+    protected async doPublish(message: ClusterMessage): Promise<string> {
+      await pubsub.publish(this.channel, message)
+      return ''
+    }
+
+    protected async doPublishResponse(requesterUid: string, response: ClusterResponse): Promise<void> {
+      await pubsub.publish(`${this.channel}${requesterUid}#`, response)
+    }
+
+    close(): void {
+      super.close()
+      this.unsubscribers.forEach(unsubscribe => unsubscribe())
+    }
+  }
+}
+
+// Each game runs on exactly one process: the first to claim it holds a lease in the KV store and keeps it
+// for as long as the game stays in its memory. Other processes relay their sockets' events to the owner
+export class GameLeases {
+  private owners = new Map<string, { owner: string; checkedAt: number }>()
+
+  constructor(private nodeId: string = NODE_ID) {}
+
+  // The process that runs the game, claiming it for this one if nobody does
+  async ownerOf(gameId: string): Promise<string> {
+    const known = this.owners.get(gameId)
+    if (known && (known.owner === this.nodeId || Date.now() - known.checkedAt < OWNER_RECHECK_INTERVAL)) {
+      return known.owner
+    }
+
+    // If the KV store can't be reached the game runs here, which is right for a single process
+    const claimed = await cache.setIfAbsent(leaseKey(gameId), this.nodeId, LEASE_TTL_SECONDS)
+    const owner = claimed ? this.nodeId : (await cache.get<string>(leaseKey(gameId))) ?? this.nodeId
+    this.owners.set(gameId, { owner, checkedAt: Date.now() })
+    return owner
+  }
+
+  // Extend this process's leases, returning the games it turned out to have lost (e.g. after a long pause)
+  async renew(gameIds: readonly string[]): Promise<string[]> {
+    const lost: string[] = []
+    for (const gameId of gameIds) {
+      // Extending and reclaiming are each one step in the KV store, so a lease that lapses in between
+      // can't be taken by another process and then overwritten here
+      const kept = await cache.extendIfEquals(leaseKey(gameId), this.nodeId, LEASE_TTL_SECONDS) ||
+        await cache.setIfAbsent(leaseKey(gameId), this.nodeId, LEASE_TTL_SECONDS)
+      if (kept) {
+        this.owners.set(gameId, { owner: this.nodeId, checkedAt: Date.now() })
+      } else {
+        this.owners.delete(gameId)
+        lost.push(gameId)
+      }
+    }
+
+    // Games that left memory stop being renewed, so their leases lapse and any process may take them
+    const renewed = new Set(gameIds)
+    for (const [gameId, { owner }] of this.owners) {
+      if (owner === this.nodeId && !renewed.has(gameId)) {
+        this.owners.delete(gameId)
+      }
+    }
+    return lost
+  }
+
+  // Give up games this process dropped from memory, so the next event for them may claim them anywhere
+  async release(gameIds: readonly string[]): Promise<void> {
+    for (const gameId of gameIds) {
+      this.owners.delete(gameId)
+      await cache.deleteIfEquals(leaseKey(gameId), this.nodeId)
+    }
+  }
+}
+
+export const gameLeases = new GameLeases()
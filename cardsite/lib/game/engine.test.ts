@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import { GameEngine } from './engine'
+import { CardId, GameResult, GameState, MTGCard, PlayerId } from './types'
+
+const alice = 'alice' as PlayerId
+
+function deck(size: number): MTGCard[] {
+  return Array.from({ length: size }, (_, index) => ({ id: `card${index}-1` as CardId, name: `Card ${index}` }))
+}
+
+function ok<T>(result: GameResult<T>): T {
+  if (!result.success) throw new Error(`${result.error.code}: ${result.error.message}`)
+  return result.data
+}
+
+function withPlayer(): GameState {
+  const state = GameEngine.createInitialState('game', 'standard')
+  return ok(GameEngine.reduce(state, {
+    type: 'PLAYER_JOINED',
+    playerId: alice,
+    playerData: GameEngine.createPlayerState('Alice', 'standard', 0)
+  }))
+}
+
+describe('GameEngine deck loading', () => {
+  it('puts the library in the order it is given', () => {
+    const cards = deck(3)
+    const state = ok(GameEngine.reduce(withPlayer(), { type: 'LOAD_DECK', playerId: alice, cards, order: [2, 0, 1] }))
+
+    const player = state.players.get(alice)!
+    expect(player.library.map(card => card.id)).toEqual([cards[2].id, cards[0].id, cards[1].id])
+    expect(player.unshuffled).toBe(false)
+  })
+
+  it('turns down an order that is not a permutation of the deck', () => {
+    const result = GameEngine.reduce(withPlayer(), { type: 'LOAD_DECK', playerId: alice, cards: deck(3), order: [0, 0, 1] })
+
+    expect(result.success).toBe(false)
+    expect(!result.success && result.error.code).toBe('INVALID_SHUFFLE')
+  })
+
+  it('does not start a game on a library loaded without a shuffle', () => {
+    const loaded = ok(GameEngine.reduce(withPlayer(), { type: 'LOAD_DECK', playerId: alice, cards: deck(10) }))
+    expect(loaded.players.get(alice)!.unshuffled).toBe(true)
+
+    const refused = GameEngine.reduce(loaded, { type: 'START_GAME', playerId: alice })
+    expect(!refused.success && refused.error.code).toBe('LIBRARY_NOT_SHUFFLED')
+
+    const order = Array.from({ length: 10 }, (_, index) => 9 - index)
+    const shuffled = ok(GameEngine.reduce(loaded, { type: 'SHUFFLE_LIBRARY', playerId: alice, order }))
+    expect(ok(GameEngine.reduce(shuffled, { type: 'START_GAME', playerId: alice })).status).not.toBe('waiting')
+  })
+})
+
+describe('GameEngine mulligans', () => {
+  function dealt(): GameState {
+    const order = Array.from({ length: 10 }, (_, index) => index)
+    const loaded = ok(GameEngine.reduce(withPlayer(), { type: 'LOAD_DECK', playerId: alice, cards: deck(10), order }))
+    return ok(GameEngine.reduce(loaded, { type: 'START_GAME', playerId: alice }))
+  }
+
+  it('lets nobody play before every opening hand is kept', () => {
+    const state = dealt()
+    expect(state.status).toBe('mulligan')
+
+    const drawn = GameEngine.reduce(state, { type: 'DRAW_CARD', playerId: alice })
+    expect(!drawn.success && drawn.error.code).toBe('MULLIGAN_IN_PROGRESS')
+
+    const cardId = state.players.get(alice)!.hand[0].instanceId
+    const played = GameEngine.reduce(state, { type: 'PLAY_CARD', playerId: alice, cardId, position: { x: 0, y: 0 } })
+    expect(!played.success && played.error.code).toBe('MULLIGAN_IN_PROGRESS')
+
+    const kept = ok(GameEngine.reduce(state, { type: 'KEEP_HAND', playerId: alice, bottom: [] }))
+    expect(kept.status).toBe('active')
+    expect(GameEngine.reduce(kept, { type: 'DRAW_CARD', playerId: alice }).success).toBe(true)
+  })
+})
+
+describe('GameEngine.buildDeck', () => {
+  const stored = (id: string) => ({ id: id as CardId, name: `Stored ${id}`, oracleText: 'As printed' })
+  const deckList = {
+    mainboardSize: 3,
+    copies: { card0: 2, card1: 1, card2: 1 },
+    cards: { card0: stored('card0'), card1: stored('card1'), card2: stored('card2') }
+  }
+
+  it('builds the registered deck, sideboard swaps included', () => {
+    expect(ok(GameEngine.buildDeck(deckList, ['card0-1', 'card0-2', 'card1-1'])).map(card => card.id))
+      .toEqual(['card0-0', 'card0-1', 'card1-0'])
+    expect(GameEngine.buildDeck(deckList, ['card0-1', 'card2-1', 'card1-1']).success).toBe(true)
+  })
+
+  it('takes every card from the stored deck, whatever the client says it is', () => {
+    const [card] = ok(GameEngine.buildDeck(deckList, ['card0-7', 'card0-7', 'card1-0']))
+    expect(card).toEqual({ ...stored('card0'), id: 'card0-0' })
+  })
+
+  it('turns down a deck of the wrong size', () => {
+    const result = GameEngine.buildDeck(deckList, ['card0-1', 'card1-1'])
+    expect(!result.success && result.error.code).toBe('WRONG_DECK_SIZE')
+  })
+
+  it('turns down cards the deck does not have, or not that many times', () => {
+    const extra = GameEngine.buildDeck(deckList, ['card0-1', 'card1-1', 'card9-1'])
+    expect(!extra.success && extra.error.code).toBe('CARD_NOT_IN_DECK')
+
+    const copies = GameEngine.buildDeck(deckList, ['card1-1', 'card1-2', 'card0-1'])
+    expect(!copies.success && copies.error.code).toBe('CARD_NOT_IN_DECK')
+  })
+})
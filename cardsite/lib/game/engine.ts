@@ -2,22 +2,73 @@ import {
   GameState, 
   GameAction, 
   GameResult, 
-  GameError, 
+  GamePhase,
+  MulliganRules,
+  MulliganType,
   PlayerId, 
   PlayerState, 
   HandCard, 
   BattlefieldCard,
+  ZoneCard,
+  Zone,
+  TokenDefinition,
   InstanceId,
   Position,
   MTGCard,
-  CardId
+  CardId,
+  DeckList,
+  MatchState
 } from './types'
 
+// Fields that belong to a card's place in a zone rather than to the card itself
+const ZONE_FIELDS = ['instanceId', 'position', 'tapped', 'facedown', 'zIndex', 'playerId', 'counters', 'isToken', 'attachedTo'] as const
+
+// Starting life and loss thresholds from the comprehensive rules
+export const LIFE_RULES = {
+  COMMANDER_STARTING_LIFE: 40,
+  DEFAULT_STARTING_LIFE: 20,
+  LETHAL_POISON: 10,
+  LETHAL_COMMANDER_DAMAGE: 21,
+} as const
+
+// Steps of a turn in order; moving on from the last one starts the next player's turn
+export const TURN_PHASES: readonly GamePhase[] = ['untap', 'upkeep', 'draw', 'main1', 'combat', 'main2', 'end']
+
+export const OPENING_HAND_SIZE = 7
+
+// Between games of a match players only settle their decks (shuffling the new ones) or leave, and the host
+// can still remove a player or change the seats for the next game
+const SIDEBOARDING_ACTIONS: readonly GameAction['type'][] = ['SUBMIT_DECK', 'SHUFFLE_LIBRARY', 'PLAYER_LEFT', 'KICK_PLAYER', 'RESEAT_PLAYERS']
+
+// Until everyone has kept a hand nobody plays: players only settle their opening hands or concede, and can still
+// leave, be kicked or have the host pause the game
+const MULLIGAN_ACTIONS: readonly GameAction['type'][] = ['MULLIGAN', 'KEEP_HAND', 'CONCEDE', 'PLAYER_LEFT', 'KICK_PLAYER', 'PAUSE_GAME']
+
+// While the game is paused nothing happens on the board; players can still leave or be kicked
+const PAUSED_ACTIONS: readonly GameAction['type'][] = ['RESUME_GAME', 'KICK_PLAYER', 'PLAYER_LEFT']
+
 // Pure game logic - no side effects
 export class GameEngine {
   static reduce(state: GameState, action: GameAction): GameResult<GameState> {
+    // Once someone has won, players can only leave
+    if (state.status === 'ended' && action.type !== 'PLAYER_LEFT') {
+      return { success: false, error: { code: 'GAME_OVER', message: 'The game is over' } }
+    }
+    if (state.status === 'sideboarding' && !SIDEBOARDING_ACTIONS.includes(action.type)) {
+      return { success: false, error: { code: 'SIDEBOARDING', message: 'Players are sideboarding for the next game' } }
+    }
+    if (state.status === 'mulligan' && !MULLIGAN_ACTIONS.includes(action.type)) {
+      return { success: false, error: { code: 'MULLIGAN_IN_PROGRESS', message: 'Players are still choosing their opening hands' } }
+    }
+    if (state.status === 'paused' && !PAUSED_ACTIONS.includes(action.type)) {
+      return { success: false, error: { code: 'GAME_PAUSED', message: 'The host has paused the game' } }
+    }
+
     try {
       switch (action.type) {
+        case 'LOAD_DECK':
+          return GameEngine.loadDeck(state, action.playerId, action.cards, action.order)
+        
         case 'DRAW_CARD':
           return GameEngine.drawCard(state, action.playerId)
         
@@ -33,12 +84,99 @@ export class GameEngine {
         case 'RETURN_TO_HAND':
           return GameEngine.returnToHand(state, action.playerId, action.cardId)
         
+        case 'MOVE_TO_ZONE':
+          return GameEngine.moveToZone(state, action.playerId, action.cardId, action.from, action.to, action.position, action.toBottom)
+        
+        case 'DESTROY_CARD':
+          return GameEngine.moveToZone(state, action.playerId, action.cardId, 'battlefield', 'graveyard')
+        
+        case 'EXILE_CARD':
+          return GameEngine.moveToZone(state, action.playerId, action.cardId, action.from, 'exile')
+        
+        case 'SHUFFLE_LIBRARY':
+          return GameEngine.shuffleLibrary(state, action.playerId, action.order)
+        
+        case 'REVEAL_CARD':
+          return GameEngine.revealCard(state, action.playerId, action.cardId)
+        
+        case 'REVEAL_HAND':
+          return GameEngine.revealHand(state, action.playerId)
+
+        case 'ARRANGE_LIBRARY_TOP':
+          return GameEngine.arrangeLibraryTop(state, action.playerId, action.top, action.bottom, action.graveyard)
+
+        case 'SEARCH_LIBRARY':
+          return GameEngine.searchLibrary(state, action.playerId, action.cardId, action.to ?? 'hand', action.position)
+
+        case 'REVEAL_LIBRARY_TOP':
+          return GameEngine.revealLibraryTop(state, action.playerId)
+
+        case 'ADD_COUNTER':
+          return GameEngine.addCounter(state, action.playerId, action.cardId, action.counter, action.amount)
+        
+        case 'CREATE_TOKEN':
+          return GameEngine.createToken(state, action.playerId, action.instanceId, action.token, action.position)
+        
+        case 'ATTACH_CARD':
+          return GameEngine.attachCard(state, action.playerId, action.cardId, action.targetId)
+        
+        case 'DETACH_CARD':
+          return GameEngine.detachCard(state, action.playerId, action.cardId)
+        
+        case 'CHANGE_LIFE':
+          return GameEngine.changeLife(state, action.playerId, action.amount)
+        
+        case 'CHANGE_POISON':
+          return GameEngine.changePoison(state, action.playerId, action.amount)
+        
+        case 'COMMANDER_DAMAGE':
+          return GameEngine.dealCommanderDamage(state, action.playerId, action.sourcePlayerId, action.amount)
+        
         case 'PLAYER_JOINED':
           return GameEngine.addPlayer(state, action.playerId, action.playerData)
         
         case 'PLAYER_LEFT':
           return GameEngine.removePlayer(state, action.playerId)
         
+        case 'START_GAME':
+          return GameEngine.startGame(state)
+        
+        case 'NEXT_PHASE':
+          return GameEngine.nextPhase(state, action.playerId)
+        
+        case 'NEXT_TURN':
+          return GameEngine.nextTurn(state, action.playerId)
+        
+        case 'PASS_PRIORITY':
+          return GameEngine.passPriority(state, action.playerId)
+        
+        case 'MULLIGAN':
+          return GameEngine.mulligan(state, action.playerId, action.order)
+        
+        case 'KEEP_HAND':
+          return GameEngine.keepHand(state, action.playerId, action.bottom, action.scryToBottom ?? false)
+
+        case 'CONCEDE':
+          return GameEngine.concede(state, action.playerId)
+
+        case 'SUBMIT_DECK':
+          return GameEngine.submitDeck(state, action.playerId, action.cards, action.order)
+
+        case 'KICK_PLAYER':
+          return GameEngine.kickPlayer(state, action.playerId, action.targetId)
+
+        case 'RESEAT_PLAYERS':
+          return GameEngine.reseatPlayers(state, action.order)
+
+        case 'PAUSE_GAME':
+          return GameEngine.pauseGame(state)
+
+        case 'RESUME_GAME':
+          return GameEngine.resumeGame(state)
+
+        case 'SKIP_TURN':
+          return GameEngine.skipTurn(state, action.targetId)
+        
         default:
           return { success: false, error: { code: 'INVALID_ACTION', message: 'Unknown action type' } }
       }
@@ -54,6 +192,42 @@ export class GameEngine {
     }
   }
 
+  private static loadDeck(state: GameState, playerId: PlayerId, cards: readonly MTGCard[], order: readonly number[] | undefined): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    // A deck can only be loaded once, before any of its cards are in play
+    const zones: Zone[] = ['hand', 'library', 'battlefield', 'graveyard', 'exile', 'command']
+    if (zones.some(zone => player[zone].length > 0)) {
+      return { success: false, error: { code: 'DECK_ALREADY_LOADED', message: 'Player already has cards in play' } }
+    }
+
+    const deck = GameEngine.shuffleDeck(cards, order)
+    if (!deck.success) return deck
+
+    return GameEngine.updatePlayer(state, { ...player, ...deck.data })
+  }
+
+  // A deck comes in list order and goes into the library in the order the server shuffled it to. Without one
+  // (only in event logs from before decks were shuffled as they were loaded) the library stays in list order,
+  // and the game can't start until a shuffle has followed
+  private static shuffleDeck(
+    cards: readonly MTGCard[],
+    order: readonly number[] | undefined
+  ): GameResult<Pick<PlayerState, 'library' | 'unshuffled'>> {
+    const library = cards.map(GameEngine.stripZoneFields)
+    if (order === undefined) {
+      return { success: true, data: { library, unshuffled: true } }
+    }
+
+    if (!GameEngine.isPermutation(order, library.length)) {
+      return { success: false, error: { code: 'INVALID_SHUFFLE', message: 'Shuffle order must be a permutation of the deck' } }
+    }
+    return { success: true, data: { library: order.map(index => library[index]), unshuffled: false } }
+  }
+
   private static drawCard(state: GameState, playerId: PlayerId): GameResult<GameState> {
     const player = state.players.get(playerId)
     if (!player) {
@@ -67,7 +241,7 @@ export class GameEngine {
     const drawnCard = player.library[0]
     const newHandCard: HandCard = {
       ...drawnCard,
-      instanceId: `hand-${drawnCard.id}-${Date.now()}-${playerId}` as InstanceId
+      instanceId: `hand-${drawnCard.id}` as InstanceId
     }
 
     const updatedPlayer: PlayerState = {
@@ -111,7 +285,8 @@ export class GameEngine {
     const updatedPlayer: PlayerState = {
       ...player,
       hand: player.hand.filter(card => card.instanceId !== cardId),
-      battlefield: [...player.battlefield, battlefieldCard]
+      battlefield: [...player.battlefield, battlefieldCard],
+      revealed: player.revealed.filter(id => id !== cardId)
     }
 
     const newPlayers = new Map(state.players)
@@ -171,12 +346,26 @@ export class GameEngine {
       return { success: false, error: { code: 'CARD_NOT_ON_BATTLEFIELD', message: 'Card not found on battlefield' } }
     }
 
-    const updatedBattlefield = [...player.battlefield]
-    updatedBattlefield[cardIndex] = {
-      ...updatedBattlefield[cardIndex],
-      position,
-      zIndex: Math.max(...player.battlefield.map(c => c.zIndex), 0) + 1
-    }
+    // Attached auras/equipment keep their offset from the card they are attached to
+    const movedCard = player.battlefield[cardIndex]
+    const delta = { x: position.x - movedCard.position.x, y: position.y - movedCard.position.y }
+    const attachments = player.battlefield.filter(card => card.attachedTo === cardId)
+    const baseZIndex = Math.max(...player.battlefield.map(c => c.zIndex), 0) + 1
+
+    const updatedBattlefield = player.battlefield.map(card => {
+      if (card.instanceId === cardId) {
+        return { ...card, position, zIndex: baseZIndex + attachments.length }
+      }
+      const attachmentIndex = attachments.indexOf(card)
+      if (attachmentIndex !== -1) {
+        return {
+          ...card,
+          position: { x: card.position.x + delta.x, y: card.position.y + delta.y },
+          zIndex: baseZIndex + attachmentIndex
+        }
+      }
+      return card
+    })
 
     const updatedPlayer: PlayerState = {
       ...player,
@@ -207,14 +396,15 @@ export class GameEngine {
     }
 
     const handCard: HandCard = {
-      ...battlefieldCard,
-      instanceId: `hand-${battlefieldCard.id}-${Date.now()}` as InstanceId
+      ...GameEngine.stripZoneFields(battlefieldCard),
+      instanceId: `hand-${battlefieldCard.id}` as InstanceId
     }
 
+    // Tokens cease to exist when they leave the battlefield
     const updatedPlayer: PlayerState = {
       ...player,
-      hand: [...player.hand, handCard],
-      battlefield: player.battlefield.filter(card => card.instanceId !== cardId)
+      hand: battlefieldCard.isToken ? player.hand : [...player.hand, handCard],
+      battlefield: GameEngine.removeFromBattlefield(player.battlefield, cardId)
     }
 
     const newPlayers = new Map(state.players)
@@ -229,6 +419,456 @@ export class GameEngine {
     }
   }
 
+  private static moveToZone(
+    state: GameState,
+    playerId: PlayerId,
+    cardId: InstanceId,
+    from: Zone,
+    to: Zone,
+    position?: Position,
+    toBottom = false
+  ): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    if (from === to) {
+      return { success: false, error: { code: 'INVALID_MOVE', message: `Card is already in the ${to}` } }
+    }
+
+    if (to === 'battlefield' && !position) {
+      return { success: false, error: { code: 'POSITION_REQUIRED', message: 'A position is required to put a card onto the battlefield' } }
+    }
+
+    const sourceCards: readonly MTGCard[] = player[from]
+    const cardIndex = sourceCards.findIndex(card => GameEngine.zoneCardId(card, from) === cardId)
+    if (cardIndex === -1) {
+      return { success: false, error: { code: 'CARD_NOT_IN_ZONE', message: `Card not found in ${from}` } }
+    }
+
+    const movedCard = GameEngine.stripZoneFields(sourceCards[cardIndex])
+    const isTokenLeavingBattlefield = from === 'battlefield' && (sourceCards[cardIndex] as BattlefieldCard).isToken === true
+    // Keep instance ids stable across zones so moves are deterministic when events are replayed
+    const baseInstanceId = from === 'library' ? movedCard.id : cardId.replace(/^battlefield-/, '')
+
+    let updatedPlayer: PlayerState = from === 'battlefield'
+      ? { ...player, battlefield: GameEngine.removeFromBattlefield(player.battlefield, cardId) }
+      : { ...player, [from]: sourceCards.filter((_, index) => index !== cardIndex) }
+
+    // A revealed card goes back to being hidden information once it leaves the hand
+    if (from === 'hand') {
+      updatedPlayer = { ...updatedPlayer, revealed: player.revealed.filter(id => id !== cardId) }
+    }
+
+    // Tokens cease to exist when they leave the battlefield
+    if (isTokenLeavingBattlefield) {
+      return GameEngine.updatePlayer(state, updatedPlayer)
+    }
+
+    switch (to) {
+      case 'library':
+        updatedPlayer = {
+          ...updatedPlayer,
+          library: toBottom ? [...updatedPlayer.library, movedCard] : [movedCard, ...updatedPlayer.library]
+        }
+        break
+
+      case 'battlefield': {
+        const battlefieldCard: BattlefieldCard = {
+          ...movedCard,
+          instanceId: `battlefield-${baseInstanceId}` as InstanceId,
+          position: position!,
+          tapped: false,
+          zIndex: Math.max(...updatedPlayer.battlefield.map(c => c.zIndex), 0) + 1,
+          playerId
+        }
+        updatedPlayer = { ...updatedPlayer, battlefield: [...updatedPlayer.battlefield, battlefieldCard] }
+        break
+      }
+
+      default: {
+        const zoneCard: ZoneCard = {
+          ...movedCard,
+          instanceId: (from === 'library' ? `${to}-${baseInstanceId}` : baseInstanceId) as InstanceId
+        }
+        updatedPlayer = { ...updatedPlayer, [to]: [...updatedPlayer[to], zoneCard] }
+      }
+    }
+
+    return GameEngine.updatePlayer(state, updatedPlayer)
+  }
+
+  // The permutation comes with the action so replaying the log always gives the same library
+  private static shuffleLibrary(state: GameState, playerId: PlayerId, order: readonly number[] | undefined): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    if (!GameEngine.isPermutation(order, player.library.length)) {
+      return { success: false, error: { code: 'INVALID_SHUFFLE', message: 'Shuffle order must be a permutation of the library' } }
+    }
+
+    return GameEngine.updatePlayer(state, { ...player, library: order.map(index => player.library[index]), unshuffled: false })
+  }
+
+  private static isPermutation(order: readonly number[] | undefined, size: number): order is readonly number[] {
+    return !!order && order.length === size &&
+      new Set(order).size === size &&
+      order.every(index => Number.isInteger(index) && index >= 0 && index < size)
+  }
+
+  private static revealCard(state: GameState, playerId: PlayerId, cardId: InstanceId): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    if (!player.hand.some(card => card.instanceId === cardId)) {
+      return { success: false, error: { code: 'CARD_NOT_IN_HAND', message: 'Card not found in hand' } }
+    }
+
+    if (player.revealed.includes(cardId)) {
+      return { success: true, data: state }
+    }
+
+    return GameEngine.updatePlayer(state, { ...player, revealed: [...player.revealed, cardId] })
+  }
+
+  private static revealHand(state: GameState, playerId: PlayerId): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    if (player.hand.length === 0) {
+      return { success: false, error: { code: 'EMPTY_HAND', message: 'There are no cards in hand to reveal' } }
+    }
+
+    return GameEngine.updatePlayer(state, { ...player, revealed: player.hand.map(card => card.instanceId) })
+  }
+
+  private static arrangeLibraryTop(
+    state: GameState,
+    playerId: PlayerId,
+    top: readonly CardId[],
+    bottom: readonly CardId[],
+    graveyard: readonly CardId[]
+  ): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    const arranged = [...top, ...bottom, ...graveyard]
+    const count = arranged.length
+    if (count === 0 || count > player.library.length) {
+      return { success: false, error: { code: 'INVALID_COUNT', message: `Choose between 1 and ${player.library.length} cards from the top of your library` } }
+    }
+
+    // Every looked-at card has to be placed exactly once, and nothing from deeper in the library
+    const looked = player.library.slice(0, count)
+    const lookedIds = looked.map(card => card.id)
+    if (new Set(arranged).size !== count || !arranged.every(cardId => lookedIds.includes(cardId))) {
+      return { success: false, error: { code: 'CARD_NOT_IN_ZONE', message: `Only the top ${count} cards of the library can be arranged` } }
+    }
+
+    const byId = (cardId: CardId) => looked.find(card => card.id === cardId)!
+    const updatedPlayer: PlayerState = {
+      ...player,
+      library: [...top.map(byId), ...player.library.slice(count), ...bottom.map(byId)],
+      // Same instance ids as moving each card from the library one at a time
+      graveyard: [
+        ...player.graveyard,
+        ...graveyard.map(cardId => ({ ...byId(cardId), instanceId: `graveyard-${cardId}` as InstanceId }))
+      ]
+    }
+    return GameEngine.updatePlayer(state, updatedPlayer)
+  }
+
+  private static searchLibrary(
+    state: GameState,
+    playerId: PlayerId,
+    cardId: CardId | undefined,
+    to: Zone,
+    position?: Position
+  ): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    // Failing to find is always allowed, and leaves the library as it was
+    if (!cardId) {
+      return { success: true, data: state }
+    }
+
+    return GameEngine.moveToZone(state, playerId, cardId as string as InstanceId, 'library', to, position)
+  }
+
+  // Nothing changes hands; the server shows everyone the card and the event keeps it in the log
+  private static revealLibraryTop(state: GameState, playerId: PlayerId): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    if (player.library.length === 0) {
+      return { success: false, error: { code: 'EMPTY_LIBRARY', message: 'There are no cards in the library to reveal' } }
+    }
+
+    return { success: true, data: state }
+  }
+
+  private static addCounter(state: GameState, playerId: PlayerId, cardId: InstanceId, counter: string, amount: number): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    const counterName = counter.trim()
+    if (!counterName) {
+      return { success: false, error: { code: 'INVALID_COUNTER', message: 'Counter name is required' } }
+    }
+
+    const card = player.battlefield.find(c => c.instanceId === cardId)
+    if (!card) {
+      return { success: false, error: { code: 'CARD_NOT_ON_BATTLEFIELD', message: 'Card not found on battlefield' } }
+    }
+
+    const counters = { ...card.counters }
+    const total = Math.max(0, (counters[counterName] ?? 0) + amount)
+    if (total === 0) {
+      delete counters[counterName]
+    } else {
+      counters[counterName] = total
+    }
+
+    return GameEngine.updatePlayer(state, {
+      ...player,
+      battlefield: player.battlefield.map(c => c.instanceId === cardId ? { ...c, counters } : c)
+    })
+  }
+
+  private static createToken(state: GameState, playerId: PlayerId, instanceId: InstanceId, token: TokenDefinition, position: Position): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    if (!token.name.trim()) {
+      return { success: false, error: { code: 'INVALID_TOKEN', message: 'Token name is required' } }
+    }
+
+    if (player.battlefield.some(card => card.instanceId === instanceId)) {
+      return { success: false, error: { code: 'DUPLICATE_INSTANCE', message: 'A card with this instance id is already on the battlefield' } }
+    }
+
+    const tokenCard: BattlefieldCard = {
+      id: `token-${instanceId}` as CardId,
+      name: token.name.trim(),
+      typeLine: token.typeLine,
+      power: token.power,
+      toughness: token.toughness,
+      colors: token.colors,
+      imageUris: token.imageUris,
+      instanceId,
+      position,
+      tapped: false,
+      zIndex: Math.max(...player.battlefield.map(c => c.zIndex), 0) + 1,
+      playerId,
+      isToken: true
+    }
+
+    return GameEngine.updatePlayer(state, {
+      ...player,
+      battlefield: [...player.battlefield, tokenCard]
+    })
+  }
+
+  private static attachCard(state: GameState, playerId: PlayerId, cardId: InstanceId, targetId: InstanceId): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    const card = player.battlefield.find(c => c.instanceId === cardId)
+    const target = player.battlefield.find(c => c.instanceId === targetId)
+    if (!card || !target) {
+      return { success: false, error: { code: 'CARD_NOT_ON_BATTLEFIELD', message: 'Card not found on battlefield' } }
+    }
+
+    // Only one level of attachment: no attaching to yourself, to an attachment, or carrying your own attachments
+    if (cardId === targetId || target.attachedTo || player.battlefield.some(c => c.attachedTo === cardId)) {
+      return { success: false, error: { code: 'INVALID_ATTACHMENT', message: 'Card cannot be attached to that target' } }
+    }
+
+    // Tuck the attachment just above and behind its host
+    const baseZIndex = Math.max(...player.battlefield.map(c => c.zIndex), 0) + 1
+    return GameEngine.updatePlayer(state, {
+      ...player,
+      battlefield: player.battlefield.map(c => {
+        if (c.instanceId === cardId) {
+          return { ...c, attachedTo: targetId, position: { x: target.position.x, y: target.position.y - 30 }, zIndex: baseZIndex }
+        }
+        if (c.instanceId === targetId) {
+          return { ...c, zIndex: baseZIndex + 1 }
+        }
+        return c
+      })
+    })
+  }
+
+  private static detachCard(state: GameState, playerId: PlayerId, cardId: InstanceId): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    const card = player.battlefield.find(c => c.instanceId === cardId)
+    if (!card) {
+      return { success: false, error: { code: 'CARD_NOT_ON_BATTLEFIELD', message: 'Card not found on battlefield' } }
+    }
+
+    if (!card.attachedTo) {
+      return { success: false, error: { code: 'NOT_ATTACHED', message: 'Card is not attached to anything' } }
+    }
+
+    return GameEngine.updatePlayer(state, {
+      ...player,
+      battlefield: player.battlefield.map(c => c.instanceId === cardId ? { ...c, attachedTo: undefined } : c)
+    })
+  }
+
+  // Remove a card from the battlefield and unattach anything that was attached to it
+  private static removeFromBattlefield(battlefield: readonly BattlefieldCard[], cardId: InstanceId): BattlefieldCard[] {
+    return battlefield
+      .filter(card => card.instanceId !== cardId)
+      .map(card => card.attachedTo === cardId ? { ...card, attachedTo: undefined } : card)
+  }
+
+  private static changeLife(state: GameState, playerId: PlayerId, amount: number): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    return GameEngine.updatePlayer(state, GameEngine.checkElimination({
+      ...player,
+      life: player.life + amount
+    }))
+  }
+
+  private static changePoison(state: GameState, playerId: PlayerId, amount: number): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    return GameEngine.updatePlayer(state, GameEngine.checkElimination({
+      ...player,
+      poison: Math.max(0, player.poison + amount)
+    }))
+  }
+
+  private static dealCommanderDamage(state: GameState, playerId: PlayerId, sourcePlayerId: PlayerId, amount: number): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player || !state.players.has(sourcePlayerId)) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    const previousDamage = player.commanderDamage[sourcePlayerId] ?? 0
+    const totalDamage = Math.max(0, previousDamage + amount)
+
+    // Commander damage is still damage, so it comes off the life total as well
+    return GameEngine.updatePlayer(state, GameEngine.checkElimination({
+      ...player,
+      life: player.life - (totalDamage - previousDamage),
+      commanderDamage: { ...player.commanderDamage, [sourcePlayerId]: totalDamage }
+    }))
+  }
+
+  // Recomputed on every change so a corrected misclick brings the player back
+  private static checkElimination(player: PlayerState): PlayerState {
+    const commanderDamage = Object.values(player.commanderDamage) as number[]
+    const eliminated = player.conceded === true ||
+      player.life <= 0 ||
+      player.poison >= LIFE_RULES.LETHAL_POISON ||
+      commanderDamage.some(damage => damage >= LIFE_RULES.LETHAL_COMMANDER_DAMAGE)
+
+    return eliminated === player.eliminated ? player : { ...player, eliminated }
+  }
+
+  // Library cards are identified by card id, every other zone by instance id
+  private static zoneCardId(card: MTGCard, zone: Zone): string {
+    return zone === 'library' ? card.id : (card as ZoneCard).instanceId
+  }
+
+  // Drop per-zone fields (instance id, position, tap state...) so only the card data moves
+  private static stripZoneFields(card: MTGCard): MTGCard {
+    const cardData: Record<string, unknown> = { ...card }
+    for (const field of ZONE_FIELDS) {
+      delete cardData[field]
+    }
+    return cardData as unknown as MTGCard
+  }
+
+  private static updatePlayer(state: GameState, updatedPlayer: PlayerState): GameResult<GameState> {
+    const newPlayers = new Map(state.players)
+    newPlayers.set(updatedPlayer.id, GameEngine.trackElimination(state, updatedPlayer))
+
+    return {
+      success: true,
+      data: GameEngine.checkGameOver({
+        ...state,
+        players: newPlayers
+      })
+    }
+  }
+
+  // Number players off as they are knocked out (and forget it if they come back, e.g. by gaining life)
+  private static trackElimination(state: GameState, player: PlayerState): PlayerState {
+    const wasEliminated = state.players.get(player.id)?.eliminated ?? false
+    if (player.eliminated && !wasEliminated) {
+      const alreadyOut = [...state.players.values()].filter(other => other.eliminated).length
+      return { ...player, eliminationOrder: alreadyOut + 1 }
+    }
+    if (!player.eliminated && player.eliminationOrder !== undefined) {
+      return { ...player, eliminationOrder: undefined }
+    }
+    return player
+  }
+
+  // The game ends as soon as at most one player is left standing
+  private static checkGameOver(state: GameState): GameState {
+    if ((state.status !== 'active' && state.status !== 'mulligan') || state.players.size < 2) {
+      return state
+    }
+    const standing = GameEngine.getTurnOrder(state)
+    if (standing.length > 1) {
+      return state
+    }
+    return state.match ? GameEngine.scoreMatchGame(state, state.match, standing[0]) : { ...state, status: 'ended' }
+  }
+
+  // A match is over once someone has won most of its games; until then the players sideboard for the next one.
+  // Drawn games don't count towards either player, so they are replayed
+  private static scoreMatchGame(state: GameState, match: MatchState, winner: PlayerId | undefined): GameState {
+    if (!winner) {
+      return { ...state, status: 'sideboarding' }
+    }
+
+    const won = (match.wins[winner] ?? 0) + 1
+    const wins = { ...match.wins, [winner]: won }
+    const loser = [...state.players.keys()].find(id => id !== winner)
+    return {
+      ...state,
+      status: won > match.bestOf / 2 ? 'ended' : 'sideboarding',
+      match: { ...match, wins, startingPlayer: loser }
+    }
+  }
+
   private static addPlayer(state: GameState, playerId: PlayerId, playerData: Omit<PlayerState, 'id'>): GameResult<GameState> {
     if (state.players.has(playerId)) {
       return { success: false, error: { code: 'PLAYER_ALREADY_EXISTS', message: 'Player already in game' } }
@@ -268,15 +908,552 @@ export class GameEngine {
     }
   }
 
+  // Deal every player an opening hand from their shuffled library; turn 1 waits until all of them keep
+  private static startGame(state: GameState): GameResult<GameState> {
+    if (state.status !== 'waiting') {
+      return { success: false, error: { code: 'GAME_ALREADY_STARTED', message: 'The game has already started' } }
+    }
+
+    if (GameEngine.getTurnOrder(state).length === 0) {
+      return { success: false, error: { code: 'NO_PLAYERS', message: 'There are no players to start the game with' } }
+    }
+
+    if (state.match && state.players.size !== 2) {
+      return { success: false, error: { code: 'MATCH_NEEDS_TWO_PLAYERS', message: 'A match is played between two players' } }
+    }
+
+    // Nobody gets to deal themselves an opening hand from a library they stacked
+    if ([...state.players.values()].some(player => player.unshuffled)) {
+      return { success: false, error: { code: 'LIBRARY_NOT_SHUFFLED', message: 'Every library has to be shuffled before the game starts' } }
+    }
+
+    const players = new Map(state.players)
+    for (const player of state.players.values()) {
+      players.set(player.id, GameEngine.drawCards(player, OPENING_HAND_SIZE - player.hand.length))
+    }
+
+    return { success: true, data: { ...state, players, status: 'mulligan' } }
+  }
+
+  private static mulligan(state: GameState, playerId: PlayerId, order: readonly number[] | undefined): GameResult<GameState> {
+    const checked = GameEngine.checkCanMulligan(state, playerId)
+    if (!checked.success) return checked
+    const player = checked.data
+
+    const mulligans = player.mulligans + 1
+    const penalty = GameEngine.getMulliganPenalty(state.mulliganRules, mulligans)
+    if (penalty > OPENING_HAND_SIZE) {
+      return { success: false, error: { code: 'MULLIGAN_LIMIT', message: 'There are no cards left to mulligan to' } }
+    }
+
+    // The hand goes back into the library and the whole lot is shuffled together
+    const deck = [...player.library, ...player.hand.map(GameEngine.stripZoneFields)]
+    if (!GameEngine.isPermutation(order, deck.length)) {
+      return { success: false, error: { code: 'INVALID_SHUFFLE', message: 'Shuffle order must be a permutation of the library' } }
+    }
+
+    const shuffledPlayer: PlayerState = {
+      ...player,
+      hand: [],
+      library: order.map(index => deck[index]),
+      revealed: [],
+      mulligans
+    }
+    const handSize = state.mulliganRules.type === 'vancouver' ? OPENING_HAND_SIZE - penalty : OPENING_HAND_SIZE
+
+    return GameEngine.updatePlayer(state, GameEngine.drawCards(shuffledPlayer, handSize))
+  }
+
+  private static keepHand(state: GameState, playerId: PlayerId, bottom: readonly InstanceId[], scryToBottom: boolean): GameResult<GameState> {
+    const checked = GameEngine.checkCanMulligan(state, playerId)
+    if (!checked.success) return checked
+    const player = checked.data
+
+    const penalty = GameEngine.getMulliganPenalty(state.mulliganRules, player.mulligans)
+    const cardsToBottom = state.mulliganRules.type === 'london' ? Math.min(penalty, player.hand.length) : 0
+    if (bottom.length !== cardsToBottom || new Set(bottom).size !== bottom.length) {
+      return {
+        success: false,
+        error: {
+          code: 'WRONG_BOTTOM_COUNT',
+          message: `Put exactly ${cardsToBottom} card${cardsToBottom === 1 ? '' : 's'} on the bottom of your library`,
+          details: { cardsToBottom }
+        }
+      }
+    }
+
+    const bottomCards = bottom.map(cardId => player.hand.find(card => card.instanceId === cardId))
+    if (bottomCards.some(card => !card)) {
+      return { success: false, error: { code: 'CARD_NOT_IN_HAND', message: 'Card not found in hand' } }
+    }
+
+    const canScry = state.mulliganRules.type === 'vancouver' && penalty > 0
+    if (scryToBottom && !canScry) {
+      return { success: false, error: { code: 'NO_SCRY', message: 'Only a Vancouver mulligan to fewer than seven cards scries 1' } }
+    }
+
+    let library = [...player.library, ...bottomCards.map(card => GameEngine.stripZoneFields(card!))]
+    if (scryToBottom && library.length > 0) {
+      library = [...library.slice(1), library[0]]
+    }
+
+    const keptPlayer: PlayerState = {
+      ...player,
+      hand: player.hand.filter(card => !bottom.includes(card.instanceId)),
+      library,
+      revealed: player.revealed.filter(id => !bottom.includes(id)),
+      keptHand: true
+    }
+
+    const updated = GameEngine.updatePlayer(state, keptPlayer)
+    if (!updated.success) return updated
+
+    // The first turn begins once every seat has kept
+    const waitingOn = GameEngine.getTurnOrder(updated.data).filter(id => !updated.data.players.get(id)!.keptHand)
+    if (waitingOn.length > 0) {
+      return updated
+    }
+
+    return { success: true, data: GameEngine.beginTurn({ ...updated.data, status: 'active' }, GameEngine.getStartingPlayer(updated.data), 1) }
+  }
+
+  // Conceding leaves the game at once; the turn, priority or the wait for opening hands moves on without them
+  private static concede(state: GameState, playerId: PlayerId): GameResult<GameState> {
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    if (state.status !== 'active' && state.status !== 'mulligan') {
+      return { success: false, error: { code: 'GAME_NOT_ACTIVE', message: 'The game is not in progress' } }
+    }
+
+    if (player.eliminated) {
+      return { success: false, error: { code: 'ALREADY_ELIMINATED', message: 'You are already out of the game' } }
+    }
+
+    const updated = GameEngine.updatePlayer(state, { ...player, conceded: true, eliminated: true })
+    if (!updated.success) return updated
+    const next = updated.data
+
+    if (next.status === 'active' && next.currentPlayer === playerId) {
+      return { success: true, data: GameEngine.endTurn(next) }
+    }
+    if (next.status === 'active' && next.priorityPlayer === playerId) {
+      return { success: true, data: { ...next, priorityPlayer: GameEngine.getNextPlayer(next, playerId) } }
+    }
+
+    const turnOrder = GameEngine.getTurnOrder(next)
+    if (next.status === 'mulligan' && turnOrder.every(id => next.players.get(id)!.keptHand)) {
+      return { success: true, data: GameEngine.beginTurn({ ...next, status: 'active' }, GameEngine.getStartingPlayer(next), 1) }
+    }
+
+    return updated
+  }
+
+  // Before the game starts a kicked player simply loses their seat; once it has, they are out of it as if they had
+  // conceded, so the game can still be scored. Between games of a match they forfeit the rest of it
+  private static kickPlayer(state: GameState, playerId: PlayerId, targetId: PlayerId): GameResult<GameState> {
+    if (targetId === playerId) {
+      return { success: false, error: { code: 'CANNOT_KICK_SELF', message: 'You cannot kick yourself' } }
+    }
+
+    const target = state.players.get(targetId)
+    if (!target) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    if (state.status === 'waiting') {
+      return GameEngine.removePlayer(state, targetId)
+    }
+
+    // The boards still show how the last game went, so who was knocked out of it doesn't matter here
+    if (state.status === 'sideboarding') {
+      const players = new Map(state.players)
+      for (const player of state.players.values()) {
+        players.set(player.id, player.id === targetId
+          ? { ...player, conceded: true, eliminated: true, eliminationOrder: 1 }
+          : { ...player, conceded: false, eliminated: false, eliminationOrder: undefined })
+      }
+      return { success: true, data: { ...state, players, status: 'ended' } }
+    }
+
+    // Someone already out of the game only has their seat to lose
+    if (target.eliminated) {
+      return { success: true, data: state }
+    }
+
+    if (state.status === 'paused' && state.pausedFrom) {
+      const kicked = GameEngine.concede({ ...state, status: state.pausedFrom, pausedFrom: undefined }, targetId)
+      if (!kicked.success) return kicked
+      // The game stays paused, unless the kick has just ended it
+      const next = kicked.data
+      return {
+        success: true,
+        data: next.status === 'active' || next.status === 'mulligan' ? { ...next, status: 'paused', pausedFrom: next.status } : next
+      }
+    }
+
+    return GameEngine.concede(state, targetId)
+  }
+
+  // The host can rearrange who sits where until the game starts; the players share out the same seat numbers
+  private static reseatPlayers(state: GameState, order: readonly PlayerId[]): GameResult<GameState> {
+    if (state.status !== 'waiting' && state.status !== 'sideboarding') {
+      return { success: false, error: { code: 'GAME_ALREADY_STARTED', message: 'Seats can only be changed before a game starts' } }
+    }
+
+    if (order.length !== state.players.size || new Set(order).size !== order.length || order.some(id => !state.players.has(id))) {
+      return { success: false, error: { code: 'INVALID_SEATING', message: 'The new seating must list every player once' } }
+    }
+
+    const seats = [...state.players.values()].map(player => player.seatPosition).sort((a, b) => a - b)
+    const players = new Map(state.players)
+    order.forEach((id, index) => {
+      players.set(id, { ...state.players.get(id)!, seatPosition: seats[index] })
+    })
+
+    return { success: true, data: { ...state, players } }
+  }
+
+  // Whoever the game is waiting on doesn't get to hold it up: their turn ends, or they pass priority
+  private static skipTurn(state: GameState, targetId: PlayerId): GameResult<GameState> {
+    if (state.status !== 'active') {
+      return { success: false, error: { code: 'GAME_NOT_ACTIVE', message: 'The game is not in progress' } }
+    }
+
+    if (state.currentPlayer === targetId) {
+      return { success: true, data: GameEngine.endTurn(state) }
+    }
+    if (state.priorityPlayer === targetId) {
+      return GameEngine.passPriority(state, targetId)
+    }
+
+    return { success: false, error: { code: 'NOT_WAITING_ON_PLAYER', message: 'The game is not waiting on that player' } }
+  }
+
+  private static pauseGame(state: GameState): GameResult<GameState> {
+    if (state.status !== 'active' && state.status !== 'mulligan') {
+      return { success: false, error: { code: 'GAME_NOT_ACTIVE', message: 'Only a game in progress can be paused' } }
+    }
+
+    return { success: true, data: { ...state, status: 'paused', pausedFrom: state.status } }
+  }
+
+  private static resumeGame(state: GameState): GameResult<GameState> {
+    if (state.status !== 'paused' || !state.pausedFrom) {
+      return { success: false, error: { code: 'GAME_NOT_PAUSED', message: 'The game is not paused' } }
+    }
+
+    return { success: true, data: { ...state, status: state.pausedFrom, pausedFrom: undefined } }
+  }
+
+  // Between games of a match each player brings back a fresh board with their (possibly sideboarded) deck;
+  // once both have, the next game waits to be started like the first one
+  private static submitDeck(
+    state: GameState,
+    playerId: PlayerId,
+    cards: readonly MTGCard[],
+    order: readonly number[] | undefined
+  ): GameResult<GameState> {
+    if (state.status !== 'sideboarding' || !state.match) {
+      return { success: false, error: { code: 'NOT_SIDEBOARDING', message: 'Decks can only be changed between games of a match' } }
+    }
+
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    if (player.sideboarded) {
+      return { success: false, error: { code: 'DECK_ALREADY_SUBMITTED', message: 'You have already submitted your deck for the next game' } }
+    }
+
+    const deck = GameEngine.shuffleDeck(cards, order)
+    if (!deck.success) return deck
+
+    const players = new Map(state.players)
+    players.set(playerId, {
+      ...GameEngine.createPlayerState(player.username, state.format, player.seatPosition, deck.data.library),
+      id: playerId,
+      isConnected: player.isConnected,
+      sideboarded: true,
+      unshuffled: deck.data.unshuffled
+    })
+
+    if (![...players.values()].every(other => other.sideboarded)) {
+      return { success: true, data: { ...state, players } }
+    }
+
+    for (const other of players.values()) {
+      players.set(other.id, { ...other, sideboarded: false })
+    }
+    return {
+      success: true,
+      data: {
+        ...state,
+        players,
+        status: 'waiting',
+        turn: 1,
+        phase: 'main1',
+        currentPlayer: '' as PlayerId,
+        priorityPlayer: '' as PlayerId,
+        priorityPasses: 0,
+        match: { ...state.match, gameNumber: state.match.gameNumber + 1 }
+      }
+    }
+  }
+
+  // A deck is built from the one the player registered, keeping the mainboard's size (a sideboarded deck may swap
+  // cards with the sideboard). Only which cards and how many come from the client: each card is the stored one,
+  // so nothing in the hidden library can claim to be something else. Library cards carry the deck card's id
+  // with a copy number on the end (e.g. "<card id>-2"), numbered here so every copy gets its own id
+  static buildDeck(deckList: DeckList, cardIds: readonly string[]): GameResult<MTGCard[]> {
+    if (cardIds.length !== deckList.mainboardSize) {
+      return { success: false, error: { code: 'WRONG_DECK_SIZE', message: `Your deck must have ${deckList.mainboardSize} cards` } }
+    }
+
+    const used = new Map<string, number>()
+    const library: MTGCard[] = []
+    for (const id of cardIds) {
+      const cardId = id.replace(/-\d+$/, '')
+      const card = deckList.cards[cardId]
+      const copy = used.get(cardId) ?? 0
+      if (!card || copy >= (deckList.copies[cardId] ?? 0)) {
+        const message = card ? `${card.name} is not in your deck or sideboard that many times` : 'That card is not in your deck or sideboard'
+        return { success: false, error: { code: 'CARD_NOT_IN_DECK', message } }
+      }
+      used.set(cardId, copy + 1)
+      library.push({ ...card, id: `${cardId}-${copy}` as CardId })
+    }
+    return { success: true, data: library }
+  }
+
+  private static checkCanMulligan(state: GameState, playerId: PlayerId): GameResult<PlayerState> {
+    if (state.status !== 'mulligan') {
+      return { success: false, error: { code: 'NOT_MULLIGAN_PHASE', message: 'Opening hands can only be changed before the first turn' } }
+    }
+
+    const player = state.players.get(playerId)
+    if (!player) {
+      return { success: false, error: { code: 'PLAYER_NOT_FOUND', message: 'Player not found' } }
+    }
+
+    if (player.keptHand) {
+      return { success: false, error: { code: 'HAND_ALREADY_KEPT', message: 'You have already kept your opening hand' } }
+    }
+
+    return { success: true, data: player }
+  }
+
+  // Cards a player goes down after taking this many mulligans
+  static getMulliganPenalty(rules: MulliganRules, mulligans: number): number {
+    return Math.max(0, mulligans - (rules.freeFirstMulligan ? 1 : 0))
+  }
+
+  // Draw up to count cards from the top of the library (fewer if it runs out)
+  private static drawCards(player: PlayerState, count: number): PlayerState {
+    const drawn = player.library.slice(0, Math.max(0, count))
+    return {
+      ...player,
+      hand: [...player.hand, ...drawn.map(card => ({ ...card, instanceId: `hand-${card.id}` as InstanceId }))],
+      library: player.library.slice(drawn.length)
+    }
+  }
+
+  private static nextPhase(state: GameState, playerId: PlayerId): GameResult<GameState> {
+    const canAct = GameEngine.checkActivePlayer(state, playerId)
+    if (!canAct.success) return canAct
+
+    return { success: true, data: GameEngine.advancePhase(state) }
+  }
+
+  private static nextTurn(state: GameState, playerId: PlayerId): GameResult<GameState> {
+    const canAct = GameEngine.checkActivePlayer(state, playerId)
+    if (!canAct.success) return canAct
+
+    return { success: true, data: GameEngine.endTurn(state) }
+  }
+
+  // Priority goes round the table; when everyone has passed in succession the step ends
+  private static passPriority(state: GameState, playerId: PlayerId): GameResult<GameState> {
+    if (state.status !== 'active') {
+      return { success: false, error: { code: 'GAME_NOT_ACTIVE', message: 'The game is not in progress' } }
+    }
+
+    if (state.priorityPlayer !== playerId) {
+      return { success: false, error: { code: 'NOT_YOUR_PRIORITY', message: 'You do not have priority' } }
+    }
+
+    const priorityPasses = state.priorityPasses + 1
+    if (priorityPasses >= GameEngine.getTurnOrder(state).length) {
+      return { success: true, data: GameEngine.advancePhase(state) }
+    }
+
+    return {
+      success: true,
+      data: { ...state, priorityPlayer: GameEngine.getNextPlayer(state, playerId), priorityPasses }
+    }
+  }
+
+  private static checkActivePlayer(state: GameState, playerId: PlayerId): GameResult<true> {
+    if (state.status !== 'active') {
+      return { success: false, error: { code: 'GAME_NOT_ACTIVE', message: 'The game is not in progress' } }
+    }
+
+    if (state.currentPlayer !== playerId) {
+      return { success: false, error: { code: 'NOT_YOUR_TURN', message: 'Only the active player can do that' } }
+    }
+
+    return { success: true, data: true }
+  }
+
+  private static advancePhase(state: GameState): GameState {
+    const phaseIndex = TURN_PHASES.indexOf(state.phase)
+    if (phaseIndex === TURN_PHASES.length - 1) {
+      return GameEngine.endTurn(state)
+    }
+    return GameEngine.enterPhase(state, TURN_PHASES[phaseIndex + 1])
+  }
+
+  private static endTurn(state: GameState): GameState {
+    return GameEngine.beginTurn(state, GameEngine.getNextPlayer(state, state.currentPlayer), state.turn + 1)
+  }
+
+  // Untap happens on its own and no player gets priority during it, so turns open on the upkeep
+  private static beginTurn(state: GameState, playerId: PlayerId, turn: number): GameState {
+    const player = state.players.get(playerId)!
+    const untappedPlayer: PlayerState = {
+      ...player,
+      battlefield: player.battlefield.map(card => card.tapped ? { ...card, tapped: false } : card)
+    }
+
+    const players = new Map(state.players)
+    players.set(playerId, untappedPlayer)
+
+    return GameEngine.enterPhase({ ...state, players, currentPlayer: playerId, turn, phase: 'untap' }, 'upkeep')
+  }
+
+  private static enterPhase(state: GameState, phase: GamePhase): GameState {
+    let nextState: GameState = { ...state, phase, priorityPlayer: state.currentPlayer, priorityPasses: 0 }
+
+    // The player who goes first in a two-player game skips their first draw
+    const skipsDraw = state.turn === 1 && state.players.size === 2
+    if (phase === 'draw' && !skipsDraw) {
+      const drawn = GameEngine.drawCard(nextState, state.currentPlayer)
+      if (drawn.success) {
+        nextState = drawn.data
+      }
+    }
+
+    return nextState
+  }
+
+  // Living players in seat order
+  static getTurnOrder(state: GameState): PlayerId[] {
+    return [...state.players.values()]
+      .filter(player => !player.eliminated)
+      .sort((a, b) => a.seatPosition - b.seatPosition)
+      .map(player => player.id)
+  }
+
+  // Whoever goes first: the loser of the last game of a match if they are still in, else the first seat
+  private static getStartingPlayer(state: GameState): PlayerId {
+    const turnOrder = GameEngine.getTurnOrder(state)
+    const startingPlayer = state.match?.startingPlayer
+    return startingPlayer && turnOrder.includes(startingPlayer) ? startingPlayer : turnOrder[0]
+  }
+
+  // Final standings: whoever is left standing first, then everyone else in the reverse of the order they went out
+  static getPlacements(state: GameState): { playerId: PlayerId; placement: number; conceded: boolean }[] {
+    const size = state.players.size
+    return [...state.players.values()]
+      .map(player => ({
+        playerId: player.id,
+        placement: !player.eliminated ? 1 : player.eliminationOrder ? size - player.eliminationOrder + 1 : size,
+        conceded: player.conceded === true
+      }))
+      .sort((a, b) => a.placement - b.placement)
+  }
+
+  // The next living player clockwise from playerId (who may have just been eliminated)
+  private static getNextPlayer(state: GameState, playerId: PlayerId): PlayerId {
+    const seats = [...state.players.values()].sort((a, b) => a.seatPosition - b.seatPosition)
+    const index = seats.findIndex(player => player.id === playerId)
+
+    for (let offset = 1; offset <= seats.length; offset++) {
+      const candidate = seats[(index + offset) % seats.length]
+      if (!candidate.eliminated) {
+        return candidate.id
+      }
+    }
+    return playerId
+  }
+
   // Utility functions
-  static createInitialState(gameId: string): GameState {
+  static createInitialState(
+    gameId: string,
+    format: string = 'commander',
+    mulliganRules: MulliganRules = GameEngine.getMulliganRules(format),
+    bestOf: number = 1
+  ): GameState {
     return {
       id: gameId as any,
+      format,
       players: new Map(),
       currentPlayer: '' as PlayerId,
       phase: 'main1',
       turn: 1,
-      status: 'waiting'
+      status: 'waiting',
+      priorityPlayer: '' as PlayerId,
+      priorityPasses: 0,
+      mulliganRules,
+      ...(bestOf > 1 ? { match: { bestOf, gameNumber: 1, wins: {} } } : {})
+    }
+  }
+
+  // Rooms play single games unless the host set up a best-of-three match (two-player rooms only)
+  static getBestOf(settings: { bestOf?: number } = {}): number {
+    return settings.bestOf === 3 ? 3 : 1
+  }
+
+  // London mulligans by default, with Commander's free first mulligan, unless the room says otherwise
+  static getMulliganRules(format: string, settings: { mulligan?: MulliganType; freeMulligan?: boolean } = {}): MulliganRules {
+    return {
+      type: settings.mulligan === 'vancouver' ? 'vancouver' : 'london',
+      freeFirstMulligan: settings.freeMulligan ?? format.toLowerCase() === 'commander'
+    }
+  }
+
+  static getStartingLife(format: string): number {
+    return format.toLowerCase() === 'commander'
+      ? LIFE_RULES.COMMANDER_STARTING_LIFE
+      : LIFE_RULES.DEFAULT_STARTING_LIFE
+  }
+
+  static createPlayerState(
+    username: string,
+    format: string,
+    seatPosition: number = 0,
+    library: readonly MTGCard[] = []
+  ): Omit<PlayerState, 'id'> {
+    return {
+      username,
+      seatPosition,
+      hand: [],
+      library,
+      battlefield: [],
+      graveyard: [],
+      exile: [],
+      command: [],
+      revealed: [],
+      life: GameEngine.getStartingLife(format),
+      poison: 0,
+      commanderDamage: {},
+      eliminated: false,
+      isConnected: true,
+      mulligans: 0,
+      keptHand: false
     }
   }
 
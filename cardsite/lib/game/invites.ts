@@ -0,0 +1,161 @@
+import bcrypt from 'bcryptjs'
+import { createHmac, timingSafeEqual } from 'crypto'
+import { and, eq, isNull } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { db } from '../db'
+import { gameInvites, gameParticipants, gameRooms, gameSpectators } from '../db/schema'
+import { GameResult } from './types'
+
+// How long an invite link can be used to get into a room
+export const INVITE_LINK_TTL = 24 * 60 * 60 * 1000
+
+const PASSWORD_SALT_ROUNDS = 10
+
+type RoomSettings = NonNullable<typeof gameRooms.$inferSelect['settings']>
+
+// What the join route knows about a room when deciding who may come in
+export interface GuardedRoom {
+  readonly id: string
+  readonly hostId: string
+  readonly settings: RoomSettings | null
+}
+
+// What an invite link says once its signature checks out
+export interface InviteLink {
+  readonly gameId: string
+  readonly invitedBy: string
+  readonly expiresAt: number
+}
+
+export function hashRoomPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, PASSWORD_SALT_ROUNDS)
+}
+
+// The key invite links are signed with, kept apart from the session key it is derived from
+function inviteKey(): Buffer {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET must be set to sign invite links')
+  }
+  return createHmac('sha256', secret).update('game-invite').digest()
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', inviteKey()).update(payload).digest('base64url')
+}
+
+// An invite link token: who invited whom into which room until when, signed so it can't be altered or forged
+export function createInviteToken(gameId: string, invitedBy: string, now = Date.now()): { token: string, expiresAt: number } {
+  const expiresAt = now + INVITE_LINK_TTL
+  const payload = Buffer.from(JSON.stringify({ gameId, invitedBy, expiresAt })).toString('base64url')
+  return { token: `${payload}.${sign(payload)}`, expiresAt }
+}
+
+export function readInviteToken(token: string, now = Date.now()): GameResult<InviteLink> {
+  const invalid = { success: false as const, error: { code: 'INVALID_INVITE', message: 'This invite link is not valid' } }
+
+  const [payload, signature, ...rest] = token.split('.')
+  if (!payload || !signature || rest.length > 0) return invalid
+
+  const expected = Buffer.from(sign(payload))
+  const given = Buffer.from(signature)
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return invalid
+
+  let link: InviteLink
+  try {
+    link = JSON.parse(Buffer.from(payload, 'base64url').toString())
+  } catch {
+    return invalid
+  }
+  if (typeof link?.gameId !== 'string' || typeof link.invitedBy !== 'string' || typeof link.expiresAt !== 'number') {
+    return invalid
+  }
+  if (link.expiresAt < now) {
+    return { success: false, error: { code: 'INVITE_EXPIRED', message: 'This invite link has expired. Ask for a new one' } }
+  }
+  return { success: true, data: link }
+}
+
+export async function inviteUser(gameId: string, userId: string, invitedBy: string): Promise<void> {
+  await db
+    .insert(gameInvites)
+    .values({ id: nanoid(12), gameId, userId, invitedBy })
+    .onConflictDoNothing()
+}
+
+// Everyone invited into a room, who can see it in the lobby even when it is private
+export async function listInvitees(gameId: string): Promise<string[]> {
+  const invites = await db
+    .select({ userId: gameInvites.userId })
+    .from(gameInvites)
+    .where(eq(gameInvites.gameId, gameId))
+  return invites.map(invite => invite.userId)
+}
+
+// The host, the players and their invitees never need the password
+async function isInsider(room: GuardedRoom, userId: string): Promise<boolean> {
+  if (room.hostId === userId) return true
+
+  const [[seat], [invite]] = await Promise.all([
+    db
+      .select({ id: gameParticipants.id })
+      .from(gameParticipants)
+      .where(and(eq(gameParticipants.gameId, room.id), eq(gameParticipants.userId, userId)))
+      .limit(1),
+    db
+      .select({ id: gameInvites.id })
+      .from(gameInvites)
+      .where(and(eq(gameInvites.gameId, room.id), eq(gameInvites.userId, userId)))
+      .limit(1)
+  ])
+  return !!seat || !!invite
+}
+
+// Private rooms are only shown to their insiders and the spectators they let in
+export async function canViewRoom(room: GuardedRoom, userId: string | undefined): Promise<boolean> {
+  if (!room.settings?.isPrivate) return true
+  if (!userId) return false
+  if (await isInsider(room, userId)) return true
+
+  const [spectator] = await db
+    .select({ id: gameSpectators.id })
+    .from(gameSpectators)
+    .where(and(eq(gameSpectators.gameId, room.id), eq(gameSpectators.userId, userId), isNull(gameSpectators.kickedAt)))
+    .limit(1)
+  return !!spectator
+}
+
+// Whether a user may take a seat in (or watch) a room. Private rooms only let in their insiders and
+// holders of an invite link; a room password lets in anyone who knows it as well
+export async function checkRoomAccess(
+  room: GuardedRoom,
+  userId: string,
+  credentials: { password?: string, invite?: string }
+): Promise<GameResult<void>> {
+  const { isPrivate, passwordHash } = room.settings ?? {}
+  if (!isPrivate && !passwordHash) return { success: true, data: undefined }
+  if (await isInsider(room, userId)) return { success: true, data: undefined }
+
+  if (credentials.invite) {
+    const link = readInviteToken(credentials.invite)
+    if (!link.success) return link
+    if (link.data.gameId !== room.id) {
+      return { success: false, error: { code: 'INVALID_INVITE', message: 'This invite link is for another game' } }
+    }
+    // Following a link makes the user an invitee, so the room shows up in their lobby from then on
+    await inviteUser(room.id, userId, link.data.invitedBy)
+    return { success: true, data: undefined }
+  }
+
+  if (passwordHash) {
+    if (!credentials.password) {
+      return { success: false, error: { code: 'PASSWORD_REQUIRED', message: 'This game room needs a password' } }
+    }
+    if (!(await bcrypt.compare(credentials.password, passwordHash))) {
+      return { success: false, error: { code: 'WRONG_PASSWORD', message: 'Wrong password for this game room' } }
+    }
+    return { success: true, data: undefined }
+  }
+
+  return { success: false, error: { code: 'INVITE_ONLY', message: 'This game room is private. Ask a player for an invite' } }
+}
@@ -0,0 +1,149 @@
+import { count, desc, eq, inArray, or, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { gameInvites, gameParticipants, gameRooms, gameSpectators, users } from '../db/schema'
+import { pubsub } from '../cache/pubsub'
+import { listInvitees } from './invites'
+
+// Room changes are published here by whichever process made them; every game server passes them on
+// to the lobby sockets connected to it
+export const LOBBY_CHANNEL = 'lobby'
+
+// How many of the newest rooms the lobby lists
+export const LOBBY_ROOM_LIMIT = 20
+
+// A room as the lobby lists it, the same for everyone who can see it (private rooms are only seen by
+// their host, players and invitees)
+export interface LobbyRoom {
+  readonly id: string
+  readonly title: string
+  readonly format: string
+  readonly players: string
+  readonly spectators: number
+  readonly host: string
+  readonly hostId: string
+  readonly playerIds: readonly string[]
+  readonly tags: readonly string[]
+  readonly powerLevel: number | null
+  readonly status: string
+  readonly isPrivate: boolean
+  readonly hasPassword: boolean
+  readonly createdAt: Date
+}
+
+// audience lists the only users an event may reach; events without one go to every lobby
+export type LobbyEvent =
+  | { readonly type: 'room-updated', readonly room: LobbyRoom, readonly audience?: readonly string[] }
+  | { readonly type: 'room-closed', readonly gameId: string }
+  | { readonly type: 'room-invite', readonly gameId: string, readonly title: string, readonly invitedBy: string, readonly audience: readonly string[] }
+
+// The newest rooms the viewer can see, or just the listed ones whoever can see them
+export async function loadLobbyRooms({ gameIds, viewerId }: { gameIds?: readonly string[], viewerId?: string } = {}): Promise<LobbyRoom[]> {
+  if (gameIds?.length === 0) return []
+
+  const isPublic = sql`coalesce((${gameRooms.settings}->>'isPrivate')::boolean, false) = false`
+  const visible = viewerId
+    ? or(
+      isPublic,
+      eq(gameRooms.hostId, viewerId),
+      sql`exists (select 1 from ${gameParticipants} where ${gameParticipants.gameId} = ${gameRooms.id} and ${gameParticipants.userId} = ${viewerId})`,
+      sql`exists (select 1 from ${gameInvites} where ${gameInvites.gameId} = ${gameRooms.id} and ${gameInvites.userId} = ${viewerId})`
+    )
+    : isPublic
+
+  const rooms = await db
+    .select({
+      id: gameRooms.id,
+      name: gameRooms.name,
+      format: gameRooms.format,
+      status: gameRooms.status,
+      maxPlayers: gameRooms.maxPlayers,
+      currentPlayers: gameRooms.currentPlayers,
+      hostId: gameRooms.hostId,
+      createdAt: gameRooms.createdAt,
+      settings: gameRooms.settings,
+      hostUsername: users.username,
+      spectatorCount: sql<number>`(
+        select count(*) from ${gameSpectators}
+        where ${gameSpectators.gameId} = ${gameRooms.id} and ${gameSpectators.kickedAt} is null
+      )`.mapWith(Number),
+    })
+    .from(gameRooms)
+    .leftJoin(users, eq(gameRooms.hostId, users.id))
+    .where(gameIds ? inArray(gameRooms.id, [...gameIds]) : visible)
+    .orderBy(desc(gameRooms.createdAt))
+    .limit(LOBBY_ROOM_LIMIT)
+
+  const seats = rooms.length === 0 ? [] : await db
+    .select({ gameId: gameParticipants.gameId, userId: gameParticipants.userId })
+    .from(gameParticipants)
+    .where(inArray(gameParticipants.gameId, rooms.map(room => room.id)))
+
+  return rooms.map(room => ({
+    id: room.id,
+    title: room.name,
+    format: room.format,
+    players: `${room.currentPlayers}/${room.maxPlayers} Players`,
+    spectators: room.spectatorCount,
+    host: room.hostUsername || 'Unknown Host',
+    hostId: room.hostId,
+    playerIds: seats.filter(seat => seat.gameId === room.id).map(seat => seat.userId),
+    tags: [],
+    powerLevel: null,
+    status: room.status === 'waiting' ? 'Join Game' : room.status === 'finished' ? 'Finished' : 'Playing',
+    isPrivate: !!room.settings?.isPrivate,
+    hasPassword: !!room.settings?.passwordHash,
+    createdAt: room.createdAt,
+  }))
+}
+
+// currentPlayers is a copy of how many seats are taken, kept for listing and filtering rooms cheaply.
+// Recount it from the seats themselves rather than adding and subtracting, so it can't drift
+export async function syncPlayerCount(gameId: string): Promise<void> {
+  const [seats] = await db
+    .select({ taken: count() })
+    .from(gameParticipants)
+    .where(eq(gameParticipants.gameId, gameId))
+
+  await db
+    .update(gameRooms)
+    .set({ currentPlayers: seats?.taken ?? 0, updatedAt: new Date() })
+    .where(eq(gameRooms.id, gameId))
+}
+
+// Tell the lobbies that can see the rooms what they look like now: updated if they are still there, closed if not
+export async function announceRooms(gameIds: readonly string[]): Promise<void> {
+  try {
+    const rooms = await loadLobbyRooms({ gameIds })
+    await Promise.all(gameIds.map(async gameId => {
+      const room = rooms.find(r => r.id === gameId)
+      if (!room) {
+        return pubsub.publish<LobbyEvent>(LOBBY_CHANNEL, { type: 'room-closed', gameId })
+      }
+      const audience = room.isPrivate ? [room.hostId, ...room.playerIds, ...await listInvitees(gameId)] : undefined
+      return pubsub.publish<LobbyEvent>(LOBBY_CHANNEL, { type: 'room-updated', room, audience })
+    }))
+  } catch (error) {
+    // The lobby catches up on its next full load, so this never fails the change itself
+    console.error('❌ Failed to announce room changes:', error)
+  }
+}
+
+// Let an invited friend know, if they have the lobby open
+export async function announceInvite(gameId: string, title: string, invitedBy: string, userId: string): Promise<void> {
+  try {
+    const [inviter] = await db
+      .select({ username: users.username, name: users.name })
+      .from(users)
+      .where(eq(users.id, invitedBy))
+      .limit(1)
+    await pubsub.publish<LobbyEvent>(LOBBY_CHANNEL, {
+      type: 'room-invite',
+      gameId,
+      title,
+      invitedBy: inviter?.username || inviter?.name || 'A friend',
+      audience: [userId]
+    })
+  } catch (error) {
+    console.error('❌ Failed to announce an invite:', error)
+  }
+}
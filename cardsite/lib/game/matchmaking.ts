@@ -0,0 +1,158 @@
+import { and, asc, eq, inArray, ne } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { db } from '../db'
+import { decks, gameParticipants, gameRooms, matchmakingQueue } from '../db/schema'
+import { GameResult } from './types'
+
+// Commander is played in pods of four; every other format one on one
+const POD_SIZES: Readonly<Record<string, number>> = { commander: 4 }
+const DEFAULT_POD_SIZE = 2
+
+// Players are grouped when the power levels they asked for are at most this far apart
+export const POWER_LEVEL_SPREAD = 1
+
+export interface QueueEntry {
+  readonly userId: string
+  readonly format: string
+  readonly deckId: string
+  readonly powerLevel: number | null
+  readonly queuedAt: Date
+}
+
+// A room made for a full pod, and who to send there
+export interface MatchedPod {
+  readonly gameId: string
+  readonly format: string
+  readonly userIds: readonly string[]
+}
+
+export function getPodSize(format: string): number {
+  return POD_SIZES[format] ?? DEFAULT_POD_SIZE
+}
+
+// The first full pod in the queue: whoever has waited longest is seated first, then the oldest entries that
+// keep everyone's power levels within the spread (players who gave no power level fit any pod)
+export function findPod(entries: readonly QueueEntry[], podSize: number): QueueEntry[] | null {
+  for (let anchor = 0; anchor < entries.length; anchor++) {
+    const pod: QueueEntry[] = []
+    let lowest = Infinity
+    let highest = -Infinity
+
+    for (const entry of entries.slice(anchor)) {
+      const level = entry.powerLevel
+      if (level !== null && Math.max(highest, level) - Math.min(lowest, level) > POWER_LEVEL_SPREAD) {
+        continue
+      }
+      if (level !== null) {
+        lowest = Math.min(lowest, level)
+        highest = Math.max(highest, level)
+      }
+      pod.push(entry)
+      if (pod.length === podSize) return pod
+    }
+  }
+  return null
+}
+
+// The lobby's matchmaking queue, kept in Postgres so every server process sees the same one
+export class Matchmaker {
+  // Queue a player (replacing any earlier place they had), then seat a pod if that filled one
+  async join(userId: string, format: string, deckId: string, powerLevel: number | null): Promise<GameResult<MatchedPod | null>> {
+    const [deck] = await db
+      .select({ id: decks.id })
+      .from(decks)
+      .where(and(eq(decks.id, deckId), eq(decks.userId, userId)))
+      .limit(1)
+    if (!deck) {
+      return { success: false, error: { code: 'DECK_NOT_FOUND', message: 'Pick one of your own decks to queue with' } }
+    }
+
+    const [seat] = await db
+      .select({ gameId: gameParticipants.gameId })
+      .from(gameParticipants)
+      .innerJoin(gameRooms, eq(gameParticipants.gameId, gameRooms.id))
+      .where(and(eq(gameParticipants.userId, userId), ne(gameRooms.status, 'finished')))
+      .limit(1)
+    if (seat) {
+      return { success: false, error: { code: 'ALREADY_IN_GAME', message: 'Leave your current game before looking for a new one' } }
+    }
+
+    // Power levels only mean something in Commander
+    const entry = { userId, format, deckId, powerLevel: format === 'commander' ? powerLevel : null, queuedAt: new Date() }
+    await db
+      .insert(matchmakingQueue)
+      .values({ id: nanoid(12), ...entry })
+      .onConflictDoUpdate({ target: matchmakingQueue.userId, set: entry })
+
+    return { success: true, data: await this.seatPod(format) }
+  }
+
+  async leave(userId: string): Promise<void> {
+    await db.delete(matchmakingQueue).where(eq(matchmakingQueue.userId, userId))
+  }
+
+  async countWaiting(format: string): Promise<number> {
+    const rows = await db
+      .select({ id: matchmakingQueue.id })
+      .from(matchmakingQueue)
+      .where(eq(matchmakingQueue.format, format))
+    return rows.length
+  }
+
+  // Lock the format's queue so concurrent joins (on any process) seat each player at most once,
+  // and turn the first full pod into a room with everyone already in their seats
+  private async seatPod(format: string): Promise<MatchedPod | null> {
+    return db.transaction(async (tx) => {
+      const entries = await tx
+        .select({
+          userId: matchmakingQueue.userId,
+          format: matchmakingQueue.format,
+          deckId: matchmakingQueue.deckId,
+          powerLevel: matchmakingQueue.powerLevel,
+          queuedAt: matchmakingQueue.queuedAt
+        })
+        .from(matchmakingQueue)
+        .where(eq(matchmakingQueue.format, format))
+        .orderBy(asc(matchmakingQueue.queuedAt))
+        .for('update')
+
+      const pod = findPod(entries, getPodSize(format))
+      if (!pod) return null
+
+      const levels = pod.map(entry => entry.powerLevel).filter((level): level is number => level !== null)
+      const powerLevel = levels.length > 0 ? Math.round(levels.reduce((sum, level) => sum + level, 0) / levels.length) : undefined
+      const label = format.charAt(0).toUpperCase() + format.slice(1)
+
+      const gameId = nanoid(12)
+      await tx.insert(gameRooms).values({
+        id: gameId,
+        hostId: pod[0].userId,
+        name: `${label} ${pod.length > 2 ? 'pod' : 'match'}${powerLevel ? ` (power ${powerLevel})` : ''}`,
+        format,
+        maxPlayers: pod.length,
+        currentPlayers: pod.length,
+        settings: {
+          ...(powerLevel ? { powerLevel } : {}),
+          mulligan: 'london',
+          freeMulligan: format === 'commander',
+          allowSpectators: true
+        },
+        status: 'waiting'
+      })
+      await tx.insert(gameParticipants).values(pod.map((entry, index) => ({
+        id: nanoid(12),
+        gameId,
+        userId: entry.userId,
+        deckId: entry.deckId,
+        seatPosition: index + 1,
+        status: 'joined'
+      })))
+      const userIds = pod.map(entry => entry.userId)
+      await tx.delete(matchmakingQueue).where(inArray(matchmakingQueue.userId, userIds))
+
+      return { gameId, format, userIds }
+    })
+  }
+}
+
+export const matchmaker = new Matchmaker()
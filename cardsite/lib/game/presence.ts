@@ -0,0 +1,216 @@
+import { GameState } from './types'
+
+// Players' clients send a heartbeat this often while they have the game open
+export const HEARTBEAT_INTERVAL = 15 * 1000
+
+// A seat whose player hasn't been heard from in this long is marked as disconnected
+export const PRESENCE_TIMEOUT = 3 * HEARTBEAT_INTERVAL
+
+// How long a player has to be gone (or past their turn time) before the host may skip their turn or remove them
+export const AFK_GRACE_PERIOD = 60 * 1000
+
+// The turn timers a room may pick, in seconds
+export const MIN_TURN_TIME_LIMIT = 30
+export const MAX_TURN_TIME_LIMIT = 60 * 60
+
+export function isValidTurnTimeLimit(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= MIN_TURN_TIME_LIMIT && value <= MAX_TURN_TIME_LIMIT
+}
+
+// The active player's clock for the current turn, as sent to clients (which count down from remaining themselves,
+// so their own clock being off doesn't matter)
+export interface TurnClock {
+  readonly playerId: string
+  readonly turn: number
+  readonly limit: number
+  readonly remaining: number
+  readonly running: boolean
+}
+
+export interface PlayerPresence {
+  readonly playerId: string
+  readonly connected: boolean
+  // When the player lost connection or ran out of time on their turn, whichever came first
+  readonly awaySince: number
+  // Away for longer than the grace period, so the host may skip their turn or remove them
+  readonly afk: boolean
+}
+
+export interface PresenceSweep {
+  readonly disconnected: readonly { gameId: string, playerId: string }[]
+  readonly timedOut: readonly { gameId: string, playerId: string, turn: number }[]
+  // Games whose presence looks different from the last sweep
+  readonly changed: readonly string[]
+}
+
+interface Seat {
+  lastSeen: number
+  disconnectedAt?: number
+}
+
+interface Clock {
+  playerId: string
+  turn: number
+  remaining: number
+  // When the turn runs out, while the clock is running
+  deadline?: number
+  expiredAt?: number
+}
+
+interface WatchedGame {
+  // Milliseconds per turn; turns are untimed without one
+  turnTimeLimit?: number
+  seats: Map<string, Seat>
+  clock?: Clock
+  // What the last sweep saw, to tell whether anything changed since
+  lastPresence: string
+}
+
+// Who is still at the table in each game this process runs, and how long the active player has left on their turn.
+// Only the living players are watched: someone who is out of the game can't hold it up
+export class PresenceMonitor {
+  private games = new Map<string, WatchedGame>()
+
+  get gameIds(): string[] {
+    return [...this.games.keys()]
+  }
+
+  // Start watching a game once it is loaded, with the turn timer its room picked (in seconds)
+  track(gameId: string, turnTimeLimit: number | undefined): void {
+    const limit = isValidTurnTimeLimit(turnTimeLimit) ? turnTimeLimit * 1000 : undefined
+    const game = this.games.get(gameId)
+    if (game) {
+      game.turnTimeLimit = limit
+    } else {
+      this.games.set(gameId, { turnTimeLimit: limit, seats: new Map(), lastPresence: '' })
+    }
+  }
+
+  forget(gameId: string): void {
+    this.games.delete(gameId)
+  }
+
+  // Catch up with the game after a change: seat new players (as present), stop watching the ones who are out,
+  // and start, stop or reset the turn clock. True when the clock changed
+  observe(gameId: string, state: GameState, now: number): boolean {
+    const game = this.games.get(gameId)
+    if (!game) return false
+
+    const living = [...state.players.values()].filter(player => !player.eliminated).map(player => player.id as string)
+    for (const playerId of living) {
+      if (!game.seats.has(playerId)) {
+        game.seats.set(playerId, { lastSeen: now })
+      }
+    }
+    for (const playerId of game.seats.keys()) {
+      if (!living.includes(playerId)) {
+        game.seats.delete(playerId)
+      }
+    }
+
+    const before = game.clock
+    game.clock = PresenceMonitor.nextClock(game, state, now)
+    return game.clock !== before
+  }
+
+  private static nextClock(game: WatchedGame, state: GameState, now: number): Clock | undefined {
+    const clock = game.clock
+    if (!game.turnTimeLimit) return undefined
+
+    // The clock stops while the host has the game paused, and picks up where it was
+    if (state.status === 'paused') {
+      if (!clock?.deadline) return clock
+      return { ...clock, remaining: Math.max(0, clock.deadline - now), deadline: undefined }
+    }
+    if (state.status !== 'active') return undefined
+
+    if (clock && clock.playerId === state.currentPlayer && clock.turn === state.turn) {
+      return clock.deadline || clock.expiredAt ? clock : { ...clock, deadline: now + clock.remaining }
+    }
+    return { playerId: state.currentPlayer, turn: state.turn, remaining: game.turnTimeLimit, deadline: now + game.turnTimeLimit }
+  }
+
+  // A player's heartbeat; true when it brings back a seat that had been marked as disconnected
+  heartbeat(gameId: string, playerId: string, now: number): boolean {
+    const seat = this.games.get(gameId)?.seats.get(playerId)
+    if (!seat) return false
+
+    seat.lastSeen = now
+    if (seat.disconnectedAt === undefined) return false
+    seat.disconnectedAt = undefined
+    return true
+  }
+
+  // Mark the seats that went quiet and the turns that ran out of time since the last sweep
+  sweep(now: number): PresenceSweep {
+    const disconnected: { gameId: string, playerId: string }[] = []
+    const timedOut: { gameId: string, playerId: string, turn: number }[] = []
+    const changed: string[] = []
+
+    for (const [gameId, game] of this.games) {
+      for (const [playerId, seat] of game.seats) {
+        if (seat.disconnectedAt === undefined && now - seat.lastSeen > PRESENCE_TIMEOUT) {
+          seat.disconnectedAt = now
+          disconnected.push({ gameId, playerId })
+        }
+      }
+
+      const clock = game.clock
+      if (clock?.deadline && clock.deadline <= now) {
+        game.clock = { ...clock, remaining: 0, deadline: undefined, expiredAt: now }
+        timedOut.push({ gameId, playerId: clock.playerId, turn: clock.turn })
+      }
+
+      const presence = JSON.stringify(this.getPresence(gameId, now))
+      if (presence !== game.lastPresence) {
+        game.lastPresence = presence
+        changed.push(gameId)
+      }
+    }
+
+    return { disconnected, timedOut, changed }
+  }
+
+  getClock(gameId: string, now: number): TurnClock | null {
+    const game = this.games.get(gameId)
+    const clock = game?.clock
+    if (!game?.turnTimeLimit || !clock) return null
+
+    return {
+      playerId: clock.playerId,
+      turn: clock.turn,
+      limit: game.turnTimeLimit,
+      remaining: clock.deadline ? Math.max(0, clock.deadline - now) : clock.remaining,
+      running: !!clock.deadline
+    }
+  }
+
+  // Only the players who are away, so the list stays empty while everyone is at the table
+  getPresence(gameId: string, now: number): PlayerPresence[] {
+    const game = this.games.get(gameId)
+    if (!game) return []
+
+    const presence: PlayerPresence[] = []
+    for (const [playerId, seat] of game.seats) {
+      const awaySince = PresenceMonitor.awaySince(game, playerId, seat)
+      if (awaySince === undefined) continue
+      presence.push({
+        playerId,
+        connected: seat.disconnectedAt === undefined,
+        awaySince,
+        afk: now - awaySince >= AFK_GRACE_PERIOD
+      })
+    }
+    return presence
+  }
+
+  isAfk(gameId: string, playerId: string, now: number): boolean {
+    return this.getPresence(gameId, now).some(presence => presence.playerId === playerId && presence.afk)
+  }
+
+  private static awaySince(game: WatchedGame, playerId: string, seat: Seat): number | undefined {
+    const timedOutAt = game.clock?.playerId === playerId ? game.clock.expiredAt : undefined
+    const times = [seat.disconnectedAt, timedOutAt].filter((time): time is number => time !== undefined)
+    return times.length > 0 ? Math.min(...times) : undefined
+  }
+}
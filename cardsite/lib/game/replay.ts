@@ -0,0 +1,143 @@
+import { GameEngine } from './engine'
+import { GameResult, GameState, MTGCard, PlayerId, SequencedEvent, SerializedGameState, Zone } from './types'
+
+// A game as recorded by the server: the state it started from and every accepted event after it
+export interface RecordedGame {
+  readonly gameId: string
+  readonly initialState: SerializedGameState
+  readonly events: readonly SequencedEvent[]
+}
+
+// The game as it stood after one event (the first frame is the starting state, with no event)
+export interface ReplayFrame {
+  readonly state: GameState
+  readonly event: SequencedEvent | null
+}
+
+export interface TurnMarker {
+  readonly turn: number
+  readonly playerId: PlayerId
+  readonly frame: number
+}
+
+// Fold every event through the engine, keeping each intermediate state so the viewer can step both ways
+export function buildReplay(recorded: RecordedGame): GameResult<ReplayFrame[]> {
+  let state: GameState = { ...recorded.initialState, players: new Map(recorded.initialState.players) }
+  const frames: ReplayFrame[] = [{ state, event: null }]
+
+  for (const event of recorded.events) {
+    const result = GameEngine.reduce(state, event)
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: 'REPLAY_FAILED',
+          message: `Event ${event.seq} could not be replayed: ${result.error.message}`,
+          details: result.error
+        }
+      }
+    }
+    state = result.data
+    frames.push({ state, event })
+  }
+
+  return { success: true, data: frames }
+}
+
+// The first frame of every turn, for scrubbing straight to one
+export function findTurnStarts(frames: readonly ReplayFrame[]): TurnMarker[] {
+  const markers: TurnMarker[] = []
+  frames.forEach(({ state }, frame) => {
+    const previous = markers[markers.length - 1]
+    if (state.status === 'active' && (!previous || previous.turn !== state.turn)) {
+      markers.push({ turn: state.turn, playerId: state.currentPlayer, frame })
+    }
+  })
+  return markers
+}
+
+const HIDDEN_ZONES: readonly Zone[] = ['hand', 'library']
+
+const ZONE_DESTINATIONS: Record<Zone, string> = {
+  hand: 'into their hand',
+  library: 'into their library',
+  battlefield: 'onto the battlefield',
+  graveyard: 'into their graveyard',
+  exile: 'into exile',
+  command: 'into the command zone'
+}
+
+// One line for the replay's event log, worded from the state just before the event.
+// During a game the log goes to everyone, so publicOnly leaves out cards nobody else could see
+export function describeEvent(event: SequencedEvent, before: GameState, publicOnly = false): string {
+  const name = (playerId: PlayerId) => before.players.get(playerId)?.username ?? 'Unknown player'
+  const player = 'playerId' in event ? before.players.get(event.playerId) : undefined
+  const who = 'playerId' in event ? name(event.playerId) : ''
+  const cardName = (cardId: string, zone: Zone = 'hand') => {
+    const cards: readonly MTGCard[] = player?.[zone] ?? []
+    const card = cards.find(c => ('instanceId' in c && c.instanceId === cardId) || c.id === cardId)
+    if (publicOnly && card && 'facedown' in card && card.facedown) return 'a face-down card'
+    return card?.name ?? 'a card'
+  }
+  // A card that goes from one hidden zone to another is never seen by anyone else
+  const movedCardName = (cardId: string, from: Zone, to: Zone) =>
+    publicOnly && HIDDEN_ZONES.includes(from) && HIDDEN_ZONES.includes(to) ? 'a card' : cardName(cardId, from)
+
+  switch (event.type) {
+    case 'PLAYER_JOINED': return `${event.playerData.username} joined the game`
+    case 'PLAYER_LEFT': return `${who} left the game`
+    case 'LOAD_DECK': return `${who} loaded a ${event.cards.length}-card deck`
+    case 'SHUFFLE_LIBRARY': return `${who} shuffled their library`
+    case 'START_GAME': return `${who} started the game`
+    case 'MULLIGAN': return `${who} took a mulligan`
+    case 'KEEP_HAND': return event.bottom.length > 0
+      ? `${who} kept, putting ${event.bottom.length} card${event.bottom.length === 1 ? '' : 's'} on the bottom`
+      : `${who} kept their hand`
+    case 'CONCEDE': return `${who} conceded`
+    case 'SUBMIT_DECK': return `${who} is ready for game ${(before.match?.gameNumber ?? 1) + 1}`
+    case 'KICK_PLAYER': return `${who} removed ${name(event.targetId)} from the game`
+    case 'RESEAT_PLAYERS': return `${who} rearranged the seats: ${event.order.map(name).join(', ')}`
+    case 'PAUSE_GAME': return `${who} paused the game`
+    case 'RESUME_GAME': return `${who} resumed the game`
+    case 'SKIP_TURN': return before.currentPlayer === event.targetId
+      ? `${who} skipped ${name(event.targetId)}'s turn`
+      : `${who} passed priority for ${name(event.targetId)}`
+    case 'DRAW_CARD': return `${who} drew a card`
+    case 'PLAY_CARD': return `${who} played ${cardName(event.cardId)}`
+    case 'TAP_CARD': return `${who} ${event.tapped ? 'tapped' : 'untapped'} ${cardName(event.cardId, 'battlefield')}`
+    case 'MOVE_CARD': return `${who} moved ${cardName(event.cardId, 'battlefield')}`
+    case 'RETURN_TO_HAND': return `${who} returned ${cardName(event.cardId, 'battlefield')} to their hand`
+    case 'MOVE_TO_ZONE': return `${who} moved ${movedCardName(event.cardId, event.from, event.to)} from ${event.from} to ${event.to}`
+    case 'DESTROY_CARD': return `${who} put ${cardName(event.cardId, 'battlefield')} into the graveyard`
+    case 'EXILE_CARD': return `${who} exiled ${cardName(event.cardId, event.from)}`
+    case 'REVEAL_CARD': return `${who} revealed ${cardName(event.cardId)}`
+    case 'REVEAL_HAND': return `${who} revealed their hand`
+    case 'ARRANGE_LIBRARY_TOP': {
+      const count = event.top.length + event.bottom.length + event.graveyard.length
+      const placed = [
+        event.top.length > 0 && `${event.top.length} on top`,
+        event.bottom.length > 0 && `${event.bottom.length} on the bottom`,
+        event.graveyard.length > 0 && `${event.graveyard.map(cardId => cardName(cardId, 'library')).join(', ')} into their graveyard`
+      ].filter(Boolean)
+      const placement = placed.length > 1 ? `${placed.slice(0, -1).join(', ')} and ${placed[placed.length - 1]}` : placed[0]
+      return `${who} looked at the top ${count === 1 ? 'card' : `${count} cards`} of their library, putting ${placement}`
+    }
+    case 'SEARCH_LIBRARY': {
+      if (!event.cardId) return `${who} searched their library and found nothing`
+      const to = event.to ?? 'hand'
+      return `${who} searched their library, putting ${movedCardName(event.cardId, 'library', to)} ${ZONE_DESTINATIONS[to]}`
+    }
+    case 'REVEAL_LIBRARY_TOP': return `${who} revealed the top card of their library: ${player?.library[0]?.name ?? 'a card'}`
+    case 'ADD_COUNTER': return `${who} ${event.amount >= 0 ? 'added' : 'removed'} ${Math.abs(event.amount)} ${event.counter} counter${Math.abs(event.amount) === 1 ? '' : 's'} on ${cardName(event.cardId, 'battlefield')}`
+    case 'CREATE_TOKEN': return `${who} created a ${event.token.name} token`
+    case 'ATTACH_CARD': return `${who} attached ${cardName(event.cardId, 'battlefield')} to ${cardName(event.targetId, 'battlefield')}`
+    case 'DETACH_CARD': return `${who} unattached ${cardName(event.cardId, 'battlefield')}`
+    case 'CHANGE_LIFE': return `${who} ${event.amount >= 0 ? 'gained' : 'lost'} ${Math.abs(event.amount)} life`
+    case 'CHANGE_POISON': return `${who} ${event.amount >= 0 ? 'got' : 'lost'} ${Math.abs(event.amount)} poison`
+    case 'COMMANDER_DAMAGE': return `${name(event.sourcePlayerId)}'s commander dealt ${event.amount} damage to ${who}`
+    case 'NEXT_PHASE': return `${who} moved on from ${before.phase}`
+    case 'NEXT_TURN': return `${who} ended their turn`
+    case 'PASS_PRIORITY': return `${who} passed priority`
+    default: return 'Unknown event'
+  }
+}
@@ -0,0 +1,82 @@
+import { createHash, createHmac, randomBytes } from 'crypto'
+import { GameResult } from './types'
+
+// Commit-reveal shuffling: every game gets a secret seed, and only its SHA-256 (the commitment) is
+// shown to players while the game runs. Each shuffle is a Fisher–Yates pass driven by a stream keyed
+// on the seed and the shuffle's seq, so once the seed is revealed after the game anyone can recompute
+// every shuffle from the event log and check that the server didn't tamper with any of them.
+
+export interface ShuffleRecord {
+  readonly seq: number
+  readonly playerId: string
+  readonly order: readonly number[]
+}
+
+export function createShuffleSeed(): string {
+  return randomBytes(32).toString('hex')
+}
+
+export function commitToSeed(seed: string): string {
+  return createHash('sha256').update(seed).digest('hex')
+}
+
+// Deterministic CSPRNG: HMAC-SHA256 of a block counter under a key unique to one shuffle
+class ShuffleStream {
+  private block: Buffer = Buffer.alloc(0)
+  private offset = 0
+  private counter = 0
+
+  constructor(private readonly key: Buffer) {}
+
+  nextUint32(): number {
+    if (this.offset + 4 > this.block.length) {
+      this.block = createHmac('sha256', this.key).update(`block:${this.counter++}`).digest()
+      this.offset = 0
+    }
+    const value = this.block.readUInt32BE(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  // Rejection sampling keeps every result equally likely (a plain modulo would favour small values)
+  nextBelow(bound: number): number {
+    const limit = Math.floor(0x100000000 / bound) * bound
+    let value = this.nextUint32()
+    while (value >= limit) {
+      value = this.nextUint32()
+    }
+    return value % bound
+  }
+}
+
+// The permutation for the shuffle logged at seq: position k of the new library holds old card order[k]
+export function shuffleOrder(seed: string, seq: number, size: number): number[] {
+  const key = createHmac('sha256', seed).update(`shuffle:${seq}`).digest()
+  const stream = new ShuffleStream(key)
+  const order = Array.from({ length: size }, (_, index) => index)
+
+  for (let i = size - 1; i > 0; i--) {
+    const j = stream.nextBelow(i + 1)
+    ;[order[i], order[j]] = [order[j], order[i]]
+  }
+  return order
+}
+
+// Check a revealed seed against its commitment and recompute every logged shuffle
+export function verifyShuffles(seed: string, commitment: string, shuffles: readonly ShuffleRecord[]): GameResult<true> {
+  if (commitToSeed(seed) !== commitment) {
+    return { success: false, error: { code: 'SEED_COMMITMENT_MISMATCH', message: 'The revealed seed does not match the commitment' } }
+  }
+
+  for (const shuffle of shuffles) {
+    const expected = shuffleOrder(seed, shuffle.seq, shuffle.order.length)
+    if (expected.some((position, index) => position !== shuffle.order[index])) {
+      return {
+        success: false,
+        error: { code: 'SHUFFLE_MISMATCH', message: `Shuffle ${shuffle.seq} does not match the seed`, details: shuffle }
+      }
+    }
+  }
+
+  return { success: true, data: true }
+}
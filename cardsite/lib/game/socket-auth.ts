@@ -0,0 +1,57 @@
+import { eq } from 'drizzle-orm'
+import { getToken } from 'next-auth/jwt'
+import { db } from '../db'
+import { users } from '../db/schema'
+
+// The signed-in user a game socket belongs to, fixed when it connects
+export interface SocketUser {
+  readonly userId: string
+  readonly username: string
+}
+
+interface Handshake {
+  readonly headers: Record<string, string | string[] | undefined>
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {}
+  for (const part of (header ?? '').split(';')) {
+    const index = part.indexOf('=')
+    if (index < 0) continue
+    const name = part.slice(0, index).trim()
+    const value = part.slice(index + 1).trim()
+    try {
+      cookies[name] = decodeURIComponent(value)
+    } catch {
+      cookies[name] = value
+    }
+  }
+  return cookies
+}
+
+// Read the NextAuth session from the socket handshake (the same JWT middleware.ts checks), or null if not signed in
+export async function authenticateHandshake(handshake: Handshake): Promise<SocketUser | null> {
+  const cookieHeader = handshake.headers.cookie
+  const token = await getToken({
+    req: {
+      cookies: parseCookies(Array.isArray(cookieHeader) ? cookieHeader.join('; ') : cookieHeader),
+      headers: handshake.headers
+    } as unknown as Parameters<typeof getToken>[0]['req'],
+    secret: process.env.NEXTAUTH_SECRET,
+    // Cookie names follow lib/auth.ts, which only uses the __Secure- prefix in production
+    secureCookie: process.env.NODE_ENV === 'production'
+  })
+
+  const userId = typeof token?.id === 'string' ? token.id : token?.sub
+  if (!userId) return null
+
+  // The platform username is what other players see, falling back to the account name
+  const [user] = await db
+    .select({ username: users.username, name: users.name })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1)
+  if (!user) return null
+
+  return { userId, username: user.username || user.name || 'Player' }
+}
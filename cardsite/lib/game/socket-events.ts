@@ -0,0 +1,233 @@
+import { z } from 'zod'
+import { GameResult } from './types'
+
+// Payload shapes for every event a client may send the game server. Unknown keys are stripped,
+// so only what is described here is ever stored or passed on to other players
+
+const id = z.string().min(1).max(200)
+const gameId = id
+const amount = z.number().int().min(-1000).max(1000)
+
+const position = z.object({
+  x: z.number().finite().min(-100000).max(100000),
+  y: z.number().finite().min(-100000).max(100000)
+})
+
+// Only which card is meant is taken from a client: decks are built from the stored cards, and played cards
+// are found by id in the player's own zones
+const card = z.object({
+  id,
+  name: z.string().min(1).max(200)
+})
+
+const handCard = card.extend({ instanceId: id })
+
+const token = z.object({
+  instanceId: id,
+  name: z.string().min(1).max(200),
+  typeLine: z.string().max(200).optional(),
+  type_line: z.string().max(200).optional(),
+  power: z.string().max(10).optional(),
+  toughness: z.string().max(10).optional(),
+  colors: z.array(z.string().max(20)).max(10).optional(),
+  imageUris: z.object({
+    small: z.string().max(500).optional(),
+    normal: z.string().max(500).optional(),
+    large: z.string().max(500).optional()
+  }).optional()
+})
+
+const zone = z.enum(['hand', 'library', 'battlefield', 'graveyard', 'exile', 'command'])
+
+// Where the looked-at cards of a scry or surveil go, and where a searched-for card goes
+const libraryPiles = {
+  top: z.array(id).max(250),
+  bottom: z.array(id).max(250),
+  graveyard: z.array(id).max(250)
+}
+const librarySearch = {
+  cardId: id.optional(),
+  to: zone.exclude(['library']).optional(),
+  position: position.optional()
+}
+
+// The player named in a payload is ignored for everything but life, poison and commander damage,
+// where it is the player being changed
+const playerEvent = z.object({ gameId, playerId: id.optional() })
+const cardEvent = playerEvent.extend({ cardId: id })
+
+// Engine actions GameSync clients send as game-action; the server fills in shuffle orders, timestamps and seqs,
+// joining or leaving only ever happens through join-game, and sideboarding only through deck-submitted
+// (where the deck is checked against the one the player registered)
+const gameAction = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('LOAD_DECK'), playerId: id, cards: z.array(card).max(250) }),
+  z.object({ type: z.literal('DRAW_CARD'), playerId: id }),
+  z.object({ type: z.literal('PLAY_CARD'), playerId: id, cardId: id, position }),
+  z.object({ type: z.literal('TAP_CARD'), playerId: id, cardId: id, tapped: z.boolean() }),
+  z.object({ type: z.literal('MOVE_CARD'), playerId: id, cardId: id, position }),
+  z.object({ type: z.literal('RETURN_TO_HAND'), playerId: id, cardId: id }),
+  z.object({
+    type: z.literal('MOVE_TO_ZONE'),
+    playerId: id,
+    cardId: id,
+    from: zone,
+    to: zone,
+    position: position.optional(),
+    toBottom: z.boolean().optional()
+  }),
+  z.object({ type: z.literal('DESTROY_CARD'), playerId: id, cardId: id }),
+  z.object({ type: z.literal('EXILE_CARD'), playerId: id, cardId: id, from: zone }),
+  z.object({ type: z.literal('SHUFFLE_LIBRARY'), playerId: id }),
+  z.object({ type: z.literal('REVEAL_CARD'), playerId: id, cardId: id }),
+  z.object({ type: z.literal('REVEAL_HAND'), playerId: id }),
+  z.object({ type: z.literal('ARRANGE_LIBRARY_TOP'), playerId: id, ...libraryPiles }),
+  z.object({ type: z.literal('SEARCH_LIBRARY'), playerId: id, ...librarySearch }),
+  z.object({ type: z.literal('REVEAL_LIBRARY_TOP'), playerId: id }),
+  z.object({ type: z.literal('ADD_COUNTER'), playerId: id, cardId: id, counter: z.string().min(1).max(50), amount }),
+  z.object({ type: z.literal('CREATE_TOKEN'), playerId: id, instanceId: id, token: token.omit({ instanceId: true }), position }),
+  z.object({ type: z.literal('ATTACH_CARD'), playerId: id, cardId: id, targetId: id }),
+  z.object({ type: z.literal('DETACH_CARD'), playerId: id, cardId: id }),
+  z.object({ type: z.literal('CHANGE_LIFE'), playerId: id, amount }),
+  z.object({ type: z.literal('CHANGE_POISON'), playerId: id, amount }),
+  z.object({ type: z.literal('COMMANDER_DAMAGE'), playerId: id, sourcePlayerId: id, amount }),
+  z.object({ type: z.literal('START_GAME'), playerId: id }),
+  z.object({ type: z.literal('NEXT_PHASE'), playerId: id }),
+  z.object({ type: z.literal('NEXT_TURN'), playerId: id }),
+  z.object({ type: z.literal('PASS_PRIORITY'), playerId: id }),
+  z.object({ type: z.literal('MULLIGAN'), playerId: id }),
+  z.object({ type: z.literal('KEEP_HAND'), playerId: id, bottom: z.array(id).max(100), scryToBottom: z.boolean().optional() }),
+  z.object({ type: z.literal('CONCEDE'), playerId: id })
+])
+
+export const SOCKET_EVENT_SCHEMAS: Readonly<Record<string, z.ZodTypeAny>> = {
+  'join-game': z.object({
+    gameId,
+    format: z.string().max(50).optional(),
+    spectator: z.boolean().optional(),
+    lastSeq: z.number().int().min(0).optional()
+  }),
+  'request-game-state': z.object({ gameId, lastSeq: z.number().int().min(0).optional() }),
+  'request-state-sync': z.object({ gameId, lastSeq: z.number().int().min(0).optional() }),
+
+  'deck-loaded': playerEvent.extend({ libraryCards: z.array(card).max(250) }),
+  'card-drawn': playerEvent,
+  'card-moved': cardEvent.extend({ position }),
+  'card-tapped': cardEvent.extend({ tapped: z.boolean() }),
+  'card-played': playerEvent.extend({ card: handCard, position, from: z.enum(['hand', 'library']).optional() }),
+  'card-counter-changed': cardEvent.extend({ counter: z.string().min(1).max(50), amount }),
+  'token-created': playerEvent.extend({ card: token, position }),
+  'card-attached': cardEvent.extend({ targetId: id.nullable().optional() }),
+  'library-shuffled': playerEvent,
+  'game-started': playerEvent,
+  'phase-advanced': playerEvent,
+  'turn-ended': playerEvent,
+  'priority-passed': playerEvent,
+  'mulligan-taken': playerEvent,
+  'hand-kept': playerEvent.extend({ bottom: z.array(id).max(100).optional(), scryToBottom: z.boolean().optional() }),
+  'game-conceded': playerEvent,
+  'deck-submitted': playerEvent.extend({ libraryCards: z.array(card).max(250) }),
+  'card-revealed': cardEvent,
+  'hand-revealed': playerEvent,
+  'library-arranged': playerEvent.extend({
+    top: libraryPiles.top.optional(),
+    bottom: libraryPiles.bottom.optional(),
+    graveyard: libraryPiles.graveyard.optional()
+  }),
+  'library-searched': playerEvent.extend(librarySearch),
+  'library-top-revealed': playerEvent,
+  'card-returned': cardEvent,
+  'card-destroyed': cardEvent,
+  'card-exiled': cardEvent,
+  'life-changed': z.object({ gameId, playerId: id, amount }),
+  'poison-changed': z.object({ gameId, playerId: id, amount }),
+  'commander-damage': z.object({ gameId, playerId: id, sourcePlayerId: id, amount }),
+  'game-action': z.object({ gameId, event: gameAction }),
+
+  'chat-message': z.object({ gameId, message: z.string().trim().min(1).max(500) }),
+  'undo-requested': playerEvent,
+  'undo-response': playerEvent.extend({ requestId: z.string().min(1).max(300), approve: z.boolean() }),
+  'turn-rewound': playerEvent,
+  'spectator-kicked': z.object({ gameId, spectatorId: id }),
+  // Host controls; the server checks the sender is the room's host
+  'player-kicked': playerEvent.extend({ targetId: id }),
+  'host-transferred': playerEvent.extend({ targetId: id }),
+  'seats-rearranged': playerEvent.extend({ order: z.array(id).min(1).max(20) }),
+  'game-paused': playerEvent,
+  'game-resumed': playerEvent,
+  'turn-skipped': playerEvent.extend({ targetId: id }),
+  'heartbeat': z.object({ gameId }),
+
+  // The lobby's room list, and its matchmaking queue (power levels are 1-10, as on rooms)
+  'lobby-joined': z.object({}).optional(),
+  'matchmaking-joined': z.object({
+    format: z.string().trim().toLowerCase().min(1).max(50),
+    deckId: id,
+    powerLevel: z.number().int().min(1).max(10).optional()
+  }),
+  'matchmaking-left': z.object({}).optional()
+}
+
+// Check a payload against its event's schema, returning the cleaned-up payload
+export function parseSocketEvent(eventName: string, data: unknown): GameResult<Record<string, unknown>> {
+  const schema = SOCKET_EVENT_SCHEMAS[eventName]
+  if (!schema) {
+    return { success: false, error: { code: 'UNKNOWN_EVENT', message: `Unknown event ${eventName}` } }
+  }
+
+  const result = schema.safeParse(data)
+  if (!result.success) {
+    const issue = result.error.errors[0]
+    return {
+      success: false,
+      error: {
+        code: 'INVALID_PAYLOAD',
+        message: `Malformed ${eventName} payload (${issue.path.join('.') || 'payload'}: ${issue.message})`,
+        details: result.error.errors.map(({ path, message }) => ({ path: path.join('.'), message }))
+      }
+    }
+  }
+  return { success: true, data: result.data }
+}
+
+// Same shape of limit and answer as lib/simple-rate-limit.ts: up to `requests` at once,
+// refilled at `requests` per `windowMs`, so a socket can burst briefly but not sustain a flood
+export const SOCKET_RATE_LIMITS = {
+  EVENTS: { requests: 40, windowMs: 5 * 1000 }
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  resetTime: number
+  retryAfter: number
+}
+
+export class TokenBucket {
+  private tokens: number
+  private updatedAt = Date.now()
+
+  constructor(private config: { requests: number; windowMs: number }) {
+    this.tokens = config.requests
+  }
+
+  take(): RateLimitResult {
+    const now = Date.now()
+    const refillRate = this.config.requests / this.config.windowMs
+    this.tokens = Math.min(this.config.requests, this.tokens + (now - this.updatedAt) * refillRate)
+    this.updatedAt = now
+
+    const allowed = this.tokens >= 1
+    if (allowed) {
+      this.tokens -= 1
+    }
+
+    // When the next token (or a full bucket) will be available
+    const untilNextToken = allowed ? 0 : (1 - this.tokens) / refillRate
+    return {
+      allowed,
+      remaining: Math.floor(this.tokens),
+      resetTime: now + Math.ceil((this.config.requests - this.tokens) / refillRate),
+      retryAfter: Math.ceil(untilNextToken / 1000)
+    }
+  }
+}
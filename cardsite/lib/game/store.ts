@@ -0,0 +1,475 @@
+import { and, asc, desc, eq, gt, gte, inArray, isNull } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { db } from '../db'
+import { gameEvents, gameSnapshots, gameShuffleSeeds, gameParticipants, gameRooms, gameSpectators, gameInvites, gameMessages, gameResults, decks, deckCards, cards, users } from '../db/schema'
+import { GameEngine } from './engine'
+import { ShuffleRecord } from './shuffle'
+import { RecordedGame } from './replay'
+import { CardId, DeckList, GameState, GameResult, MTGCard, SequencedEvent, SerializedGameState } from './types'
+
+// Take a snapshot every this many events, so resuming never replays more than this
+export const SNAPSHOT_INTERVAL = 50
+
+// How much of the chat and game log someone joining a game gets to scroll back through
+export const MESSAGE_HISTORY = 200
+
+// The deck_cards category of cards kept out of the deck until a player sideboards them in
+export const SIDEBOARD_CATEGORY = 'sideboard'
+
+export interface RoomInfo {
+  readonly hostId: string
+  readonly settings: NonNullable<typeof gameRooms.$inferSelect['settings']>
+}
+
+export interface StoredGame {
+  readonly state: GameState
+  readonly seq: number
+  readonly updatedAt: Date
+  // The snapshot the state was rebuilt from and the events folded onto it, so undo reaches back past a restart
+  readonly baseState: GameState
+  readonly events: readonly SequencedEvent[]
+}
+
+// A chat message or game log line, as stored and as sent to everyone in the game
+export interface GameMessage {
+  readonly id: string
+  readonly kind: 'chat' | 'log'
+  readonly userId: string | null
+  readonly username: string | null
+  readonly seq: number | null // The event a log line describes
+  readonly body: string
+  readonly createdAt: string
+}
+
+// Durable home of every game: the accepted event log plus periodic snapshots, in Postgres
+export class GameStore {
+  private writeQueues = new Map<string, Promise<void>>()
+  // Games with a write that didn't land; their later writes are skipped so the log never has a gap
+  private failedGames = new Set<string>()
+
+  // Told when a game's write fails, once until the game is loaded from storage again
+  onWriteFailed: ((gameId: string) => void) | null = null
+
+  appendEvent(gameId: string, event: SequencedEvent): Promise<void> {
+    return this.enqueue(gameId, async () => {
+      await db.insert(gameEvents).values({
+        id: nanoid(12),
+        gameId,
+        seq: event.seq,
+        type: event.type,
+        playerId: 'playerId' in event ? event.playerId : null,
+        event
+      })
+    })
+  }
+
+  saveSnapshot(gameId: string, seq: number, state: GameState): Promise<void> {
+    return this.enqueue(gameId, async () => {
+      await db.insert(gameSnapshots).values({
+        id: nanoid(12),
+        gameId,
+        seq,
+        state: GameStore.serializeState(state)
+      })
+    })
+  }
+
+  // Undone events stay in the log for the record but are skipped from then on; snapshots taken since them no longer hold
+  undoEvents(gameId: string, seqs: readonly number[]): Promise<void> {
+    return this.enqueue(gameId, async () => {
+      await db
+        .update(gameEvents)
+        .set({ undoneAt: new Date() })
+        .where(and(eq(gameEvents.gameId, gameId), inArray(gameEvents.seq, [...seqs])))
+      await db
+        .delete(gameSnapshots)
+        .where(and(eq(gameSnapshots.gameId, gameId), gte(gameSnapshots.seq, Math.min(...seqs))))
+    })
+  }
+
+  // Ready to broadcast straight away; the write lands in order with the game's events
+  appendMessage(gameId: string, message: Omit<GameMessage, 'id' | 'createdAt'>): GameMessage {
+    const stored = { ...message, id: nanoid(12), createdAt: new Date().toISOString() }
+    this.enqueue(gameId, async () => {
+      await db.insert(gameMessages).values({
+        id: stored.id,
+        gameId,
+        kind: stored.kind,
+        userId: stored.userId,
+        seq: stored.seq,
+        body: stored.body,
+        createdAt: new Date(stored.createdAt)
+      })
+    })
+    return stored
+  }
+
+  // The latest messages of a game, oldest first
+  async loadMessages(gameId: string, limit: number = MESSAGE_HISTORY): Promise<GameMessage[]> {
+    await this.flush(gameId)
+
+    const rows = await db
+      .select({
+        id: gameMessages.id,
+        kind: gameMessages.kind,
+        userId: gameMessages.userId,
+        username: users.username,
+        seq: gameMessages.seq,
+        body: gameMessages.body,
+        createdAt: gameMessages.createdAt
+      })
+      .from(gameMessages)
+      .leftJoin(users, eq(gameMessages.userId, users.id))
+      .where(eq(gameMessages.gameId, gameId))
+      .orderBy(desc(gameMessages.createdAt))
+      .limit(limit)
+
+    return rows.reverse().map(row => ({
+      ...row,
+      kind: row.kind as GameMessage['kind'],
+      createdAt: row.createdAt.toISOString()
+    }))
+  }
+
+  // Write down every player's placement and close the room, once the game has a winner
+  recordResults(gameId: string, state: GameState): Promise<void> {
+    const endedAt = new Date()
+    return this.enqueue(gameId, async () => {
+      // The clock starts when the game did (the latest start, for later games of a match),
+      // or when the room opened for games begun before that was logged
+      const [start] = await db
+        .select({ createdAt: gameEvents.createdAt })
+        .from(gameEvents)
+        .where(and(eq(gameEvents.gameId, gameId), eq(gameEvents.type, 'START_GAME'), isNull(gameEvents.undoneAt)))
+        .orderBy(desc(gameEvents.seq))
+        .limit(1)
+      const [room] = await db
+        .select({ createdAt: gameRooms.createdAt })
+        .from(gameRooms)
+        .where(eq(gameRooms.id, gameId))
+        .limit(1)
+      const startedAt = start?.createdAt ?? room?.createdAt ?? endedAt
+
+      const seats = await db
+        .select({ userId: gameParticipants.userId, deckId: gameParticipants.deckId, deckName: decks.name })
+        .from(gameParticipants)
+        .leftJoin(decks, eq(gameParticipants.deckId, decks.id))
+        .where(eq(gameParticipants.gameId, gameId))
+
+      const placements = GameEngine.getPlacements(state)
+      await db
+        .insert(gameResults)
+        .values(placements.map(({ playerId, placement, conceded }) => {
+          const seat = seats.find(s => s.userId === playerId)
+          return {
+            id: nanoid(12),
+            gameId,
+            gameNumber: state.match?.gameNumber ?? 1,
+            userId: playerId,
+            deckId: seat?.deckId ?? null,
+            deckName: seat?.deckName ?? null,
+            format: state.format,
+            placement,
+            playerCount: placements.length,
+            conceded,
+            turns: state.turn,
+            durationSeconds: Math.max(0, Math.round((endedAt.getTime() - startedAt.getTime()) / 1000)),
+            endedAt
+          }
+        }))
+        .onConflictDoNothing()
+
+      // A match goes on in the same room until someone has won it
+      if (state.status === 'ended') {
+        await db
+          .update(gameRooms)
+          .set({ status: 'finished', updatedAt: endedAt })
+          .where(eq(gameRooms.id, gameId))
+      }
+    })
+  }
+
+  saveShuffleSeed(gameId: string, seed: string, commitment: string): Promise<void> {
+    return this.enqueue(gameId, async () => {
+      await db.insert(gameShuffleSeeds).values({ gameId, seed, commitment }).onConflictDoNothing()
+    })
+  }
+
+  async loadShuffleSeed(gameId: string): Promise<{ seed: string; commitment: string } | null> {
+    await this.flush(gameId)
+
+    const [row] = await db
+      .select({ seed: gameShuffleSeeds.seed, commitment: gameShuffleSeeds.commitment })
+      .from(gameShuffleSeeds)
+      .where(eq(gameShuffleSeeds.gameId, gameId))
+      .limit(1)
+    return row ?? null
+  }
+
+  // Every shuffle in the log, in order, for checking against the revealed seed
+  async loadShuffles(gameId: string): Promise<ShuffleRecord[]> {
+    await this.flush(gameId)
+
+    const rows = await db
+      .select({ event: gameEvents.event })
+      .from(gameEvents)
+      .where(and(eq(gameEvents.gameId, gameId), inArray(gameEvents.type, ['LOAD_DECK', 'SUBMIT_DECK', 'SHUFFLE_LIBRARY', 'MULLIGAN'])))
+      .orderBy(asc(gameEvents.seq))
+
+    // Decks loaded before they were shuffled on the way in have no order, and a shuffle of their own after them
+    return rows.flatMap(({ event }) => {
+      const shuffle = event as Extract<SequencedEvent, { type: 'LOAD_DECK' | 'SUBMIT_DECK' | 'SHUFFLE_LIBRARY' | 'MULLIGAN' }>
+      if (!shuffle.order && (shuffle.type === 'LOAD_DECK' || shuffle.type === 'SUBMIT_DECK')) return []
+      return [{ seq: shuffle.seq, playerId: shuffle.playerId, order: shuffle.order ?? [] }]
+    })
+  }
+
+  // The seat a player took in the room, which fixes their place in the turn order
+  async loadSeatPosition(gameId: string, userId: string): Promise<number | null> {
+    const [participant] = await db
+      .select({ seatPosition: gameParticipants.seatPosition })
+      .from(gameParticipants)
+      .where(and(eq(gameParticipants.gameId, gameId), eq(gameParticipants.userId, userId)))
+      .limit(1)
+    return participant?.seatPosition ?? null
+  }
+
+  // What a player may sideboard with between games: the deck they registered for the room, mainboard and sideboard
+  async loadDeckList(gameId: string, userId: string): Promise<DeckList> {
+    const rows = await db
+      .select({ quantity: deckCards.quantity, category: deckCards.category, card: cards })
+      .from(gameParticipants)
+      .innerJoin(deckCards, eq(gameParticipants.deckId, deckCards.deckId))
+      .innerJoin(cards, eq(deckCards.cardId, cards.id))
+      .where(and(eq(gameParticipants.gameId, gameId), eq(gameParticipants.userId, userId)))
+
+    const copies: Record<string, number> = {}
+    const deckCardsById: Record<string, MTGCard> = {}
+    let mainboardSize = 0
+    for (const { quantity, category, card } of rows) {
+      copies[card.id] = (copies[card.id] ?? 0) + quantity
+      deckCardsById[card.id] = {
+        id: card.id as CardId,
+        name: card.name,
+        manaCost: card.manaCost ?? undefined,
+        cmc: card.cmc === null ? undefined : Number(card.cmc),
+        typeLine: card.typeLine,
+        oracleText: card.oracleText ?? undefined,
+        power: card.power ?? undefined,
+        toughness: card.toughness ?? undefined,
+        colors: card.colors ?? undefined,
+        colorIdentity: card.colorIdentity ?? undefined,
+        rarity: card.rarity,
+        setCode: card.setCode,
+        setName: card.setName,
+        imageUris: card.imageUris ?? undefined,
+        prices: card.prices ?? undefined
+      }
+      if (category !== SIDEBOARD_CATEGORY) {
+        mainboardSize += quantity
+      }
+    }
+    return { mainboardSize, copies, cards: deckCardsById }
+  }
+
+  // The room's host and the house rules they picked when creating it
+  async loadRoom(gameId: string): Promise<RoomInfo | null> {
+    const [room] = await db
+      .select({ hostId: gameRooms.hostId, settings: gameRooms.settings })
+      .from(gameRooms)
+      .where(eq(gameRooms.id, gameId))
+      .limit(1)
+    return room ? { hostId: room.hostId, settings: room.settings ?? {} } : null
+  }
+
+  // Spectators join through the rooms API; kicked ones stay on record so they can't watch again
+  async isSpectator(gameId: string, userId: string): Promise<boolean> {
+    const [spectator] = await db
+      .select({ id: gameSpectators.id })
+      .from(gameSpectators)
+      .where(and(eq(gameSpectators.gameId, gameId), eq(gameSpectators.userId, userId), isNull(gameSpectators.kickedAt)))
+      .limit(1)
+    return !!spectator
+  }
+
+  async removeSpectator(gameId: string, userId: string): Promise<void> {
+    await db
+      .delete(gameSpectators)
+      .where(and(eq(gameSpectators.gameId, gameId), eq(gameSpectators.userId, userId), isNull(gameSpectators.kickedAt)))
+  }
+
+  async kickSpectator(gameId: string, userId: string): Promise<void> {
+    await db
+      .update(gameSpectators)
+      .set({ kickedAt: new Date() })
+      .where(and(eq(gameSpectators.gameId, gameId), eq(gameSpectators.userId, userId)))
+  }
+
+  // A kicked player gives up their seat and their invite, and stays on record as removed the way kicked
+  // spectators do: an invite link still works for 24 hours, so the join route turns them away by this record
+  async removeParticipant(gameId: string, userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(gameParticipants)
+        .where(and(eq(gameParticipants.gameId, gameId), eq(gameParticipants.userId, userId)))
+      await tx
+        .delete(gameInvites)
+        .where(and(eq(gameInvites.gameId, gameId), eq(gameInvites.userId, userId)))
+      await tx
+        .insert(gameSpectators)
+        .values({ id: nanoid(12), gameId, userId, kickedAt: new Date() })
+        .onConflictDoUpdate({ target: [gameSpectators.gameId, gameSpectators.userId], set: { kickedAt: new Date() } })
+    })
+  }
+
+  // joined or playing while the player is at the table, disconnected once their heartbeats stop
+  async setParticipantStatus(gameId: string, userId: string, status: 'joined' | 'playing' | 'disconnected'): Promise<void> {
+    await db
+      .update(gameParticipants)
+      .set({ status })
+      .where(and(eq(gameParticipants.gameId, gameId), eq(gameParticipants.userId, userId)))
+  }
+
+  // Write the host's new seating back to the room, where later games and rejoining players read it from
+  async saveSeatPositions(gameId: string, seats: readonly { userId: string, seatPosition: number }[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const { userId, seatPosition } of seats) {
+        await tx
+          .update(gameParticipants)
+          .set({ seatPosition })
+          .where(and(eq(gameParticipants.gameId, gameId), eq(gameParticipants.userId, userId)))
+      }
+    })
+  }
+
+  // Hand the room to another of its players; false if it changed hands in the meantime
+  async transferHost(gameId: string, fromId: string, toId: string): Promise<boolean> {
+    const updated = await db
+      .update(gameRooms)
+      .set({ hostId: toId, updatedAt: new Date() })
+      .where(and(eq(gameRooms.id, gameId), eq(gameRooms.hostId, fromId)))
+      .returning({ id: gameRooms.id })
+    return updated.length > 0
+  }
+
+  // Rebuild a game from its latest snapshot plus the events logged after it (null if nothing is stored)
+  async loadGame(gameId: string): Promise<GameResult<StoredGame | null>> {
+    await this.flush(gameId)
+    // Whatever is stored is the game from here on, so writes pick up from it again
+    this.failedGames.delete(gameId)
+
+    const [snapshot] = await db
+      .select()
+      .from(gameSnapshots)
+      .where(eq(gameSnapshots.gameId, gameId))
+      .orderBy(desc(gameSnapshots.seq))
+      .limit(1)
+
+    const fromSeq = snapshot?.seq ?? 0
+    const events = await db
+      .select({ event: gameEvents.event, createdAt: gameEvents.createdAt })
+      .from(gameEvents)
+      .where(and(eq(gameEvents.gameId, gameId), gt(gameEvents.seq, fromSeq), isNull(gameEvents.undoneAt)))
+      .orderBy(asc(gameEvents.seq))
+
+    if (!snapshot && events.length === 0) {
+      return { success: true, data: null }
+    }
+
+    const baseState = snapshot
+      ? GameStore.deserializeState(snapshot.state as SerializedGameState)
+      : GameEngine.createInitialState(gameId)
+    let state = baseState
+    let seq = fromSeq
+    let updatedAt = snapshot?.createdAt ?? new Date()
+
+    // Every logged event was accepted once, so replaying them must succeed
+    for (const { event, createdAt } of events) {
+      const sequencedEvent = event as SequencedEvent
+      const result = GameEngine.reduce(state, sequencedEvent)
+      if (!result.success) {
+        return {
+          success: false,
+          error: {
+            code: 'REPLAY_FAILED',
+            message: `Event ${sequencedEvent.seq} could not be replayed: ${result.error.message}`,
+            details: result.error
+          }
+        }
+      }
+      state = result.data
+      seq = sequencedEvent.seq
+      updatedAt = createdAt
+    }
+
+    return {
+      success: true,
+      data: { state, seq, updatedAt, baseState, events: events.map(({ event }) => event as SequencedEvent) }
+    }
+  }
+
+  // The whole recorded game for replays: the earliest snapshot (the empty game, for any game started
+  // since snapshots were kept) and every event after it that was not undone, as stored rather than folded
+  async loadRecordedGame(gameId: string): Promise<RecordedGame | null> {
+    await this.flush(gameId)
+
+    const [snapshot] = await db
+      .select({ seq: gameSnapshots.seq, state: gameSnapshots.state })
+      .from(gameSnapshots)
+      .where(eq(gameSnapshots.gameId, gameId))
+      .orderBy(asc(gameSnapshots.seq))
+      .limit(1)
+
+    const fromSeq = snapshot?.seq ?? 0
+    const events = await db
+      .select({ event: gameEvents.event })
+      .from(gameEvents)
+      .where(and(eq(gameEvents.gameId, gameId), gt(gameEvents.seq, fromSeq), isNull(gameEvents.undoneAt)))
+      .orderBy(asc(gameEvents.seq))
+
+    if (!snapshot && events.length === 0) {
+      return null
+    }
+
+    return {
+      gameId,
+      initialState: (snapshot?.state as SerializedGameState | undefined) ??
+        GameStore.serializeState(GameEngine.createInitialState(gameId)),
+      events: events.map(({ event }) => event as SequencedEvent)
+    }
+  }
+
+  // Wait for every pending write of a game to land
+  async flush(gameId: string): Promise<void> {
+    await this.writeQueues.get(gameId)
+  }
+
+  // Writes for one game are chained so they land in sequence order
+  private enqueue(gameId: string, write: () => Promise<void>): Promise<void> {
+    const previous = this.writeQueues.get(gameId) ?? Promise.resolve()
+    const next = previous.then(() => this.failedGames.has(gameId) ? undefined : write()).catch(error => {
+      console.error(`❌ Failed to persist game ${gameId}:`, error)
+      this.failedGames.add(gameId)
+      this.onWriteFailed?.(gameId)
+    })
+    this.writeQueues.set(gameId, next)
+
+    // Forget the queue once it drains so finished games don't linger
+    next.then(() => {
+      if (this.writeQueues.get(gameId) === next) {
+        this.writeQueues.delete(gameId)
+      }
+    })
+    return next
+  }
+
+  static serializeState(state: GameState): SerializedGameState {
+    return { ...state, players: [...state.players.entries()] }
+  }
+
+  static deserializeState(serialized: SerializedGameState): GameState {
+    return { ...serialized, players: new Map(serialized.players) }
+  }
+}
+
+export const gameStore = new GameStore()
@@ -1,12 +1,13 @@
 import React from 'react'
 import { io, Socket } from 'socket.io-client'
-import { GameAction, GameEvent, GameId, PlayerId, GameResult, GameState } from './types'
+import { GameAction, GameEvent, GameId, PlayerId, GameState, SequencedEvent, SerializedGameState } from './types'
 
 export interface GameSyncEvents {
   onGameAction: (event: GameEvent) => void
   onPlayerJoined: (playerId: PlayerId, playerData: any) => void
   onPlayerLeft: (playerId: PlayerId) => void
   onGameStateSync: (state: Partial<GameState>) => void
+  onConnectionChange: (connected: boolean) => void
   onError: (error: any) => void
 }
 
@@ -14,6 +15,11 @@ export class GameSync {
   private socket: Socket | null = null
   private isConnected = false
   private eventHandlers: Partial<GameSyncEvents> = {}
+  // Last server seq applied (null until the first event or sync), so a reconnect only asks for what it missed
+  private lastSeq: number | null = null
+  // Actions broadcast while disconnected, sent in order once the game is rejoined
+  private offlineQueue: GameAction[] = []
+  private isJoined = false
 
   constructor(
     private gameId: GameId,
@@ -21,36 +27,37 @@ export class GameSync {
     private socketUrl: string = process.env.NEXT_PUBLIC_SOCKET_URL || 'http://localhost:3010'
   ) {}
 
+  // Resolves on the first connection; after that socket.io keeps reconnecting and each reconnect catches up
   connect(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
         this.socket = io(this.socketUrl, {
           transports: ['websocket', 'polling'],
           timeout: 5000,
+          withCredentials: true, // The server identifies the player by their session cookie
+          reconnectionDelay: 1000,
+          reconnectionDelayMax: 5000
         })
 
         this.socket.on('connect', () => {
           console.log('🔌 Connected to game server')
           this.isConnected = true
-          
-          // Join the game room
-          this.socket?.emit('join-game', {
-            gameId: this.gameId,
-            playerId: this.playerId
-          })
-          
+          this.eventHandlers.onConnectionChange?.(true)
+          this.rejoin()
           resolve()
         })
 
         this.socket.on('disconnect', () => {
           console.log('🔌 Disconnected from game server')
           this.isConnected = false
+          this.isJoined = false
+          this.eventHandlers.onConnectionChange?.(false)
         })
 
         this.socket.on('connect_error', (error) => {
           console.error('🚫 Socket connection error:', error)
           this.isConnected = false
-          reject(error)
+          reject(error) // No-op once the first connection has resolved
         })
 
         // Game-specific event handlers
@@ -70,13 +77,25 @@ export class GameSync {
     }
   }
 
-  // Send action to other players
+  // Send action to other players (queued while disconnected)
   broadcastAction(action: GameAction): void {
-    if (!this.isConnected || !this.socket) {
-      console.warn('Cannot broadcast action - not connected')
+    if (!this.isConnected || !this.isJoined || !this.socket) {
+      console.warn('Not connected - queueing action until the game is rejoined')
+      this.offlineQueue.push(action)
       return
     }
 
+    this.emitAction(action)
+  }
+
+  // Actions waiting for the connection to come back
+  get queuedActions(): number {
+    return this.offlineQueue.length
+  }
+
+  private emitAction(action: GameAction): void {
+    if (!this.socket) return
+
     const event: GameEvent = {
       ...action,
       timestamp: Date.now(),
@@ -99,15 +118,48 @@ export class GameSync {
     }
   }
 
+  // Join (or rejoin) the game; once the server has us back, send anything queued and catch up on what we missed
+  private rejoin(): void {
+    const lastSeq = this.lastSeq
+    this.socket?.emit('join-game', {
+      gameId: this.gameId,
+      lastSeq: lastSeq ?? undefined
+    }, () => {
+      this.isJoined = true
+
+      const queued = this.offlineQueue
+      this.offlineQueue = []
+      queued.forEach(action => this.emitAction(action))
+
+      if (lastSeq !== null) {
+        this.requestStateSync()
+      }
+    })
+  }
+
+  // Events are applied once each, in seq order, however they arrive (live or replayed after a reconnect)
+  private applyEvent(event: SequencedEvent): void {
+    if (this.lastSeq !== null && event.seq <= this.lastSeq) return
+    this.lastSeq = event.seq
+
+    // Don't process our own actions (only for actions that have playerId)
+    if ('playerId' in event && event.playerId === this.playerId) return
+
+    this.eventHandlers.onGameAction?.(event)
+  }
+
   private setupGameEventHandlers(): void {
     if (!this.socket) return
 
-    // Receive actions from other players
-    this.socket.on('game-action', (data: { event: GameEvent }) => {
-      // Don't process our own actions (only for actions that have playerId)
-      if ('playerId' in data.event && data.event.playerId === this.playerId) return
-      
-      this.eventHandlers.onGameAction?.(data.event)
+    // Receive accepted actions from other players, in server sequence order
+    this.socket.on('game-action', (data: { event: SequencedEvent }) => {
+      this.applyEvent(data.event)
+    })
+
+    // Everything accepted while we were away, when the server still has it
+    this.socket.on('missed-events', (data: { events: SequencedEvent[], seq: number }) => {
+      data.events.forEach(event => this.applyEvent(event))
+      this.lastSeq = Math.max(this.lastSeq ?? 0, data.seq)
     })
 
     // Player management
@@ -121,9 +173,16 @@ export class GameSync {
       this.eventHandlers.onPlayerLeft?.(data.playerId)
     })
 
-    // Full state synchronization (for conflict resolution)
-    this.socket.on('game-state-sync', (data: { state: Partial<GameState> }) => {
-      this.eventHandlers.onGameStateSync?.(data.state)
+    // Full state synchronization (for conflict resolution, or when the missed events are gone)
+    this.socket.on('game-state-sync', (data: { state: SerializedGameState, seq: number }) => {
+      this.lastSeq = data.seq
+      this.eventHandlers.onGameStateSync?.({ ...data.state, players: new Map(data.state.players) })
+    })
+
+    // The server runs every action through GameEngine.reduce and rejects the ones it refuses
+    this.socket.on('action-rejected', (rejection: { event: string, code: string, message: string }) => {
+      console.warn('🚫 Action rejected by server:', rejection)
+      this.eventHandlers.onError?.(rejection)
     })
 
     // Error handling
@@ -133,10 +192,10 @@ export class GameSync {
     })
   }
 
-  // Request full state sync (for conflict resolution)
+  // Request the events missed since the last one applied (or the full state, before any event has arrived)
   requestStateSync(): void {
     if (this.isConnected && this.socket) {
-      this.socket.emit('request-state-sync', { gameId: this.gameId })
+      this.socket.emit('request-state-sync', { gameId: this.gameId, lastSeq: this.lastSeq ?? undefined })
     }
   }
 
@@ -176,6 +235,10 @@ export function useGameSync(
     const unsubscribers = Object.entries(events).map(([event, handler]) => {
       return sync.on(event as keyof GameSyncEvents, handler as any)
     })
+    unsubscribers.push(sync.on('onConnectionChange', (connected) => {
+      setIsConnected(connected)
+      events.onConnectionChange?.(connected)
+    }))
 
     // Connect
     sync.connect()
@@ -38,6 +38,11 @@ export interface HandCard extends MTGCard {
   readonly instanceId: InstanceId
 }
 
+// Cards in the graveyard, exile and command zones keep an instance id so they can be moved again
+export interface ZoneCard extends MTGCard {
+  readonly instanceId: InstanceId
+}
+
 export interface BattlefieldCard extends MTGCard {
   readonly instanceId: InstanceId
   readonly position: Position
@@ -45,24 +50,101 @@ export interface BattlefieldCard extends MTGCard {
   readonly facedown?: boolean
   readonly zIndex: number
   readonly playerId: PlayerId
+  readonly counters?: Readonly<Record<string, number>> // e.g. { '+1/+1': 2, loyalty: 4 }
+  readonly isToken?: boolean
+  readonly attachedTo?: InstanceId // Aura/equipment host on the same battlefield
+}
+
+// Tokens are not backed by a deck card, so the player describes them directly
+export interface TokenDefinition {
+  readonly name: string
+  readonly typeLine?: string
+  readonly power?: string
+  readonly toughness?: string
+  readonly colors?: string[]
+  readonly imageUris?: MTGCard['imageUris']
 }
 
 export interface PlayerState {
   readonly id: PlayerId
   readonly username: string
+  readonly seatPosition: number // Turns go round the table in seat order
   readonly hand: readonly HandCard[]
   readonly library: readonly MTGCard[]
   readonly battlefield: readonly BattlefieldCard[]
+  readonly graveyard: readonly ZoneCard[]
+  readonly exile: readonly ZoneCard[]
+  readonly command: readonly ZoneCard[]
+  // Hand cards every player may see, until they leave the hand
+  readonly revealed: readonly InstanceId[]
+  readonly life: number
+  readonly poison: number
+  // Commander damage taken, keyed by the player whose commander dealt it
+  readonly commanderDamage: Readonly<Partial<Record<PlayerId, number>>>
+  readonly eliminated: boolean
+  readonly conceded?: boolean
+  // 1 for the first player knocked out, 2 for the next..., which gives everyone's final placement
+  readonly eliminationOrder?: number
   readonly isConnected: boolean
+  // Mulligans taken before the game, and whether the opening hand has been kept
+  readonly mulligans: number
+  readonly keptHand: boolean
+  // Between games of a match, whether the player has settled on their deck for the next one
+  readonly sideboarded?: boolean
+  // The library is still in the order its deck was loaded in, so the game can't start until it is shuffled
+  readonly unshuffled?: boolean
 }
 
+export type Zone = 
+  | 'hand'
+  | 'library'
+  | 'battlefield'
+  | 'graveyard'
+  | 'exile'
+  | 'command'
+
 export interface GameState {
   readonly id: GameId
+  readonly format: string
   readonly players: ReadonlyMap<PlayerId, PlayerState>
   readonly currentPlayer: PlayerId
   readonly phase: GamePhase
   readonly turn: number
   readonly status: GameStatus
+  readonly priorityPlayer: PlayerId
+  // Consecutive passes; once every player has passed, the game moves to the next step
+  readonly priorityPasses: number
+  readonly mulliganRules: MulliganRules
+  // Only set for rooms playing a best-of-N match rather than a single game
+  readonly match?: MatchState
+  // While the host has the game paused, the status it goes back to when they resume it
+  readonly pausedFrom?: GameStatus
+}
+
+export interface MatchState {
+  readonly bestOf: number
+  // 1 for the first game of the match, counting games that ended in a draw
+  readonly gameNumber: number
+  readonly wins: Readonly<Partial<Record<PlayerId, number>>>
+  // The loser of the previous game goes first in the next one
+  readonly startingPlayer?: PlayerId
+}
+
+// The cards a player may build their deck from: how many copies of each card id the registered deck
+// has in its mainboard and sideboard together, how big the mainboard is, and each card as stored
+export interface DeckList {
+  readonly mainboardSize: number
+  readonly copies: Readonly<Record<string, number>>
+  readonly cards: Readonly<Record<string, MTGCard>>
+}
+
+// London: draw seven, then put one card on the bottom per mulligan; Vancouver: draw one fewer per mulligan, then scry 1
+export type MulliganType = 'london' | 'vancouver'
+
+export interface MulliganRules {
+  readonly type: MulliganType
+  // Multiplayer Commander lets each player's first mulligan go without losing a card
+  readonly freeFirstMulligan: boolean
 }
 
 export type GamePhase = 
@@ -76,22 +158,68 @@ export type GamePhase =
 
 export type GameStatus = 
   | 'waiting'
+  | 'mulligan'
   | 'active'
   | 'paused'
+  | 'sideboarding' // Between games of a match
   | 'ended'
 
 // Game Actions - All possible state changes
 export type GameAction = 
+  // The server shuffles the deck as it is loaded, filling in order as for SHUFFLE_LIBRARY
+  | { type: 'LOAD_DECK', playerId: PlayerId, cards: readonly MTGCard[], order?: readonly number[] }
   | { type: 'DRAW_CARD', playerId: PlayerId }
   | { type: 'PLAY_CARD', playerId: PlayerId, cardId: InstanceId, position: Position }
   | { type: 'TAP_CARD', playerId: PlayerId, cardId: InstanceId, tapped: boolean }
   | { type: 'MOVE_CARD', playerId: PlayerId, cardId: InstanceId, position: Position }
   | { type: 'RETURN_TO_HAND', playerId: PlayerId, cardId: InstanceId }
-  | { type: 'SHUFFLE_LIBRARY', playerId: PlayerId }
+  // Library cards carry no instance id, so cardId is the card's id when moving out of the library
+  | { type: 'MOVE_TO_ZONE', playerId: PlayerId, cardId: InstanceId, from: Zone, to: Zone, position?: Position, toBottom?: boolean }
+  | { type: 'DESTROY_CARD', playerId: PlayerId, cardId: InstanceId }
+  | { type: 'EXILE_CARD', playerId: PlayerId, cardId: InstanceId, from: Zone }
+  // The server fills in order (new position k holds old card order[k]) from the game's committed seed
+  | { type: 'SHUFFLE_LIBRARY', playerId: PlayerId, order?: readonly number[] }
+  | { type: 'REVEAL_CARD', playerId: PlayerId, cardId: InstanceId }
+  | { type: 'REVEAL_HAND', playerId: PlayerId }
+  // Scry, surveil and "look at the top N": the listed cards must be exactly the top of the library,
+  // top in the order they stay in, bottom in the order they go under the library
+  | { type: 'ARRANGE_LIBRARY_TOP', playerId: PlayerId, top: readonly CardId[], bottom: readonly CardId[], graveyard: readonly CardId[] }
+  // Searching with no cardId is a search that found nothing
+  | { type: 'SEARCH_LIBRARY', playerId: PlayerId, cardId?: CardId, to?: Zone, position?: Position }
+  | { type: 'REVEAL_LIBRARY_TOP', playerId: PlayerId }
+  | { type: 'ADD_COUNTER', playerId: PlayerId, cardId: InstanceId, counter: string, amount: number }
+  | { type: 'CREATE_TOKEN', playerId: PlayerId, instanceId: InstanceId, token: TokenDefinition, position: Position }
+  | { type: 'ATTACH_CARD', playerId: PlayerId, cardId: InstanceId, targetId: InstanceId }
+  | { type: 'DETACH_CARD', playerId: PlayerId, cardId: InstanceId }
+  | { type: 'CHANGE_LIFE', playerId: PlayerId, amount: number }
+  | { type: 'CHANGE_POISON', playerId: PlayerId, amount: number }
+  | { type: 'COMMANDER_DAMAGE', playerId: PlayerId, sourcePlayerId: PlayerId, amount: number }
   | { type: 'PLAYER_JOINED', playerId: PlayerId, playerData: Omit<PlayerState, 'id'> }
   | { type: 'PLAYER_LEFT', playerId: PlayerId }
-  | { type: 'NEXT_PHASE' }
-  | { type: 'NEXT_TURN' }
+  | { type: 'START_GAME', playerId: PlayerId }
+  | { type: 'NEXT_PHASE', playerId: PlayerId }
+  | { type: 'NEXT_TURN', playerId: PlayerId }
+  | { type: 'PASS_PRIORITY', playerId: PlayerId }
+  // Shuffles the hand back into the library (the server fills in order, as for SHUFFLE_LIBRARY) and draws a new one
+  | { type: 'MULLIGAN', playerId: PlayerId, order?: readonly number[] }
+  // bottom lists the hand cards London puts on the bottom; scryToBottom is the Vancouver scry of the top card
+  | { type: 'KEEP_HAND', playerId: PlayerId, bottom: readonly InstanceId[], scryToBottom?: boolean }
+  | { type: 'CONCEDE', playerId: PlayerId }
+  // The player's deck for the next game of a match, after swapping cards with their sideboard (shuffled like LOAD_DECK)
+  | { type: 'SUBMIT_DECK', playerId: PlayerId, cards: readonly MTGCard[], order?: readonly number[] }
+  // Host controls, which the socket server only dispatches for the room's host (playerId)
+  | { type: 'KICK_PLAYER', playerId: PlayerId, targetId: PlayerId }
+  // Every player, in their new seat order
+  | { type: 'RESEAT_PLAYERS', playerId: PlayerId, order: readonly PlayerId[] }
+  | { type: 'PAUSE_GAME', playerId: PlayerId }
+  | { type: 'RESUME_GAME', playerId: PlayerId }
+  // Move the game past a player who is away: end their turn, or pass priority for them
+  | { type: 'SKIP_TURN', playerId: PlayerId, targetId: PlayerId }
+
+// GameState keeps players in a Map, which doesn't survive a round trip through JSON
+export type SerializedGameState = Omit<GameState, 'players'> & {
+  players: [PlayerId, PlayerState][]
+}
 
 // Game Events - What happened (for networking)
 export type GameEvent = GameAction & {
@@ -99,6 +227,13 @@ export type GameEvent = GameAction & {
   readonly eventId: string
 }
 
+// Accepted events as ordered by the server - seq increases by one per accepted action
+export type SequencedEvent = GameEvent & {
+  readonly seq: number
+  // Who sent the action, which for shared counter actions isn't playerId (missing from older logs)
+  readonly actorId?: PlayerId
+}
+
 // Results instead of exceptions
 export type GameResult<T> = 
   | { readonly success: true, readonly data: T }
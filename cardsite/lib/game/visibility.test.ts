@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import { projectPlayer, redactEvent } from './visibility'
+import { GameEngine } from './engine'
+import { BattlefieldCard, CardId, InstanceId, PlayerId, SequencedEvent } from './types'
+
+const alice = 'alice' as PlayerId
+const bob = 'bob' as PlayerId
+
+const sequenced = { seq: 1, timestamp: 0, eventId: 'game-1' }
+
+describe('projectPlayer', () => {
+  const onBattlefield = (id: string, facedown: boolean): BattlefieldCard => ({
+    id: id as CardId,
+    name: `Card ${id}`,
+    oracleText: 'As printed',
+    instanceId: `${id}-1` as InstanceId,
+    position: { x: 10, y: 20 },
+    tapped: true,
+    facedown,
+    zIndex: 1,
+    playerId: alice,
+    counters: { '+1/+1': 1 }
+  })
+  const player = {
+    ...GameEngine.createPlayerState('Alice', 'standard', 0),
+    id: alice,
+    battlefield: [onBattlefield('card0', false), onBattlefield('card1', true)]
+  }
+
+  it('shows a player their own facedown cards', () => {
+    expect(projectPlayer(player, alice).battlefield).toBe(player.battlefield)
+  })
+
+  it('shows everyone else only where a facedown card is', () => {
+    for (const viewer of [bob, undefined]) {
+      const [faceup, facedown] = projectPlayer(player, viewer).battlefield
+      expect(faceup).toBe(player.battlefield[0])
+      expect(facedown).toEqual({
+        id: '',
+        name: '',
+        instanceId: 'card1-1',
+        position: { x: 10, y: 20 },
+        tapped: true,
+        facedown: true,
+        zIndex: 1,
+        playerId: alice,
+        counters: { '+1/+1': 1 }
+      })
+    }
+  })
+})
+
+describe('redactEvent', () => {
+  const loaded: SequencedEvent = {
+    type: 'LOAD_DECK',
+    playerId: alice,
+    cards: [{ id: 'card0-1' as CardId, name: 'Card 0' }, { id: 'card1-1' as CardId, name: 'Card 1' }],
+    order: [1, 0],
+    ...sequenced
+  }
+
+  it('leaves a player their own events', () => {
+    expect(redactEvent(loaded, alice)).toBe(loaded)
+  })
+
+  it('hides the deck list and shuffle order from everyone else', () => {
+    for (const viewer of [bob, undefined]) {
+      expect(redactEvent(loaded, viewer)).toEqual({ ...loaded, cards: [], order: [] })
+    }
+  })
+
+  it('hides shuffle orders', () => {
+    const shuffled: SequencedEvent = { type: 'SHUFFLE_LIBRARY', playerId: alice, order: [1, 0], ...sequenced }
+    expect(redactEvent(shuffled, bob)).toEqual({ ...shuffled, order: [] })
+  })
+
+  it('names only the cards that end up in public', () => {
+    const arranged: SequencedEvent = {
+      type: 'ARRANGE_LIBRARY_TOP',
+      playerId: alice,
+      top: ['card0-1' as CardId],
+      bottom: ['card1-1' as CardId],
+      graveyard: ['card2-1' as CardId],
+      ...sequenced
+    }
+    expect(redactEvent(arranged, bob)).toEqual({ ...arranged, top: [''], bottom: [''] })
+
+    const tutored: SequencedEvent = { type: 'SEARCH_LIBRARY', playerId: alice, cardId: 'card0-1' as CardId, to: 'hand', ...sequenced }
+    expect(redactEvent(tutored, bob)).toEqual({ ...tutored, cardId: '' })
+
+    const played: SequencedEvent = { type: 'SEARCH_LIBRARY', playerId: alice, cardId: 'card0-1' as CardId, to: 'battlefield', ...sequenced }
+    expect(redactEvent(played, bob)).toBe(played)
+  })
+
+  it('leaves public events alone', () => {
+    const damage: SequencedEvent = { type: 'CHANGE_LIFE', playerId: alice, amount: -2, ...sequenced }
+    expect(redactEvent(damage, bob)).toBe(damage)
+  })
+})
@@ -0,0 +1,95 @@
+import { BattlefieldCard, CardId, GameState, PlayerId, PlayerState, HandCard, MTGCard, SequencedEvent, Zone } from './types'
+
+// Zones whose contents only their owner may see
+const HIDDEN_ZONES: readonly Zone[] = ['hand', 'library']
+
+// One player's zones as a given viewer is allowed to see them
+export interface PlayerView extends Omit<PlayerState, 'hand' | 'library'> {
+  readonly hand: readonly HandCard[]
+  readonly library: readonly MTGCard[]
+  readonly handCount: number
+  readonly libraryCount: number
+}
+
+export function canSeeHiddenZones(viewerId: string | undefined, playerId: string): boolean {
+  return viewerId === playerId
+}
+
+// Owners see their whole hand, everyone else only the cards that have been revealed
+export function getVisibleHand(player: PlayerState, viewerId: string | undefined): readonly HandCard[] {
+  if (canSeeHiddenZones(viewerId, player.id)) {
+    return player.hand
+  }
+  return player.hand.filter(card => player.revealed.includes(card.instanceId))
+}
+
+// Everyone can see where a facedown card (a morph, a manifest) is and what is on it, only its owner what it is
+function hideFacedown(card: BattlefieldCard): BattlefieldCard {
+  const { instanceId, position, tapped, facedown, zIndex, playerId, counters, isToken, attachedTo } = card
+  return { id: '' as CardId, name: '', instanceId, position, tapped, facedown, zIndex, playerId, counters, isToken, attachedTo }
+}
+
+export function projectPlayer(player: PlayerState, viewerId: string | undefined): PlayerView {
+  const owner = canSeeHiddenZones(viewerId, player.id)
+  return {
+    ...player,
+    hand: getVisibleHand(player, viewerId),
+    battlefield: owner ? player.battlefield : player.battlefield.map(card => card.facedown ? hideFacedown(card) : card),
+    library: owner ? player.library : [],
+    handCount: player.hand.length,
+    libraryCount: player.library.length
+  }
+}
+
+// The whole game as one viewer may see it (spectators pass no viewer id and get only public information)
+export function projectState(state: GameState, viewerId: string | undefined): Omit<GameState, 'players'> & { players: ReadonlyMap<PlayerId, PlayerView> } {
+  const players = new Map<PlayerId, PlayerView>()
+  for (const [playerId, player] of state.players) {
+    players.set(playerId, projectPlayer(player, viewerId))
+  }
+  return { ...state, players }
+}
+
+// Strip anything an event would give away about another player's hand or library
+export function redactEvent(event: SequencedEvent, viewerId: string | undefined): SequencedEvent {
+  if (!('playerId' in event) || canSeeHiddenZones(viewerId, event.playerId)) {
+    return event
+  }
+
+  switch (event.type) {
+    // With the list, the shuffle would give away the whole library
+    case 'LOAD_DECK':
+    case 'SUBMIT_DECK':
+      return { ...event, cards: [], order: [] }
+
+    case 'SHUFFLE_LIBRARY':
+    case 'MULLIGAN':
+      return { ...event, order: [] }
+
+    // How many cards went to the bottom is public, which ones is not
+    case 'KEEP_HAND':
+      return { ...event, bottom: event.bottom.map(() => '' as typeof event.bottom[number]) }
+
+    // Card ids name the card, so a move that never touches a public zone must not carry one
+    case 'MOVE_TO_ZONE':
+      return HIDDEN_ZONES.includes(event.from) && HIDDEN_ZONES.includes(event.to)
+        ? { ...event, cardId: '' as typeof event.cardId }
+        : event
+
+    // How many cards went to the top and bottom is public; only the milled ones are named
+    case 'ARRANGE_LIBRARY_TOP':
+      return {
+        ...event,
+        top: event.top.map(() => '' as typeof event.top[number]),
+        bottom: event.bottom.map(() => '' as typeof event.bottom[number])
+      }
+
+    case 'SEARCH_LIBRARY':
+      return event.cardId && HIDDEN_ZONES.includes(event.to ?? 'hand')
+        ? { ...event, cardId: '' as typeof event.cardId }
+        : event
+
+    default:
+      return event
+  }
+}
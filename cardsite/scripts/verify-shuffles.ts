@@ -0,0 +1,43 @@
+#!/usr/bin/env tsx
+
+import { readFileSync } from 'fs';
+import { verifyShuffles, type ShuffleRecord } from '../lib/game/shuffle';
+
+interface ShuffleProof {
+  gameId: string;
+  commitment: string;
+  revealed: boolean;
+  seed?: string;
+  shuffles?: ShuffleRecord[];
+}
+
+/**
+ * Independently check a finished game's shuffles, using the JSON from
+ * GET /api/games/rooms/[id]/shuffles (save it to a file first)
+ */
+function main() {
+  const proofPath = process.argv[2];
+  if (!proofPath) {
+    console.log('Usage: tsx scripts/verify-shuffles.ts <shuffle-proof.json>');
+    process.exit(1);
+  }
+
+  const proof = JSON.parse(readFileSync(proofPath, 'utf8')) as ShuffleProof;
+  if (!proof.revealed || !proof.seed) {
+    console.log(`⏳ Game ${proof.gameId} is still running - its seed (commitment ${proof.commitment}) has not been revealed yet`);
+    process.exit(1);
+  }
+
+  const result = verifyShuffles(proof.seed, proof.commitment, proof.shuffles ?? []);
+  if (!result.success) {
+    console.error(`❌ ${result.error.code}: ${result.error.message}`);
+    process.exit(1);
+  }
+
+  console.log(`✅ Game ${proof.gameId}: seed matches commitment and all ${proof.shuffles?.length ?? 0} shuffles check out`);
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
@@ -10,9 +10,33 @@ const port = process.env.PORT || 3010;
 const app = next({ dev, hostname, port });
 const handle = app.getRequestHandler();
 
-// Game state storage (in production, this would be Redis or database)
-const gameStates = new Map();
-const playerGameStates = new Map();
+// Load the TypeScript game engine (pure reducer) so the server can own game state
+const tsx = require('tsx/cjs/api');
+const { GameAuthority, toGameAction } = tsx.require('./lib/game/authority.ts', __filename);
+const { GameEngine } = tsx.require('./lib/game/engine.ts', __filename);
+const { gameStore, SNAPSHOT_INTERVAL } = tsx.require('./lib/game/store.ts', __filename);
+const { getVisibleHand, projectState, redactEvent } = tsx.require('./lib/game/visibility.ts', __filename);
+const { createShuffleSeed, commitToSeed } = tsx.require('./lib/game/shuffle.ts', __filename);
+const { describeEvent } = tsx.require('./lib/game/replay.ts', __filename);
+const { authenticateHandshake } = tsx.require('./lib/game/socket-auth.ts', __filename);
+const { parseSocketEvent, SOCKET_RATE_LIMITS, TokenBucket } = tsx.require('./lib/game/socket-events.ts', __filename);
+const { pubsub } = tsx.require('./lib/cache/pubsub.ts', __filename);
+const { NODE_ID, LEASE_RENEW_INTERVAL, createPubSubAdapter, gameLeases } = tsx.require('./lib/game/cluster.ts', __filename);
+const { matchmaker, getPodSize } = tsx.require('./lib/game/matchmaking.ts', __filename);
+const { LOBBY_CHANNEL, announceRooms, syncPlayerCount } = tsx.require('./lib/game/lobby.ts', __filename);
+const { PresenceMonitor, HEARTBEAT_INTERVAL } = tsx.require('./lib/game/presence.ts', __filename);
+
+// Authoritative game state, backed by the event log in Postgres so evicted games can be resumed
+const gameAuthority = new GameAuthority();
+
+// Games currently being rebuilt from storage, so concurrent joins share one load
+const loadingGames = new Map();
+
+// Undo requests waiting on the other players' approval, at most one per game
+const pendingUndos = new Map();
+
+// Heartbeats and turn clocks of the players in the games this process runs
+const presenceMonitor = new PresenceMonitor();
 
 // Process-level error handlers (for debugging only - root causes are fixed)
 process.on('uncaughtException', (error) => {
@@ -35,45 +59,37 @@ const CLEANUP_INTERVALS = {
 
 const MAX_AGES = {
   GAME_STATE: 2 * 60 * 60 * 1000, // 2 hours (reduced from 24)
-  PLAYER_STATE: 1 * 60 * 60 * 1000, // 1 hour
-  INACTIVE_STATE: 30 * 60 * 1000, // 30 minutes for completely inactive
 };
 
 // More aggressive cleanup for development stability
 const cleanupInterval = setInterval(() => {
-  const now = Date.now();
-  let cleanedGames = 0;
-  let cleanedPlayers = 0;
+  const cleanedGames = gameAuthority.cleanup(MAX_AGES.GAME_STATE);
   
-  // Clean up old game states
-  for (const [gameId, gameState] of gameStates.entries()) {
-    const age = now - gameState.lastUpdated;
-    const maxAge = gameState.participants.length === 0 ? MAX_AGES.INACTIVE_STATE : MAX_AGES.GAME_STATE;
-    
-    if (age > maxAge) {
-      gameStates.delete(gameId);
-      cleanedGames++;
-    }
-  }
-  
-  // Clean up old player states
-  for (const [playerKey, playerState] of playerGameStates.entries()) {
-    const age = now - playerState.lastUpdated;
-    const maxAge = playerState.battlefieldCards.length === 0 && playerState.handCards.length === 0 
-      ? MAX_AGES.INACTIVE_STATE 
-      : MAX_AGES.PLAYER_STATE;
-    
-    if (age > maxAge) {
-      playerGameStates.delete(playerKey);
-      cleanedPlayers++;
-    }
-  }
-  
-  if (cleanedGames > 0 || cleanedPlayers > 0) {
-    console.log(`🧹 Cleanup: ${cleanedGames} games, ${cleanedPlayers} player states | Active: ${gameStates.size} games, ${playerGameStates.size} players`);
+  if (cleanedGames > 0) {
+    console.log(`🧹 Cleanup: ${cleanedGames} games | Active: ${gameAuthority.size} games`);
   }
 }, CLEANUP_INTERVALS.GAME_STATE_CLEANUP);
 
+// Forget a game this process stops running (its log and snapshots stay in storage)
+function dropGame(gameId) {
+  gameAuthority.removeGame(gameId);
+  presenceMonitor.forget(gameId);
+  const pending = pendingUndos.get(gameId);
+  if (pending) {
+    clearTimeout(pending.timer);
+    pendingUndos.delete(gameId);
+  }
+}
+
+// Keep the leases on the games this process runs; a game whose lease was taken over is dropped from memory
+const leaseRenewal = setInterval(async () => {
+  const lostGames = await gameLeases.renew(gameAuthority.gameIds);
+  lostGames.forEach((gameId) => {
+    console.warn(`⚠️ Lost the lease on game ${gameId}, dropping it from this process`);
+    dropGame(gameId);
+  });
+}, LEASE_RENEW_INTERVAL);
+
 // Memory monitoring and alerts
 const memoryMonitor = setInterval(() => {
   const usage = process.memoryUsage();
@@ -82,13 +98,15 @@ const memoryMonitor = setInterval(() => {
   
   // Alert if memory usage is high
   if (heapUsedMB > 200) { // Alert at 200MB in development
-    console.warn(`⚠️ High memory usage: ${heapUsedMB}MB / ${heapTotalMB}MB | Games: ${gameStates.size} | Players: ${playerGameStates.size}`);
+    console.warn(`⚠️ High memory usage: ${heapUsedMB}MB / ${heapTotalMB}MB | Games: ${gameAuthority.size}`);
     
     // Force aggressive cleanup if memory is critically high
     if (heapUsedMB > 300) {
       console.warn('🚨 Critical memory usage - forcing cleanup');
-      gameStates.clear();
-      playerGameStates.clear();
+      // Every game can be resumed from storage, by whichever process its next event reaches
+      const gameIds = gameAuthority.gameIds;
+      gameIds.forEach(dropGame);
+      gameLeases.release(gameIds).catch((error) => console.error('❌ Error releasing game leases:', error));
       if (global.gc) {
         global.gc();
       }
@@ -96,13 +114,17 @@ const memoryMonitor = setInterval(() => {
   }
 }, CLEANUP_INTERVALS.MEMORY_CHECK);
 
+// Started once Next.js is ready, see the presence sweep below
+let presenceSweep = null;
+
 // Graceful cleanup on shutdown
 process.on('SIGINT', () => {
   console.log('\n🔄 Shutting down server...');
   clearInterval(cleanupInterval);
   clearInterval(memoryMonitor);
-  gameStates.clear();
-  playerGameStates.clear();
+  clearInterval(leaseRenewal);
+  clearInterval(presenceSweep);
+  gameAuthority.clear();
   process.exit(0);
 });
 
@@ -110,25 +132,41 @@ process.on('SIGTERM', () => {
   console.log('\n🔄 Shutting down server...');
   clearInterval(cleanupInterval);
   clearInterval(memoryMonitor);
-  gameStates.clear();
-  playerGameStates.clear();
+  clearInterval(leaseRenewal);
+  clearInterval(presenceSweep);
+  gameAuthority.clear();
   process.exit(0);
 });
 
-function getPlayerStateKey(gameId, playerId) {
-  return `${gameId}:${playerId}`;
-}
+// Actions whose result changes what a player holds in hand or library
+const HAND_ACTIONS = new Set(['DRAW_CARD', 'PLAY_CARD', 'RETURN_TO_HAND', 'MOVE_TO_ZONE', 'REVEAL_CARD', 'REVEAL_HAND']);
+const REVEAL_EVENTS = new Set(['card-revealed', 'hand-revealed']);
+const TURN_ACTIONS = new Set([
+  'START_GAME', 'NEXT_PHASE', 'NEXT_TURN', 'PASS_PRIORITY', 'MULLIGAN', 'KEEP_HAND', 'CONCEDE', 'SUBMIT_DECK',
+  'KICK_PLAYER', 'RESEAT_PLAYERS', 'PAUSE_GAME', 'RESUME_GAME'
+]);
+const COUNTER_ACTIONS = new Set(['CHANGE_LIFE', 'CHANGE_POISON', 'COMMANDER_DAMAGE']);
+// Scrying, surveilling and searching rearrange a library, and can put cards into other zones too
+const LIBRARY_ACTIONS = new Set(['ARRANGE_LIBRARY_TOP', 'SEARCH_LIBRARY']);
 
-function getPlayerGameState(gameId, playerId) {
-  const playerStateKey = getPlayerStateKey(gameId, playerId);
-  return playerGameStates.get(playerStateKey) || {
-    battlefieldCards: [],
-    handCards: [], // Store actual hand cards, not just count
-    handCount: 0, // Keep count for backward compatibility
-    libraryCards: [], // Store actual library cards
-    libraryCount: 60,
-    lastUpdated: Date.now()
-  };
+// How long the other players have to answer an undo request before it lapses
+const UNDO_REQUEST_TIMEOUT = 60 * 1000;
+
+// How long a spectator's seat is kept after their connection drops, so a flaky connection can rejoin
+const SPECTATOR_RECONNECT_GRACE = 30 * 1000;
+
+// How long an event relayed to the process running its game may take before the sender stops waiting
+const RELAY_TIMEOUT = 10 * 1000;
+
+// The Socket.IO room for everyone looking at the lobby's room list
+const LOBBY_ROOM = 'lobby';
+
+// Events handled by the process holding the socket, whichever process runs the game
+const LOCAL_EVENTS = new Set(['disconnect']);
+
+// A player's board as the viewer may see it: other players' hands and libraries come back as counts only
+function getPlayerGameState(gameId, playerId, viewerId) {
+  return gameAuthority.getPlayerSnapshot(gameId, playerId, viewerId);
 }
 
 app.prepare().then(() => {
@@ -149,49 +187,546 @@ app.prepare().then(() => {
       origin: dev ? '*' : process.env.NEXTAUTH_URL,
       methods: ['GET', 'POST']
     },
-    path: '/socket.io'
+    path: '/socket.io',
+    // Rooms, broadcasts and fetchSockets reach the sockets connected to every other process
+    adapter: createPubSubAdapter(pubsub)
   });
 
-  io.on('connection', (socket) => {
-    console.log('🔌 Player connected:', socket.id);
+  // Spectators get the public projection, so they never count as the owner of any hand
+  function viewerIdOf(socket) {
+    return socket.data.spectator ? undefined : socket.data.userId;
+  }
+
+  // Each player's sockets share a room (as do all spectators), wherever they are connected,
+  // so hidden information can be sent per viewer with ordinary room broadcasts
+  function viewerRoom(gameId, viewerId) {
+    return viewerId ? `${gameId}#player#${viewerId}` : `${gameId}#spectators`;
+  }
+
+  // Every socket a user has open, in the lobby or in a game, so they can be reached wherever they are connected
+  function userRoom(userId) {
+    return `user#${userId}`;
+  }
+
+  // Lobby sockets waiting for a pod in a format, who hear how many players are waiting
+  function queueRoom(format) {
+    return `matchmaking#${format}`;
+  }
+
+  // The authoritative board as a viewer sees it: every battlefield, their own hand and library, and the current seq
+  function buildGameState(gameId, viewerId) {
+    const state = gameAuthority.getState(gameId);
+    const ownState = getPlayerGameState(gameId, viewerId, viewerId);
+    return {
+      battlefieldCards: [...state.players.values()].flatMap(player => player.battlefield),
+      participants: [...state.players.keys()],
+      playerCounters: gameAuthority.getPlayerCounters(gameId),
+      turnState: GameAuthority.toTurnState(state),
+      turnClock: presenceMonitor.getClock(gameId, Date.now()),
+      presence: presenceMonitor.getPresence(gameId, Date.now()),
+      handCards: ownState.handCards,
+      libraryCards: ownState.libraryCards,
+      revealedCardIds: state.players.get(viewerId)?.revealed ?? [],
+      shuffleCommitment: gameAuthority.getShuffleCommitment(gameId),
+      seq: gameAuthority.getSeq(gameId)
+    };
+  }
+
+  function sendGameState(socket, gameId) {
+    if (!gameAuthority.getState(gameId)) return;
+    socket.emit('game-state', buildGameState(gameId, viewerIdOf(socket)));
+  }
+
+  // Emit a payload built separately for each viewer of the game, for anything that touches hidden information
+  function emitToEachViewer(gameId, eventName, buildPayload) {
+    const state = gameAuthority.getState(gameId);
+    if (!state) return;
+    
+    for (const playerId of state.players.keys()) {
+      io.to(viewerRoom(gameId, playerId)).emit(eventName, buildPayload(playerId));
+    }
+    io.to(viewerRoom(gameId)).emit(eventName, buildPayload(undefined));
+  }
+
+  // Every socket in the game, on any process (these can emit, join and leave but not listen)
+  async function forEachViewer(gameId, callback) {
+    const viewers = await io.in(gameId).fetchSockets();
+    viewers.forEach(callback);
+  }
+
+  // Tell everyone how many cards a player holds, with the cards only going to viewers allowed to see them
+  function emitHandState(gameId, player, seq) {
+    emitToEachViewer(gameId, 'hand-state-changed', (viewerId) => ({
+      playerId: player.id,
+      handCards: getVisibleHand(player, viewerId), // Opponents only get revealed cards
+      handCount: player.hand.length,
+      libraryCount: player.library.length,
+      seq
+    }));
+  }
+
+  function rejectAction(socket, gameId, eventName, error) {
+    console.warn(`🚫 Rejected ${eventName} from ${socket.data.userId || socket.id} in game ${gameId}: ${error.code}`);
+    socket.emit('action-rejected', { event: eventName, code: error.code, message: error.message });
+    
+    // Snap the sender back to the server's view of the game
+    if (gameId) {
+      sendGameState(socket, gameId);
+    }
+  }
+
+  // Decks are built from the one the player registered for the room: only which cards the client picked is
+  // taken from it, never what they are. Resolves to the cards, or null once the action has been rejected
+  async function buildDeck(socket, gameId, eventName, cards) {
+    if (!Array.isArray(cards) || !cards.every((card) => card && typeof card.id === 'string')) {
+      rejectAction(socket, gameId, eventName, { code: 'INVALID_ACTION', message: `Malformed ${eventName} payload` });
+      return null;
+    }
+    
+    const deckList = await gameStore.loadDeckList(gameId, socket.data.userId);
+    const built = GameEngine.buildDeck(deckList, cards.map((card) => card.id));
+    if (built.success) return built.data;
+    rejectAction(socket, gameId, eventName, built.error);
+    return null;
+  }
+
+  // Host controls are checked against the room itself, never against anything the client says
+  async function checkHost(socket, gameId, eventName, message) {
+    const room = await gameStore.loadRoom(gameId);
+    if (room && room.hostId === socket.data.userId && !socket.data.spectator) return true;
+    rejectAction(socket, gameId, eventName, { code: 'NOT_HOST', message });
+    return false;
+  }
+
+  // Run an action through the engine; only accepted actions are committed, given a sequence number and persisted.
+  // asHost lets the host controls through, once checkHost has passed
+  function applyAction(socket, gameId, eventName, action, asHost = false) {
+    if (socket.data.spectator) {
+      rejectAction(socket, gameId, eventName, { code: 'SPECTATOR_READ_ONLY', message: 'Spectators cannot take game actions' });
+      return null;
+    }
+    
+    const before = gameAuthority.getState(gameId);
+    const result = gameAuthority.dispatch(gameId, action, socket.data.userId, asHost);
+    if (!result.success) {
+      rejectAction(socket, gameId, eventName, result.error);
+      return null;
+    }
+    
+    const { state, event } = result.data;
+    observeGame(gameId, state);
+    gameStore.appendEvent(gameId, event);
+    if (event.seq % SNAPSHOT_INTERVAL === 0) {
+      gameStore.saveSnapshot(gameId, event.seq, state);
+    }
+    postMessage(gameId, {
+      kind: 'log',
+      userId: socket.data.userId,
+      username: socket.data.username,
+      seq: event.seq,
+      body: describeEvent(event, before, true)
+    });
+    // A game is over when it ends for good, or when a match moves on to sideboarding for its next game
+    // (a kick can end a paused game, or a match between its games)
+    const inPlay = (status) => status === 'active' || status === 'mulligan' || status === 'paused';
+    if (inPlay(before.status) && (state.status === 'ended' || state.status === 'sideboarding')) {
+      finishGame(gameId, state, event.seq);
+    } else if (before.status === 'sideboarding' && state.status === 'ended') {
+      finishGame(gameId, state, event.seq, true);
+    }
+    return result.data;
+  }
+
+  // Record the result once at most one player is left, and tell everyone in the game how it finished
+  // (and, in a match, where the match stands). A match forfeited between games has no new game to record,
+  // but the room still closes
+  function finishGame(gameId, state, seq, forfeited = false) {
+    // The room only closes when the whole match is over. Recording goes through the game's write queue,
+    // which reports its own failures; announcing the closed room can still fail here
+    gameStore.recordResults(gameId, state)
+      .then(() => {
+        if (state.status === 'ended') return announceRooms([gameId]);
+      })
+      .catch((error) => console.error(`❌ Error closing game ${gameId}:`, error));
+    if (pendingUndos.has(gameId)) {
+      closeUndoRequest(gameId, false, 'The game is over');
+    }
+    
+    const results = GameEngine.getPlacements(state).map(({ playerId, placement, conceded }) => ({
+      playerId,
+      username: state.players.get(playerId).username,
+      placement,
+      conceded
+    }));
+    const winner = results.find((result) => result.placement === 1);
+    console.log(`🏆 Game ${gameId} finished after ${state.turn} turns:`, { winner: winner?.playerId ?? null, match: state.match ?? null });
+    
+    let body = winner ? `${winner.username} won the game` : 'The game ended in a draw';
+    if (state.match) {
+      const score = results.map((result) => state.match.wins[result.playerId] ?? 0).join('-');
+      body = winner ? `${winner.username} won game ${state.match.gameNumber}` : `Game ${state.match.gameNumber} ended in a draw`;
+      body += state.status === 'ended' ? `, winning the match ${score}` : ` (${score}); sideboarding for the next game`;
+      if (forfeited) {
+        body = `${winner.username} won the match by forfeit (${score})`;
+      }
+    }
+    postMessage(gameId, {
+      kind: 'log',
+      userId: winner?.playerId ?? null,
+      username: winner?.username ?? null,
+      seq,
+      body
+    });
+    io.to(gameId).emit('game-ended', { results, turns: state.turn, match: state.match ?? null, matchOver: state.status === 'ended', seq });
+  }
+
+  // Chat and game log lines go to everyone in the game and are kept with it
+  function postMessage(gameId, message) {
+    io.to(gameId).emit('game-message', gameStore.appendMessage(gameId, message));
+  }
+
+  // Keep the seats being watched and the turn clock in step with the game, telling everyone when the clock changes
+  function observeGame(gameId, state) {
+    if (presenceMonitor.observe(gameId, state, Date.now())) {
+      io.to(gameId).emit('turn-clock-changed', { clock: presenceMonitor.getClock(gameId, Date.now()) });
+    }
+  }
+
+  // Who is away from the table, and who has been away long enough for the host to skip or remove them
+  function emitPresence(gameId) {
+    io.to(gameId).emit('presence-changed', { presence: presenceMonitor.getPresence(gameId, Date.now()) });
+  }
+
+  // Write a player's connection to their seat in the room, and log it for the table
+  function markSeat(gameId, playerId, connected) {
+    const state = gameAuthority.getState(gameId);
+    const status = !connected ? 'disconnected' : state?.status === 'waiting' ? 'joined' : 'playing';
+    gameStore.setParticipantStatus(gameId, playerId, status)
+      .catch((error) => console.error('❌ Error marking seat:', error));
+    
+    const username = state?.players.get(playerId)?.username ?? null;
+    postMessage(gameId, {
+      kind: 'log',
+      userId: playerId,
+      username,
+      seq: null,
+      body: `${username ?? 'A player'} ${connected ? 'is back' : 'lost connection'}`
+    });
+  }
+
+  // Resume a game from storage if it isn't in memory, or start a new one
+  function loadGame(gameId, format) {
+    const existing = gameAuthority.getState(gameId);
+    if (existing) return Promise.resolve(existing);
+    
+    if (!loadingGames.has(gameId)) {
+      const loading = (async () => {
+        const stored = await gameStore.loadGame(gameId);
+        if (!stored.success) {
+          throw new Error(stored.error.message);
+        }
+        
+        const room = await gameStore.loadRoom(gameId);
+        if (stored.data) {
+          gameAuthority.restoreGame(gameId, stored.data.state, stored.data.seq, stored.data.baseState, stored.data.events);
+          console.log(`💾 Restored game ${gameId} at seq ${stored.data.seq}`);
+        } else {
+          // Snapshot the empty game so the format, mulligan rules and match length survive a restart
+          const state = gameAuthority.getOrCreateGame(
+            gameId,
+            format,
+            GameEngine.getMulliganRules(format, room?.settings),
+            GameEngine.getBestOf(room?.settings)
+          );
+          gameStore.saveSnapshot(gameId, 0, state);
+        }
+        
+        // Commit to the game's shuffle seed before any card is shuffled
+        let shuffleSeed = await gameStore.loadShuffleSeed(gameId);
+        if (!shuffleSeed) {
+          const seed = createShuffleSeed();
+          shuffleSeed = { seed, commitment: commitToSeed(seed) };
+          gameStore.saveShuffleSeed(gameId, shuffleSeed.seed, shuffleSeed.commitment);
+        }
+        gameAuthority.setShuffleSeed(gameId, shuffleSeed.seed, shuffleSeed.commitment);
+        
+        // Everyone counts as present until their heartbeats say otherwise, and a turn in progress gets a fresh clock
+        presenceMonitor.track(gameId, room?.settings?.turnTimeLimit);
+        presenceMonitor.observe(gameId, gameAuthority.getState(gameId), Date.now());
+        
+        return gameAuthority.getState(gameId);
+      })().finally(() => loadingGames.delete(gameId));
+      
+      loadingGames.set(gameId, loading);
+    }
+    return loadingGames.get(gameId);
+  }
+
+  // Who is watching a game right now, for the host's spectator list
+  async function emitSpectators(gameId) {
+    const spectators = new Map();
+    await forEachViewer(gameId, (viewer) => {
+      if (viewer.data.spectator) {
+        spectators.set(viewer.data.userId, { userId: viewer.data.userId, username: viewer.data.username });
+      }
+    });
+    io.to(gameId).emit('spectators-changed', { spectators: [...spectators.values()] });
+  }
+
+  // After an undo or rewind any board may have changed, so everyone gets the whole game again
+  function resyncGame(gameId) {
+    const state = gameAuthority.getState(gameId);
+    const seq = gameAuthority.getSeq(gameId);
+    observeGame(gameId, state);
+    emitToEachViewer(gameId, 'game-state', (viewerId) => buildGameState(gameId, viewerId));
+    state.players.forEach((player) => emitHandState(gameId, player, seq));
+  }
 
-    // Handle joining a game room
-    socket.on('join-game', (data) => {
+  // An action storage never got would vanish on the next restart, so the game stops taking actions
+  // and goes back to what is stored, and everyone is brought back in line with it
+  gameStore.onWriteFailed = (gameId) => {
+    const state = gameAuthority.getState(gameId);
+    if (!state) return;
+    
+    console.warn(`⚠️ Reloading game ${gameId} from storage after a failed write`);
+    const seq = gameAuthority.getSeq(gameId);
+    dropGame(gameId);
+    loadGame(gameId, state.format)
+      .then(() => {
+        gameAuthority.skipTo(gameId, seq);
+        resyncGame(gameId);
+        postMessage(gameId, {
+          kind: 'log',
+          userId: null,
+          username: null,
+          seq: null,
+          body: 'The last actions could not be saved, so the game went back to where it was last saved'
+        });
+      })
+      .catch((error) => console.error(`❌ Error reloading game ${gameId}:`, error));
+  };
+
+  // Take events back out of the game by replaying the rest of the log without them
+  function rewindGame(gameId, seqs) {
+    const result = gameAuthority.rewind(gameId, seqs);
+    if (result.success) {
+      gameStore.undoEvents(gameId, seqs);
+      resyncGame(gameId);
+    }
+    return result;
+  }
+
+  function emitUndoRequest(gameId) {
+    const { requestId, playerId, seq, description, waitingOn } = pendingUndos.get(gameId);
+    io.to(gameId).emit('undo-requested', { requestId, playerId, seq, description, waitingOn: [...waitingOn] });
+  }
+
+  function closeUndoRequest(gameId, approved, message) {
+    const pending = pendingUndos.get(gameId);
+    if (!pending) return;
+    
+    clearTimeout(pending.timer);
+    pendingUndos.delete(gameId);
+    io.to(gameId).emit('undo-resolved', { requestId: pending.requestId, approved, message });
+  }
+
+  // Everyone agreed, so replay the game without the action (which fails if a later action depended on it)
+  function completeUndo(gameId) {
+    const pending = pendingUndos.get(gameId);
+    const result = rewindGame(gameId, [pending.seq]);
+    closeUndoRequest(gameId, result.success, result.success ? `Undone: ${pending.description}` : result.error.message);
+    if (result.success) {
+      const username = gameAuthority.getState(gameId).players.get(pending.playerId)?.username ?? null;
+      postMessage(gameId, { kind: 'log', userId: pending.playerId, username, seq: null, body: `Undone: ${pending.description}` });
+    }
+  }
+
+  // Payloads name a player, but apart from the counters anyone can change, the socket's own user is the one acting
+  function asSocketUser(socket, action) {
+    if (!('playerId' in action) || COUNTER_ACTIONS.has(action.type)) return action;
+    return { ...action, playerId: socket.data.userId };
+  }
+
+  // Handle a playmat event: validate it, then broadcast it to everyone (sender included) with its seq.
+  // Returns the accepted action, or null if it was rejected
+  function applyPlaymatEvent(socket, eventName, data, asHost = false) {
+    const gameId = data && data.gameId;
+    const parsed = data ? toGameAction(eventName, data) : null;
+    const action = parsed && asSocketUser(socket, parsed);
+    if (!action) {
+      rejectAction(socket, gameId, eventName, { code: 'INVALID_ACTION', message: `Malformed ${eventName} payload` });
+      return null;
+    }
+    
+    const before = gameAuthority.getState(gameId);
+    const accepted = applyAction(socket, gameId, eventName, action, asHost);
+    if (!accepted) return null;
+    
+    const { event } = accepted;
+    
+    if (TURN_ACTIONS.has(action.type)) {
+      const after = accepted.state;
+      io.to(gameId).emit('turn-state-changed', { ...GameAuthority.toTurnState(after), seq: event.seq });
+      
+      // Dealing, mulligans, untapping and the draw step all change players' cards,
+      // so everyone gets a fresh view of the board when any of them happens
+      const changedPlayers = [...after.players.values()].filter((player) => {
+        const previous = before.players.get(player.id);
+        return !previous || previous.hand !== player.hand || previous.library !== player.library || previous.battlefield !== player.battlefield;
+      });
+      // A concession or kick changes nobody's cards, but everyone's counters show the player is out
+      if (changedPlayers.length > 0 || action.type === 'CONCEDE' || action.type === 'KICK_PLAYER') {
+        emitToEachViewer(gameId, 'game-state', (viewerId) => buildGameState(gameId, viewerId));
+        changedPlayers.forEach((player) => emitHandState(gameId, player, event.seq));
+      }
+      return accepted;
+    }
+    
+    if (COUNTER_ACTIONS.has(action.type)) {
+      const player = accepted.state.players.get(action.playerId);
+      io.to(gameId).emit('player-counters-changed', {
+        playerId: action.playerId,
+        counters: GameAuthority.toCounters(player),
+        seq: event.seq
+      });
+      return accepted;
+    }
+    
+    // Decks are shuffled by the server as they are loaded, so a new library goes out just like a shuffled one
+    if (action.type === 'SHUFFLE_LIBRARY' || action.type === 'LOAD_DECK') {
+      // Only the owner learns the new order; everyone else just sees that a shuffle happened
+      emitToEachViewer(gameId, 'library-shuffled', (viewerId) => {
+        const playerState = getPlayerGameState(gameId, action.playerId, viewerId);
+        return {
+          playerId: action.playerId,
+          libraryCards: playerState.libraryCards,
+          libraryCount: playerState.libraryCount,
+          seq: event.seq
+        };
+      });
+      return accepted;
+    }
+    
+    if (LIBRARY_ACTIONS.has(action.type)) {
+      // Payloads name the cards that were looked at, so nobody gets them back - just their own view of the new board
+      emitToEachViewer(gameId, 'game-state', (viewerId) => buildGameState(gameId, viewerId));
+      emitHandState(gameId, accepted.state.players.get(action.playerId), event.seq);
+      return accepted;
+    }
+    
+    if (action.type === 'REVEAL_LIBRARY_TOP') {
+      const [topCard] = accepted.state.players.get(action.playerId).library;
+      io.to(gameId).emit('cards-revealed', {
+        playerId: action.playerId,
+        cards: [{ ...topCard, instanceId: `library-${topCard.id}` }],
+        from: 'library',
+        seq: event.seq
+      });
+      return accepted;
+    }
+    
+    if (REVEAL_EVENTS.has(eventName)) {
+      // Revealed cards are public, so everyone gets the card details
+      const player = accepted.state.players.get(action.playerId);
+      const cards = action.type === 'REVEAL_CARD'
+        ? player.hand.filter(card => card.instanceId === action.cardId)
+        : player.hand;
+      io.to(gameId).emit('cards-revealed', { playerId: action.playerId, cards, from: 'hand', seq: event.seq });
+    } else if (eventName !== 'card-drawn') {
+      // Draws only show up as hand changes
+      io.to(gameId).emit(eventName, { ...data, playerId: action.playerId, seq: event.seq });
+    }
+    
+    if (HAND_ACTIONS.has(action.type)) {
+      emitHandState(gameId, accepted.state.players.get(action.playerId), event.seq);
+    }
+    
+    return accepted;
+  }
+
+  // Every game event handler for a socket. `on` decides where each one runs: on the socket's own process,
+  // or on the process running the socket's game
+  function registerGameHandlers(socket, on) {
+    // Handle joining a game room. Reconnecting clients send the last seq they applied and get no state here:
+    // they flush their offline queue once acknowledged, then ask for what they missed
+    on('join-game', async (data, ack) => {
       try {
-        const { gameId, userId, username } = data;
+        const { gameId, format, spectator, lastSeq } = data || {};
+        const reconnecting = typeof lastSeq === 'number';
         
-        if (!gameId || !userId || !username) {
+        if (!gameId) {
           console.error('❌ Invalid join-game data:', data);
           socket.emit('error', { message: 'Invalid game data' });
           return;
         }
         
-        console.log(`🎮 ${username} (${userId}) joining game ${gameId}`);
+        // Who is joining comes from the session the socket connected with, never from the payload
+        const { userId, username } = socket.data;
+        
+        console.log(`🎮 ${username} (${userId}) ${reconnecting ? `rejoining game ${gameId} from seq ${lastSeq}` : `joining game ${gameId}`}${spectator ? ' as a spectator' : ''}`);
+        
+        // Spectators have to have joined through the rooms API (which checks the room allows them)
+        if (spectator && !(await gameStore.isSpectator(gameId, userId))) {
+          socket.emit('error', { message: 'You are not allowed to spectate this game' });
+          return;
+        }
+        
+        // The seat taken in the room decides where the player sits in the turn order
+        const seatPosition = spectator ? null : await gameStore.loadSeatPosition(gameId, userId);
+        if (!spectator && seatPosition === null) {
+          socket.emit('error', { message: 'You are not a player in this game' });
+          return;
+        }
         
         // Join the socket room
-        socket.join(gameId);
+        socket.data.gameId = gameId;
+        socket.data.spectator = !!spectator;
+        socket.join([gameId, viewerRoom(gameId, viewerIdOf(socket))]);
         
-        // Initialize game state if it doesn't exist
-        if (!gameStates.has(gameId)) {
-          gameStates.set(gameId, {
-            battlefieldCards: [],
-            participants: [],
-            lastUpdated: Date.now()
-          });
+        // Resume the game from storage, or initialize it if it doesn't exist
+        const gameState = await loadGame(gameId, format || 'commander');
+        
+        if (spectator) {
+          if (!reconnecting) {
+            sendGameState(socket, gameId);
+          }
+          await emitSpectators(gameId);
+          socket.emit('game-messages', { messages: await gameStore.loadMessages(gameId) });
+          console.log(`👁️ ${username} is spectating game ${gameId}`);
+          if (typeof ack === 'function') ack({ seq: gameAuthority.getSeq(gameId) });
+          return;
         }
         
-        const gameState = gameStates.get(gameId);
+        // Add the player if this is their first time in the game
+        if (!gameState.players.has(userId)) {
+          const accepted = applyAction(socket, gameId, 'join-game', {
+            type: 'PLAYER_JOINED',
+            playerId: userId,
+            playerData: GameEngine.createPlayerState(username, gameState.format, seatPosition)
+          });
+          if (!accepted) return;
+          
+          const player = accepted.state.players.get(userId);
+          io.to(gameId).emit('player-counters-changed', {
+            playerId: userId,
+            counters: GameAuthority.toCounters(player),
+            seq: accepted.event.seq
+          });
+        }
         
-        // Add participant if not already present
-        if (!gameState.participants.includes(userId)) {
-          gameState.participants.push(userId);
+        // Joining counts as a heartbeat, so a player coming back is seen straight away
+        if (presenceMonitor.heartbeat(gameId, userId, Date.now())) {
+          markSeat(gameId, userId, true);
+          emitPresence(gameId);
         }
         
         // Send current game state to the joining player
-        socket.emit('game-state', {
-          battlefieldCards: gameState.battlefieldCards,
-          participants: gameState.participants
-        });
+        if (!reconnecting) {
+          sendGameState(socket, gameId);
+        }
+        
+        // Chat and the game log so far (a rejoining client may have missed some of it)
+        socket.emit('game-messages', { messages: await gameStore.loadMessages(gameId) });
         
         // Notify other players in the room
         socket.to(gameId).emit('player-joined', {
@@ -200,226 +735,798 @@ app.prepare().then(() => {
           socketId: socket.id
         });
         
-        console.log(`✅ ${username} joined game ${gameId}. Total participants: ${gameState.participants.length}`);
+        console.log(`✅ ${username} joined game ${gameId}. Total participants: ${gameAuthority.getState(gameId).players.size}`);
+        if (typeof ack === 'function') ack({ seq: gameAuthority.getSeq(gameId) });
       } catch (error) {
         console.error('❌ Error in join-game handler:', error);
         socket.emit('error', { message: 'Failed to join game' });
       }
     });
 
-    // Handle card movement
-    socket.on('card-moved', (data) => {
-      const { gameId, cardId, position, playerId } = data;
-      
-      console.log(`🃏 Card moved in game ${gameId}:`, { cardId, position, playerId });
-      
-      // Update global game state
-      const gameState = gameStates.get(gameId);
-      if (gameState) {
-        const cardIndex = gameState.battlefieldCards.findIndex(card => card.instanceId === cardId);
-        if (cardIndex !== -1) {
-          gameState.battlefieldCards[cardIndex].position = position;
-          gameState.lastUpdated = Date.now();
-        }
+    // Handle a rejoined playmat catching up: the board comes back as a snapshot unless nothing was missed
+    on('request-game-state', (data) => {
+      const { gameId, lastSeq } = data || {};
+      if (!gameId || socket.data.gameId !== gameId) return;
+      
+      const missed = typeof lastSeq === 'number' ? gameAuthority.getEventsSince(gameId, lastSeq) : null;
+      if (missed && missed.success && missed.data.length === 0) {
+        console.log(`🔄 ${socket.data.username} is up to date in game ${gameId} at seq ${lastSeq}`);
+        return;
       }
+      sendGameState(socket, gameId);
+    });
+
+    // Handle a rejoined GameSync client catching up: the events it missed if the server still has them, else a snapshot
+    on('request-state-sync', (data) => {
+      const { gameId, lastSeq } = data || {};
+      if (!gameId || socket.data.gameId !== gameId) return;
       
-      // Update player-specific game state
-      const playerStateKey = getPlayerStateKey(gameId, playerId);
-      const playerState = playerGameStates.get(playerStateKey);
-      if (playerState) {
-        const cardIndex = playerState.battlefieldCards.findIndex(card => card.instanceId === cardId);
-        if (cardIndex !== -1) {
-          playerState.battlefieldCards[cardIndex].position = position;
-          playerState.lastUpdated = Date.now();
-        }
+      const state = gameAuthority.getState(gameId);
+      if (!state) return;
+      
+      const viewerId = viewerIdOf(socket);
+      const seq = gameAuthority.getSeq(gameId);
+      const missed = typeof lastSeq === 'number' ? gameAuthority.getEventsSince(gameId, lastSeq) : null;
+      if (missed && missed.success) {
+        console.log(`🔄 Replaying ${missed.data.length} missed events to ${socket.data.username} in game ${gameId}`);
+        socket.emit('missed-events', { events: missed.data.map((event) => redactEvent(event, viewerId)), seq });
+        return;
       }
       
-      // Broadcast to other players in the room (not the sender)
-      socket.to(gameId).emit('card-moved', data);
+      const view = projectState(state, viewerId);
+      socket.emit('game-state-sync', { state: { ...view, players: [...view.players.entries()] }, seq });
+    });
+
+    // Handle a freshly loaded deck (the server shuffles it as it is loaded)
+    on('deck-loaded', async (data) => {
+      const libraryCards = await buildDeck(socket, data?.gameId, 'deck-loaded', data?.libraryCards);
+      if (!libraryCards) return;
+      applyPlaymatEvent(socket, 'deck-loaded', { ...data, libraryCards });
+    });
+
+    // Handle drawing the top card of the library
+    on('card-drawn', (data) => {
+      applyPlaymatEvent(socket, 'card-drawn', data);
+    });
+
+    // Handle card movement
+    on('card-moved', (data) => {
+      applyPlaymatEvent(socket, 'card-moved', data);
     });
 
     // Handle card tap/untap
-    socket.on('card-tapped', (data) => {
-      const { gameId, cardId, tapped, playerId } = data;
-      
-      console.log(`👆 Card tapped in game ${gameId}:`, { cardId, tapped, playerId });
-      
-      // Update global game state
-      const gameState = gameStates.get(gameId);
-      if (gameState) {
-        const cardIndex = gameState.battlefieldCards.findIndex(card => card.instanceId === cardId);
-        if (cardIndex !== -1) {
-          gameState.battlefieldCards[cardIndex].tapped = tapped;
-          gameState.lastUpdated = Date.now();
-        }
+    on('card-tapped', (data) => {
+      applyPlaymatEvent(socket, 'card-tapped', data);
+    });
+
+    // Handle card played from hand or library
+    on('card-played', (data) => {
+      applyPlaymatEvent(socket, 'card-played', data);
+    });
+
+    // Handle counters (+1/+1, loyalty, charge...) on a battlefield card
+    on('card-counter-changed', (data) => {
+      applyPlaymatEvent(socket, 'card-counter-changed', data);
+    });
+
+    // Handle token creation (tokens are not backed by a deck card)
+    on('token-created', (data) => {
+      applyPlaymatEvent(socket, 'token-created', data);
+    });
+
+    // Handle attaching an aura/equipment to another card (targetId null detaches)
+    on('card-attached', (data) => {
+      applyPlaymatEvent(socket, 'card-attached', data);
+    });
+
+    // Handle shuffling a library (the server picks the order)
+    on('library-shuffled', (data) => {
+      applyPlaymatEvent(socket, 'library-shuffled', data);
+    });
+
+    // Handle the turn structure: starting the game, moving through phases, ending turns and passing priority
+    ['game-started', 'phase-advanced', 'turn-ended', 'priority-passed'].forEach((eventName) => {
+      on(eventName, (data) => {
+        applyPlaymatEvent(socket, eventName, data);
+      });
+    });
+
+    // Handle shuffling the opening hand away for a new one
+    on('mulligan-taken', (data) => {
+      applyPlaymatEvent(socket, 'mulligan-taken', data);
+    });
+
+    // Handle a player conceding (the game ends once only one player is left)
+    on('game-conceded', (data) => {
+      applyPlaymatEvent(socket, 'game-conceded', data);
+    });
+
+    // Handle a player's deck for the next game of a match, which may only swap cards with their registered sideboard
+    on('deck-submitted', async (data) => {
+      // Outside sideboarding the engine turns the deck down anyway, so there is nothing to build it from
+      if (gameAuthority.getState(data?.gameId)?.status !== 'sideboarding') {
+        applyPlaymatEvent(socket, 'deck-submitted', data);
+        return;
+      }
+      const libraryCards = await buildDeck(socket, data.gameId, 'deck-submitted', data.libraryCards);
+      if (!libraryCards) return;
+      applyPlaymatEvent(socket, 'deck-submitted', { ...data, libraryCards });
+    });
+
+    // Handle keeping the opening hand (with any cards the mulligan rules send to the bottom)
+    on('hand-kept', (data) => {
+      applyPlaymatEvent(socket, 'hand-kept', data);
+    });
+
+    // Handle revealing a single card from hand
+    on('card-revealed', (data) => {
+      applyPlaymatEvent(socket, 'card-revealed', data);
+    });
+
+    // Handle revealing the whole hand
+    on('hand-revealed', (data) => {
+      applyPlaymatEvent(socket, 'hand-revealed', data);
+    });
+
+    // Handle putting the cards from a scry, surveil or "look at the top N" back where the player chose
+    on('library-arranged', (data) => {
+      applyPlaymatEvent(socket, 'library-arranged', data);
+    });
+
+    // Handle searching the whole library for a card (or finding nothing)
+    on('library-searched', (data) => {
+      applyPlaymatEvent(socket, 'library-searched', data);
+    });
+
+    // Handle revealing the top card of the library to everyone
+    on('library-top-revealed', (data) => {
+      applyPlaymatEvent(socket, 'library-top-revealed', data);
+    });
+
+    // Handle card returned to hand
+    on('card-returned', (data) => {
+      applyPlaymatEvent(socket, 'card-returned', data);
+    });
+
+    // Handle cards put into the graveyard or exiled from the battlefield
+    on('card-destroyed', (data) => {
+      applyPlaymatEvent(socket, 'card-destroyed', data);
+    });
+
+    on('card-exiled', (data) => {
+      applyPlaymatEvent(socket, 'card-exiled', data);
+    });
+
+    // Handle life total changes (any player may adjust any player's life)
+    on('life-changed', (data) => {
+      applyPlaymatEvent(socket, 'life-changed', data);
+    });
+
+    // Handle poison counter changes
+    on('poison-changed', (data) => {
+      applyPlaymatEvent(socket, 'poison-changed', data);
+    });
+
+    // Handle commander damage (also comes off the life total)
+    on('commander-damage', (data) => {
+      applyPlaymatEvent(socket, 'commander-damage', data);
+    });
+
+    // Handle engine actions sent directly by GameSync clients
+    on('game-action', async (data) => {
+      const { gameId, event } = data || {};
+      if (!event || typeof event.type !== 'string') {
+        rejectAction(socket, gameId, 'game-action', { code: 'INVALID_ACTION', message: 'Malformed game-action payload' });
+        return;
       }
       
-      // Update player-specific game state
-      const playerStateKey = getPlayerStateKey(gameId, playerId);
-      const playerState = playerGameStates.get(playerStateKey);
-      if (playerState) {
-        const cardIndex = playerState.battlefieldCards.findIndex(card => card.instanceId === cardId);
-        if (cardIndex !== -1) {
-          playerState.battlefieldCards[cardIndex].tapped = tapped;
-          playerState.lastUpdated = Date.now();
-        }
+      // Clients don't get to pick who they are, their own timestamp, event id or sequence number
+      const action = asSocketUser(socket, { ...event });
+      delete action.timestamp;
+      delete action.eventId;
+      delete action.seq;
+      delete action.actorId;
+      
+      if (action.type === 'LOAD_DECK' || action.type === 'SUBMIT_DECK') {
+        action.cards = await buildDeck(socket, gameId, 'game-action', action.cards);
+        if (!action.cards) return;
       }
       
-      // Broadcast to other players in the room
-      socket.to(gameId).emit('card-tapped', data);
+      const accepted = applyAction(socket, gameId, 'game-action', action);
+      if (accepted) {
+        emitToEachViewer(gameId, 'game-action', (viewerId) => ({ event: redactEvent(accepted.event, viewerId) }));
+      }
     });
 
-    // Handle card played from hand
-    socket.on('card-played', (data) => {
-      const { gameId, card, position, playerId } = data;
+    // Handle a chat message to everyone in the game (spectators included)
+    on('chat-message', (data) => {
+      const { gameId, message } = data;
+      if (socket.data.gameId !== gameId) {
+        socket.emit('action-rejected', { event: 'chat-message', code: 'NOT_IN_GAME', message: 'Join the game to chat' });
+        return;
+      }
       
-      console.log(`🎴 Card played in game ${gameId}:`, { cardName: card.name, position, playerId });
+      console.log(`💬 Chat in game ${gameId} from ${socket.data.username}`);
+      postMessage(gameId, {
+        kind: 'chat',
+        userId: socket.data.userId,
+        username: socket.data.username,
+        seq: null,
+        body: message
+      });
+    });
+
+    // Handle a player asking to take back their last action; every other player has to agree
+    on('undo-requested', (data) => {
+      const gameId = data?.gameId;
+      const playerId = socket.data.userId;
+      console.log(`⏪ Undo requested in game ${gameId}:`, { playerId });
       
-      // Update global game state
-      const gameState = gameStates.get(gameId);
-      if (gameState) {
-        gameState.battlefieldCards.push({
-          ...card,
-          position,
-          playerId,
-          tapped: false
-        });
-        gameState.lastUpdated = Date.now();
-      }
-      
-      // Update player-specific game state
-      const playerStateKey = getPlayerStateKey(gameId, playerId);
-      let playerState = playerGameStates.get(playerStateKey);
-      if (!playerState) {
-        playerState = {
-          battlefieldCards: [],
-          handCards: [],
-          handCount: 0,
-          libraryCards: [],
-          libraryCount: 60,
-          lastUpdated: Date.now()
-        };
-        playerGameStates.set(playerStateKey, playerState);
+      if (socket.data.spectator || socket.data.gameId !== gameId) {
+        rejectAction(socket, gameId, 'undo-requested', { code: 'NOT_AUTHORIZED', message: 'Only players in this game can undo' });
+        return;
+      }
+      if (pendingUndos.has(gameId)) {
+        rejectAction(socket, gameId, 'undo-requested', { code: 'UNDO_PENDING', message: 'Another undo request is waiting for an answer' });
+        return;
       }
       
-      playerState.battlefieldCards.push({
-        ...card,
-        position,
+      const target = gameAuthority.getUndoTarget(gameId, playerId);
+      if (!target.success) {
+        rejectAction(socket, gameId, 'undo-requested', target.error);
+        return;
+      }
+      
+      const { event, before } = target.data;
+      const waitingOn = [...gameAuthority.getState(gameId).players.values()]
+        .filter((player) => player.id !== playerId && !player.eliminated)
+        .map((player) => player.id);
+      pendingUndos.set(gameId, {
+        requestId: `${gameId}-undo-${event.seq}`,
         playerId,
-        tapped: false
+        seq: event.seq,
+        description: describeEvent(event, before, true),
+        waitingOn: new Set(waitingOn),
+        timer: setTimeout(() => closeUndoRequest(gameId, false, 'Nobody answered the undo request in time'), UNDO_REQUEST_TIMEOUT)
       });
-      // Remove the played card from hand cards
-      playerState.handCards = playerState.handCards.filter(handCard => 
-        handCard.instanceId !== card.instanceId
-      );
-      playerState.handCount = playerState.handCards.length;
-      playerState.lastUpdated = Date.now();
+      emitUndoRequest(gameId);
       
-      // Broadcast to other players in the room
-      socket.to(gameId).emit('card-played', data);
+      // Nobody else is playing, so there is nobody to ask
+      if (waitingOn.length === 0) {
+        completeUndo(gameId);
+      }
     });
 
-    // Handle card returned to hand
-    socket.on('card-returned', (data) => {
-      const { gameId, cardId, playerId } = data;
-      
-      console.log(`↩️ Card returned in game ${gameId}:`, { cardId, playerId });
-      
-      // Update global game state
-      const gameState = gameStates.get(gameId);
-      if (gameState) {
-        gameState.battlefieldCards = gameState.battlefieldCards.filter(
-          card => card.instanceId !== cardId
-        );
-        gameState.lastUpdated = Date.now();
-      }
-      
-      // Update player-specific game state
-      const playerStateKey = getPlayerStateKey(gameId, playerId);
-      let playerState = playerGameStates.get(playerStateKey);
-      if (!playerState) {
-        playerState = {
-          battlefieldCards: [],
-          handCards: [],
-          handCount: 0,
-          libraryCards: [],
-          libraryCount: 60,
-          lastUpdated: Date.now()
-        };
-        playerGameStates.set(playerStateKey, playerState);
-      }
-      
-      // Find the card being returned and add it back to hand
-      const returnedCard = playerState.battlefieldCards.find(card => card.instanceId === cardId);
-      if (returnedCard) {
-        // Remove from battlefield
-        playerState.battlefieldCards = playerState.battlefieldCards.filter(
-          card => card.instanceId !== cardId
-        );
-        // Add back to hand
-        playerState.handCards.push(returnedCard);
-        playerState.handCount = playerState.handCards.length;
-        playerState.lastUpdated = Date.now();
-      }
-      
-      // Broadcast to other players in the room
-      socket.to(gameId).emit('card-returned', data);
-    });
-
-    // Handle hand state changes
-    socket.on('hand-state-changed', (data) => {
-      const { gameId, handCards, libraryCards, playerId } = data;
-      
-      console.log(`🃏 Hand state changed for ${playerId} in game ${gameId}: ${handCards.length} hand cards, ${libraryCards?.length || 'unknown'} library cards`);
-      
-      // Update player-specific game state
-      const playerStateKey = getPlayerStateKey(gameId, playerId);
-      let playerState = playerGameStates.get(playerStateKey);
-      if (!playerState) {
-        playerState = {
-          battlefieldCards: [],
-          handCards: [],
-          libraryCards: [],
-          handCount: 0,
-          libraryCount: 0,
-          lastUpdated: Date.now()
-        };
-        playerGameStates.set(playerStateKey, playerState);
+    // Handle a player approving or declining someone else's undo request
+    on('undo-response', (data) => {
+      const { gameId, requestId, approve } = data || {};
+      const playerId = socket.data.userId;
+      console.log(`⏪ Undo ${approve ? 'approved' : 'declined'} in game ${gameId}:`, { requestId, playerId });
+      
+      const pending = pendingUndos.get(gameId);
+      if (socket.data.spectator || !pending || pending.requestId !== requestId || !pending.waitingOn.has(playerId)) {
+        rejectAction(socket, gameId, 'undo-response', { code: 'NO_UNDO_REQUEST', message: 'There is no undo request waiting on you' });
+        return;
       }
       
-      // Store actual card arrays for persistence
-      playerState.handCards = [...handCards];
-        playerState.handCount = handCards.length;
+      if (approve !== true) {
+        closeUndoRequest(gameId, false, `${socket.data.username} declined the undo`);
+        return;
+      }
       
-      // Also update library cards if provided
-      if (libraryCards) {
-        playerState.libraryCards = [...libraryCards];
-        playerState.libraryCount = libraryCards.length;
+      pending.waitingOn.delete(playerId);
+      if (pending.waitingOn.size === 0) {
+        completeUndo(gameId);
+      } else {
+        emitUndoRequest(gameId);
       }
+    });
+
+    // Handle the host rewinding the game to the start of the current turn (no approval needed)
+    on('turn-rewound', async (data) => {
+      const gameId = data?.gameId;
+      console.log(`⏮️ Turn rewind requested in game ${gameId}:`, { by: socket.data.userId });
       
-      playerState.lastUpdated = Date.now();
+      try {
+        const room = await gameStore.loadRoom(gameId);
+        if (!room || room.hostId !== socket.data.userId || socket.data.spectator) {
+          rejectAction(socket, gameId, 'turn-rewound', { code: 'NOT_HOST', message: 'Only the host can rewind the turn' });
+          return;
+        }
+        
+        const turnStart = gameAuthority.getTurnStartSeq(gameId);
+        if (!turnStart.success) {
+          rejectAction(socket, gameId, 'turn-rewound', turnStart.error);
+          return;
+        }
+        
+        // Any pending undo is about an action the rewind is about to remove anyway
+        closeUndoRequest(gameId, false, 'The host rewound the turn');
+        
+        const seqs = gameAuthority.getEvents(gameId)
+          .filter((event) => event.seq > turnStart.data)
+          .map((event) => event.seq);
+        const result = rewindGame(gameId, seqs);
+        if (!result.success) {
+          rejectAction(socket, gameId, 'turn-rewound', result.error);
+          return;
+        }
+        io.to(gameId).emit('turn-rewound', { playerId: socket.data.userId, turn: result.data.turn });
+        postMessage(gameId, {
+          kind: 'log',
+          userId: socket.data.userId,
+          username: socket.data.username,
+          seq: null,
+          body: `${socket.data.username} rewound the game to the start of turn ${result.data.turn}`
+        });
+      } catch (error) {
+        console.error('❌ Error rewinding turn:', error);
+        socket.emit('error', { message: 'Failed to rewind the turn' });
+      }
+    });
+
+    // Handle the host removing a spectator: they're disconnected from the game and can't watch again
+    on('spectator-kicked', async (data) => {
+      const { gameId, spectatorId } = data || {};
+      console.log(`🚷 Spectator kick requested in game ${gameId}:`, { spectatorId, by: socket.data.userId });
       
-      console.log(`✅ Persisted game state for ${playerId}: ${playerState.handCards.length} hand, ${playerState.libraryCards.length} library`);
+      try {
+        const room = await gameStore.loadRoom(gameId);
+        if (!room || room.hostId !== socket.data.userId || socket.data.spectator) {
+          rejectAction(socket, gameId, 'spectator-kicked', { code: 'NOT_HOST', message: 'Only the host can remove spectators' });
+          return;
+        }
+        
+        await gameStore.kickSpectator(gameId, spectatorId);
+        await announceRooms([gameId]);
+        await forEachViewer(gameId, (viewer) => {
+          if (viewer.data.spectator && viewer.data.userId === spectatorId) {
+            viewer.emit('removed-from-game', { gameId, message: 'The host has removed you from this game' });
+            viewer.leave(gameId);
+            viewer.leave(viewerRoom(gameId));
+          }
+        });
+        await emitSpectators(gameId);
+      } catch (error) {
+        console.error('❌ Error kicking spectator:', error);
+        socket.emit('error', { message: 'Failed to remove spectator' });
+      }
+    });
+
+    // Handle the host removing a player: they give up their seat and, once the game has started,
+    // are out of it as if they had conceded
+    on('player-kicked', async (data) => {
+      const { gameId, targetId } = data || {};
+      console.log(`🥾 Player kick requested in game ${gameId}:`, { targetId, by: socket.data.userId });
       
-      // Broadcast to other players in the room (so they can see hand count changes)
-      socket.to(gameId).emit('hand-state-changed', {
-        playerId,
-        handCards, // Send actual cards for spectators/opponents
-        handCount: handCards.length
-      });
+      try {
+        if (!(await checkHost(socket, gameId, 'player-kicked', 'Only the host can remove players'))) return;
+        
+        // Someone who took a seat but never opened the game only has the seat to lose
+        const inGame = !!gameAuthority.getState(gameId)?.players.has(targetId);
+        if (inGame && !applyPlaymatEvent(socket, 'player-kicked', data, true)) return;
+        if (!inGame && (targetId === socket.data.userId || (await gameStore.loadSeatPosition(gameId, targetId)) === null)) {
+          rejectAction(socket, gameId, 'player-kicked', { code: 'PLAYER_NOT_FOUND', message: 'That player is not in this game' });
+          return;
+        }
+        
+        await gameStore.removeParticipant(gameId, targetId);
+        await syncPlayerCount(gameId);
+        await announceRooms([gameId]);
+        await forEachViewer(gameId, (viewer) => {
+          if (!viewer.data.spectator && viewer.data.userId === targetId) {
+            viewer.emit('removed-from-game', { gameId, message: 'The host has removed you from this game' });
+            viewer.leave(gameId);
+            viewer.leave(viewerRoom(gameId, targetId));
+          }
+        });
+        io.to(gameId).emit('room-changed', { gameId });
+      } catch (error) {
+        console.error('❌ Error kicking player:', error);
+        socket.emit('error', { message: 'Failed to remove player' });
+      }
+    });
+
+    // Handle the host handing the room over to another of its players
+    on('host-transferred', async (data) => {
+      const { gameId, targetId } = data || {};
+      console.log(`👑 Host transfer requested in game ${gameId}:`, { targetId, by: socket.data.userId });
+      
+      try {
+        if (!(await checkHost(socket, gameId, 'host-transferred', 'Only the host can hand over the room'))) return;
+        
+        if (targetId === socket.data.userId || (await gameStore.loadSeatPosition(gameId, targetId)) === null) {
+          rejectAction(socket, gameId, 'host-transferred', { code: 'PLAYER_NOT_FOUND', message: 'Only another player in this game can become the host' });
+          return;
+        }
+        if (!(await gameStore.transferHost(gameId, socket.data.userId, targetId))) {
+          rejectAction(socket, gameId, 'host-transferred', { code: 'NOT_HOST', message: 'You are no longer the host' });
+          return;
+        }
+        
+        await announceRooms([gameId]);
+        io.to(gameId).emit('room-changed', { gameId });
+        const newHost = gameAuthority.getState(gameId)?.players.get(targetId)?.username ?? 'another player';
+        postMessage(gameId, {
+          kind: 'log',
+          userId: socket.data.userId,
+          username: socket.data.username,
+          seq: null,
+          body: `${socket.data.username} made ${newHost} the host`
+        });
+      } catch (error) {
+        console.error('❌ Error transferring host:', error);
+        socket.emit('error', { message: 'Failed to hand over the room' });
+      }
+    });
+
+    // Handle the host rearranging the seats (and so the turn order) before a game starts
+    on('seats-rearranged', async (data) => {
+      const gameId = data?.gameId;
+      console.log(`💺 Seats rearranged in game ${gameId}:`, { order: data?.order, by: socket.data.userId });
+      
+      try {
+        if (!(await checkHost(socket, gameId, 'seats-rearranged', 'Only the host can rearrange the seats'))) return;
+        
+        const accepted = applyPlaymatEvent(socket, 'seats-rearranged', data, true);
+        if (!accepted) return;
+        
+        await gameStore.saveSeatPositions(gameId, [...accepted.state.players.values()].map((player) => ({
+          userId: player.id,
+          seatPosition: player.seatPosition
+        })));
+        io.to(gameId).emit('room-changed', { gameId });
+      } catch (error) {
+        console.error('❌ Error rearranging seats:', error);
+        socket.emit('error', { message: 'Failed to rearrange the seats' });
+      }
+    });
+
+    // Handle the host moving the game past a player who has been away for longer than the grace period
+    on('turn-skipped', async (data) => {
+      const { gameId, targetId } = data || {};
+      console.log(`⏭️ Turn skip requested in game ${gameId}:`, { targetId, by: socket.data.userId });
+      
+      try {
+        if (!(await checkHost(socket, gameId, 'turn-skipped', 'Only the host can skip a player'))) return;
+        
+        if (!presenceMonitor.isAfk(gameId, targetId, Date.now())) {
+          rejectAction(socket, gameId, 'turn-skipped', { code: 'PLAYER_NOT_AFK', message: 'Players can only be skipped once they have been away for a while' });
+          return;
+        }
+        applyPlaymatEvent(socket, 'turn-skipped', data, true);
+      } catch (error) {
+        console.error('❌ Error skipping turn:', error);
+        socket.emit('error', { message: 'Failed to skip the player' });
+      }
+    });
+
+    // Handle a player's heartbeat, sent for as long as they have the game open
+    on('heartbeat', (data) => {
+      const gameId = data?.gameId;
+      if (socket.data.spectator || socket.data.gameId !== gameId) return;
+      
+      if (presenceMonitor.heartbeat(gameId, socket.data.userId, Date.now())) {
+        markSeat(gameId, socket.data.userId, true);
+        emitPresence(gameId);
+      }
+    });
+
+    // Handle the host pausing the game; nothing can happen on the board until they resume it
+    on('game-paused', async (data) => {
+      const gameId = data?.gameId;
+      console.log(`⏸️ Pause requested in game ${gameId}:`, { by: socket.data.userId });
+      
+      try {
+        if (await checkHost(socket, gameId, 'game-paused', 'Only the host can pause the game')) {
+          applyPlaymatEvent(socket, 'game-paused', data, true);
+        }
+      } catch (error) {
+        console.error('❌ Error pausing game:', error);
+        socket.emit('error', { message: 'Failed to pause the game' });
+      }
+    });
+
+    // Handle the host resuming a paused game where it left off
+    on('game-resumed', async (data) => {
+      const gameId = data?.gameId;
+      console.log(`▶️ Resume requested in game ${gameId}:`, { by: socket.data.userId });
+      
+      try {
+        if (await checkHost(socket, gameId, 'game-resumed', 'Only the host can resume the game')) {
+          applyPlaymatEvent(socket, 'game-resumed', data, true);
+        }
+      } catch (error) {
+        console.error('❌ Error resuming game:', error);
+        socket.emit('error', { message: 'Failed to resume the game' });
+      }
     });
 
     // Handle player disconnect
-    socket.on('disconnect', () => {
+    on('disconnect', () => {
       console.log('🔌 Player disconnected:', socket.id);
       
-      // Could implement cleanup logic here
-      // For now, we'll keep the game state persistent
+      // Players keep their place in the persisted game; spectators stop counting once their last tab closes
+      const { gameId, userId, spectator } = socket.data;
+      if (!spectator || !gameId) return;
+      emitSpectators(gameId).catch((error) => console.error('❌ Error updating spectators:', error));
+      
+      // Give a dropped connection time to come back before giving up the spectator's place
+      setTimeout(async () => {
+        try {
+          let stillWatching = false;
+          await forEachViewer(gameId, (viewer) => {
+            stillWatching = stillWatching || (viewer.data.spectator && viewer.data.userId === userId);
+          });
+          if (stillWatching) return;
+          
+          await gameStore.removeSpectator(gameId, userId);
+          await announceRooms([gameId]);
+        } catch (error) {
+          console.error('❌ Error removing spectator:', error);
+        }
+      }, SPECTATOR_RECONNECT_GRACE);
+    });
+  }
+
+  // The lobby: its sockets hear about rooms opening, filling up and closing as it happens.
+  // Matchmaking: players queue for a format (and power level), and once a pod fills up
+  // everyone in it is sent to the room made for them, on whichever process their socket is connected
+  function registerLobbyHandlers(socket, on) {
+    async function emitQueueSize(format) {
+      io.to(queueRoom(format)).emit('matchmaking-status', {
+        format,
+        waiting: await matchmaker.countWaiting(format),
+        podSize: getPodSize(format)
+      });
+    }
+    
+    on('lobby-joined', (_data, ack) => {
+      socket.join(LOBBY_ROOM);
+      if (typeof ack === 'function') ack();
+    });
+    
+    on('matchmaking-joined', async (data, ack) => {
+      const { userId, username } = socket.data;
+      console.log(`🔎 ${username} (${userId}) is looking for a ${data.format} game`, { powerLevel: data.powerLevel ?? null });
+      
+      const result = await matchmaker.join(userId, data.format, data.deckId, data.powerLevel ?? null);
+      if (!result.success) {
+        socket.emit('action-rejected', { event: 'matchmaking-joined', code: result.error.code, message: result.error.message });
+        if (typeof ack === 'function') ack({ queued: false });
+        return;
+      }
+      
+      if (socket.data.queuedFormat && socket.data.queuedFormat !== data.format) {
+        socket.leave(queueRoom(socket.data.queuedFormat));
+        await emitQueueSize(socket.data.queuedFormat);
+      }
+      socket.data.queuedFormat = data.format;
+      socket.join(queueRoom(data.format));
+      if (typeof ack === 'function') ack({ queued: true });
+      
+      const pod = result.data;
+      if (pod) {
+        console.log(`🤝 Seated a ${pod.format} pod in game ${pod.gameId}:`, pod.userIds);
+        pod.userIds.forEach((playerId) => {
+          io.in(userRoom(playerId)).socketsLeave(queueRoom(pod.format));
+          io.to(userRoom(playerId)).emit('match-found', { gameId: pod.gameId, format: pod.format });
+        });
+        await announceRooms([pod.gameId]);
+      }
+      await emitQueueSize(data.format);
+    });
+    
+    on('matchmaking-left', async (_data, ack) => {
+      const format = socket.data.queuedFormat;
+      socket.data.queuedFormat = null;
+      await matchmaker.leave(socket.data.userId);
+      if (typeof ack === 'function') ack({ queued: false });
+      if (format) {
+        socket.leave(queueRoom(format));
+        await emitQueueSize(format);
+      }
+    });
+    
+    // Closing the lobby gives up the place in the queue
+    socket.on('disconnect', async () => {
+      const format = socket.data.queuedFormat;
+      if (!format) return;
+      try {
+        await matchmaker.leave(socket.data.userId);
+        await emitQueueSize(format);
+      } catch (error) {
+        console.error('❌ Error leaving the matchmaking queue:', error);
+      }
+    });
+  }
+
+  // Run a game event here, catching the game up from storage first if this process only just took it over
+  async function runOwned(socket, gameId, eventName, data, ack, handler) {
+    if (gameId && eventName !== 'join-game' && socket.data.gameId === gameId && !gameAuthority.getState(gameId)) {
+      await loadGame(gameId);
+    }
+    await handler(data, ack);
+  }
+
+  // Events relayed to another process, waiting for it to finish with them
+  const relayedEvents = new Map();
+  let relaySeq = 0;
+
+  // Games run on the process holding their lease; an event for a game running elsewhere is sent there,
+  // and whatever the handler learned about the socket (e.g. who joined) comes back with the reply
+  async function routeEvent(socket, eventName, data, ack, handler) {
+    const gameId = data?.gameId || socket.data.gameId;
+    const owner = gameId ? await gameLeases.ownerOf(gameId) : NODE_ID;
+    if (owner === NODE_ID) {
+      await runOwned(socket, gameId, eventName, data, ack, handler);
+      return;
+    }
+    
+    const requestId = `${NODE_ID}:${++relaySeq}`;
+    const reply = await new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        relayedEvents.delete(requestId);
+        resolve(null);
+      }, RELAY_TIMEOUT);
+      relayedEvents.set(requestId, { resolve, timer });
+      pubsub.publish(`relay:${owner}`, { type: 'event', requestId, from: NODE_ID, socketId: socket.id, socketData: socket.data, eventName, data });
     });
+    
+    if (!reply) {
+      console.warn(`⚠️ ${eventName} from ${socket.id} got no answer from the process running game ${gameId}`);
+      socket.emit('error', { message: 'The game server did not respond' });
+      return;
+    }
+    Object.assign(socket.data, reply.socketData);
+    if (reply.ackArgs && typeof ack === 'function') ack(...reply.ackArgs);
+  }
+
+  // A socket connected to another process, as seen by the handlers: emits, joins and leaves go through the adapter
+  function relayedSocket(socketId, data) {
+    return {
+      id: socketId,
+      data,
+      emit: (eventName, ...args) => io.to(socketId).emit(eventName, ...args),
+      join: (rooms) => io.in(socketId).socketsJoin(rooms),
+      leave: (room) => io.in(socketId).socketsLeave(room),
+      to: (room) => io.to(room).except(socketId)
+    };
+  }
+
+  // Mark the seats whose heartbeats stopped and the turns that ran out of time, and keep every table up to date
+  // on who is away. Only games this process runs are watched, so there is one sweep per game across the cluster
+  presenceSweep = setInterval(() => {
+    const now = Date.now();
+    presenceMonitor.gameIds
+      .filter((gameId) => !gameAuthority.getState(gameId))
+      .forEach((gameId) => presenceMonitor.forget(gameId));
+    
+    const { disconnected, timedOut, changed } = presenceMonitor.sweep(now);
+    disconnected.forEach(({ gameId, playerId }) => markSeat(gameId, playerId, false));
+    timedOut.forEach(({ gameId, playerId, turn }) => {
+      const username = gameAuthority.getState(gameId).players.get(playerId)?.username ?? null;
+      postMessage(gameId, { kind: 'log', userId: playerId, username, seq: null, body: `${username ?? 'A player'} ran out of time on turn ${turn}` });
+      io.to(gameId).emit('turn-clock-changed', { clock: presenceMonitor.getClock(gameId, now) });
+    });
+    changed.forEach(emitPresence);
+  }, HEARTBEAT_INTERVAL);
+
+  // Every process hears each room change once and passes it to its own lobby sockets
+  // (only to the sockets of the users a private room may be shown to)
+  pubsub.subscribe(LOBBY_CHANNEL, (event) => {
+    const { audience, ...update } = event;
+    io.local.to(audience ? audience.map(userRoom) : LOBBY_ROOM).emit(event.type, update);
+  });
+
+  pubsub.subscribe(`relay:${NODE_ID}`, async (message) => {
+    if (message.type === 'reply') {
+      const pending = relayedEvents.get(message.requestId);
+      if (!pending) return;
+      
+      clearTimeout(pending.timer);
+      relayedEvents.delete(message.requestId);
+      pending.resolve(message);
+      return;
+    }
+    
+    const socket = relayedSocket(message.socketId, message.socketData);
+    const handlers = new Map();
+    registerGameHandlers(socket, (eventName, handler) => handlers.set(eventName, handler));
+    
+    let ackArgs = null;
+    try {
+      const handler = handlers.get(message.eventName);
+      if (handler) {
+        await runOwned(socket, message.data?.gameId || socket.data.gameId, message.eventName, message.data, (...args) => { ackArgs = args; }, handler);
+      }
+    } catch (error) {
+      console.error(`❌ Error handling relayed ${message.eventName}:`, error);
+    } finally {
+      pubsub.publish(`relay:${message.from}`, { type: 'reply', requestId: message.requestId, socketData: socket.data, ackArgs });
+    }
   });
 
-  // Expose getPlayerGameState function for API routes
-  global.getPlayerGameState = getPlayerGameState;
+  // Only signed-in users get a socket, and it stays bound to that user for as long as it is open
+  io.use(async (socket, next) => {
+    try {
+      const user = await authenticateHandshake(socket.handshake);
+      if (!user) {
+        next(new Error('You need to be signed in to play'));
+        return;
+      }
+      socket.data.userId = user.userId;
+      socket.data.username = user.username;
+      next();
+    } catch (error) {
+      console.error('❌ Error authenticating socket:', error);
+      next(new Error('Could not check your session'));
+    }
+  });
+
+  io.on('connection', (socket) => {
+    console.log(`🔌 ${socket.data.username} (${socket.data.userId}) connected:`, socket.id);
+    
+    const handlers = new Map();
+    const lobbyEvents = new Set();
+    registerGameHandlers(socket, (eventName, handler) => handlers.set(eventName, handler));
+    registerLobbyHandlers(socket, (eventName, handler) => {
+      handlers.set(eventName, handler);
+      lobbyEvents.add(eventName);
+    });
+    socket.join(userRoom(socket.data.userId));
+    
+    // A socket's events are handled one at a time, in the order they arrived, wherever they end up running.
+    // Lobby and matchmaking events aren't about a game, so they always run on the process holding the socket
+    let pending = Promise.resolve();
+    function handleInOrder(eventName, data, ack) {
+      const handler = handlers.get(eventName);
+      pending = pending
+        .then(() => lobbyEvents.has(eventName) ? handler(data, ack) : routeEvent(socket, eventName, data, ack, handler))
+        .catch((error) => console.error(`❌ Error handling ${eventName}:`, error));
+    }
+    
+    // Refused events never reach the game, so the sender gets the server's view back to undo its optimistic update
+    function refuseEvent(eventName, error, extra = {}) {
+      console.warn(`🚫 Refused ${eventName} from ${socket.data.userId || socket.id}: ${error.code}`);
+      socket.emit('action-rejected', { event: eventName, code: error.code, message: error.message, ...extra });
+      if (socket.data.gameId) {
+        handleInOrder('request-game-state', { gameId: socket.data.gameId });
+      }
+    }
+    
+    const rateLimit = new TokenBucket(SOCKET_RATE_LIMITS.EVENTS);
+    let rateLimited = false;
+    
+    handlers.forEach((handler, eventName) => {
+      if (LOCAL_EVENTS.has(eventName)) {
+        socket.on(eventName, handler);
+        return;
+      }
+      socket.on(eventName, (data, ack) => {
+        // Only the first event over the limit is answered, so a flood doesn't turn into a flood of snapshots
+        const limit = rateLimit.take();
+        if (!limit.allowed) {
+          if (!rateLimited) {
+            refuseEvent(eventName, {
+              code: 'RATE_LIMITED',
+              message: `Too many actions. Try again in ${limit.retryAfter} seconds.`
+            }, { retryAfter: limit.retryAfter });
+          }
+          rateLimited = true;
+          return;
+        }
+        rateLimited = false;
+        
+        const parsed = parseSocketEvent(eventName, data);
+        if (!parsed.success) {
+          refuseEvent(eventName, parsed.error, { details: parsed.error.details });
+          return;
+        }
+        handleInOrder(eventName, parsed.data, ack);
+      });
+    });
+  });
 
   server
     .once('error', (err) => {